@@ -8,7 +8,8 @@
  * session management, x402 protocol negotiation, UCP credential issuance, and multi-chain execution.
  *
  * Key Features:
- * - **Session Management**: Automatically handles session key lifecycle, spending limits, and expiration.
+ * - **Session Management**: Automatically handles session key lifecycle, spending limits, expiration
+ *   and rotation to a fresh key before expiry.
  * - **x402 Client**: Intercepts HTTP 402 responses to perform autonomous payments.
  * - **Multi-Chain Support**: Routes transactions to appropriate chain adapters (EVM, Starknet, Solana, etc.).
  * - **Monitoring**: Provides audit logging and real-time spending alerts.
@@ -26,9 +27,21 @@
  * ```
  */
 import { VeridexSDK, TokenBalance, PortfolioBalance, createSDK, ChainName, PasskeyCredential } from '@veridex/sdk';
-import { AgentWalletConfig, PaymentParams, PaymentReceipt, SessionStatus, HistoryOptions } from './types/agent';
-import { SessionKeyManager } from './session/SessionKeyManager';
-import { SessionKeyConfig, StoredSession } from './session/SessionStorage';
+import {
+  AgentWalletConfig,
+  PaymentParams,
+  PaymentReceipt,
+  SessionStatus,
+  HistoryOptions,
+  SessionFundTransfer,
+  SessionRotationEvent,
+  SessionSweepResult,
+} from './types/agent';
+import { SessionKeyManager, RevokeSessionOptions, OnChainSyncResult } from './session/SessionKeyManager';
+import { SessionKeyConfig, StoredSession, RevocationRecord } from './session/SessionStorage';
+import { SessionBundle, ExportSessionOptions, ImportSessionOptions } from './session/SessionBundle';
+import { SessionEventName, SessionEventListener } from './session/SessionEventEmitter';
+import { SessionRecovery, RecoverSessionsOptions, SessionRecoveryResult } from './session/SessionRecovery';
 import { X402Client } from './x402/X402Client';
 import { UCPCredentialProvider } from './ucp/CredentialProvider';
 import { MCPServer } from './mcp/MCPServer';
@@ -37,10 +50,41 @@ import { AuditLogger, PaymentRecord } from './monitoring/AuditLogger';
 import { AlertManager } from './monitoring/AlertManager';
 import { ComplianceExporter } from './monitoring/ComplianceExporter';
 import { BalanceCache } from './monitoring/BalanceCache';
+import { VaultExecutor } from './chains/VaultExecutor';
+import { SessionSigner, toEthersSigner } from './signers/SessionSigner';
 import { AgentPaymentError, AgentPaymentErrorCode } from './types/errors';
 import { SpendingAlert } from './types/agent';
+import { PaymentPreflight, X402Preflight } from './types/preflight';
+import { PreflightReport } from './preflight/PreflightReport';
+import { PythOracle } from './oracle/PythOracle';
+import { PYTH_FEED_IDS } from './oracle/PythFeeds';
+import { normalizeCurrency } from './oracle/FxRates';
 import { ethers } from 'ethers';
 
+// RPC URLs for testnet chains (Wormhole Chain IDs)
+const RPC_URLS: Record<number, string> = {
+  10002: 'https://ethereum-sepolia-rpc.publicnode.com',
+  10003: 'https://sepolia-rollup.arbitrum.io/rpc',
+  10004: 'https://sepolia.base.org',
+  10005: 'https://sepolia.optimism.io',
+};
+
+// Token addresses for testnets (USDC)
+const USDC_ADDRESSES: Record<number, string> = {
+  10002: '0x7A7754A2089df825801A0a8d95a9801928bFb22A', // Ethereum Sepolia USDC (Aave testnet USDC)
+  10003: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d', // Arbitrum Sepolia USDC
+  10004: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', // Base Sepolia USDC
+  10005: '0x5fd84259d66Cd46123540766Be93DFE6D43130D7', // Optimism Sepolia USDC
+};
+
+const DEFAULT_ROTATE_BEFORE_MINUTES = 10;
+const NATIVE_TRANSFER_GAS = 21_000n;
+// Typical gas for an ERC-20 transfer to an existing holder
+const ERC20_TRANSFER_GAS = 65_000n;
+// Rough gas for dispatching a transfer through the Veridex hub in vault mode
+const VAULT_DISPATCH_GAS = 250_000n;
+const DEFAULT_SWEEP_TOKENS = ['usdc', 'eth'];
+
 export class AgentWallet {
   private sessionManager: SessionKeyManager;
   private x402Client: X402Client;
@@ -51,11 +95,21 @@ export class AgentWallet {
   private alertManager: AlertManager;
   private complianceExporter: ComplianceExporter;
   private balanceCache: BalanceCache;
+  private vaultExecutor: VaultExecutor;
   private coreSDK!: VeridexSDK;
   private currentSession?: StoredSession;
+  private rotationCallbacks: ((event: SessionRotationEvent) => void)[] = [];
+  private pendingRotation?: Promise<StoredSession>;
 
   constructor(private config: AgentWalletConfig) {
-    this.sessionManager = new SessionKeyManager();
+    this.sessionManager = new SessionKeyManager({
+      storage: config.sessionStorage,
+      events: config.sessionEvents,
+      registry: config.registry,
+      signerFactory: config.signerFactory,
+      derivation: config.derivation,
+      fxRates: config.fxRates,
+    });
     // coreSDK will be initialized in init() or first use
     this.ucpProvider = new UCPCredentialProvider(this.sessionManager);
     this.router = new CrossChainRouter();
@@ -63,12 +117,27 @@ export class AgentWallet {
     this.alertManager = new AlertManager();
     this.complianceExporter = new ComplianceExporter();
     this.balanceCache = new BalanceCache();
+    this.vaultExecutor = new VaultExecutor();
     // x402Client needs coreSDK, so we'll lazy-init it
-    this.x402Client = new X402Client(this.sessionManager, null as any, config.x402);
+    this.x402Client = new X402Client(
+      this.sessionManager,
+      null as any,
+      config.x402,
+      config.masterCredential.credentialId
+    );
 
     if (config.mcp?.enabled) {
       this.mcpServer = new MCPServer(this);
     }
+
+    if (config.sweep?.onExpiry) {
+      this.sessionManager.events.on('session:expired', ({ keyHash }) => {
+        if (this.currentSession?.keyHash !== keyHash) return;
+        this.sweepSession().catch((error) => {
+          console.error(`[AgentWallet] Sweeping expired session ${keyHash} failed:`, error);
+        });
+      });
+    }
   }
 
   async init(): Promise<void> {
@@ -82,11 +151,28 @@ export class AgentWallet {
     // Update x402Client with initialized coreSDK
     (this.x402Client as any).coreSDK = this.coreSDK;
 
+    // Resume a persisted session so spending metadata survives restarts
+    if (this.config.sessionStorage) {
+      const existing = (await this.sessionManager.getSessionsForMasterKey(this.config.masterCredential.keyHash))
+        .filter((s) => !s.parentKeyHash && !s.successorKeyHash);
+      if (existing.length > 0) {
+        this.currentSession = existing.sort((a, b) => b.metadata.createdAt - a.metadata.createdAt)[0];
+        return;
+      }
+    }
+
     this.currentSession = await this.createSession({
+      currency: this.config.session.currency,
       dailyLimitUSD: this.config.session.dailyLimitUSD,
       perTransactionLimitUSD: this.config.session.perTransactionLimitUSD,
       expiryTimestamp: Date.now() + (this.config.session.expiryHours * 60 * 60 * 1000),
-      allowedChains: this.config.session.allowedChains
+      allowedChains: this.config.session.allowedChains,
+      allowedTokens: this.config.session.allowedTokens,
+      tokenBudgets: this.config.session.tokenBudgets,
+      chainBudgetsUSD: this.config.session.chainBudgetsUSD,
+      keyFamilies: this.config.session.keyFamilies,
+      velocityLimits: this.config.session.velocityLimits,
+      policy: this.config.session.policy,
     });
   }
 
@@ -97,11 +183,28 @@ export class AgentWallet {
     return await this.sessionManager.createSession(this.config.masterCredential, config);
   }
 
+  /**
+   * Delegate part of a session's budget to a worker agent.
+   * The sub-session's limits must fit inside the parent's remaining limits; its spend
+   * counts against the parent, and revoking the parent revokes it.
+   *
+   * @param config - Sub-session limits, expiry and chains
+   * @param parent - Session to delegate from (defaults to the current session)
+   */
+  async createSubSession(config: SessionKeyConfig, parent?: StoredSession): Promise<StoredSession> {
+    if (!parent && !this.currentSession) await this.init();
+    return await this.sessionManager.createSubSession(
+      parent ?? this.currentSession!,
+      this.config.masterCredential,
+      config
+    );
+  }
+
   async fetch(url: string, options?: RequestInit): Promise<Response> {
-    if (!this.currentSession) await this.init();
+    const session = await this.getActiveSession();
 
     return await this.withRetry(async () => {
-      return await this.x402Client.handleFetch(url, options, this.currentSession!);
+      return await this.x402Client.handleFetch(url, options, session);
     });
   }
 
@@ -110,52 +213,69 @@ export class AgentWallet {
     fetch('http://127.0.0.1:7242/ingest/c6390672-1465-4a0d-bb12-57e7bed0bb2e', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ location: 'AgentWallet.ts:pay:entry', message: 'pay() called', data: { params, hasSession: !!this.currentSession }, timestamp: Date.now(), sessionId: 'debug-session', hypothesisId: 'H2,H3,H4' }) }).catch(() => { });
     // #endregion
 
-    if (!this.currentSession) await this.init();
+    const session = await this.getActiveSession();
 
     // Check limits
-    const amountBig = BigInt(params.amount);
-    let decimals = 18;
-    const tokenUpper = params.token.toUpperCase();
-
-    // Handle common stablecoins
-    if (['USDC', 'USDT'].includes(tokenUpper)) {
-      decimals = 6;
-    }
+    const { tokenAmount, amountUSD } = this.valuePayment(params);
 
-    // Calculate estimated USD value
-    // Note: For non-stablecoins, this assumes 1 Token = $1 which is inaccurate but safer than atomic units.
-    // Real implementation would need a price oracle or CoinGecko API here.
-    const divisor = BigInt(10) ** BigInt(decimals);
-    const amountUSD = Number(amountBig) / Number(divisor);
-
-    const limitCheck = this.sessionManager.checkLimits(this.currentSession!, amountUSD);
-    if (!limitCheck.allowed) {
-      throw AgentPaymentError.fromLimitExceeded(limitCheck.reason || `Transaction amount $${amountUSD.toFixed(2)} exceeds limit`);
+    const paymentContext = {
+      recipient: params.recipient,
+      token: params.token,
+      tokenAmount,
+      chain: params.chain,
+      approved: params.approvalId !== undefined && this.alertManager.consumeApproval(params.approvalId, amountUSD),
+    };
+    const limitCheck = await this.sessionManager.reserveSpending(session, amountUSD, paymentContext);
+    if (!limitCheck.reservation) {
+      if (limitCheck.code === AgentPaymentErrorCode.APPROVAL_REQUIRED) {
+        // Park the payment until a human approves it with approvePayment()
+        const approvalId = `apr_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+        const approval = this.alertManager.requestApproval(approvalId, amountUSD, limitCheck.reason);
+        throw AgentPaymentError.fromLimitCheck(limitCheck, {
+          requestedAmountUSD: amountUSD,
+          approvalId,
+          approvalExpiresAt: approval.expiresAt,
+        });
+      }
+      throw AgentPaymentError.fromLimitCheck(limitCheck, { requestedAmountUSD: amountUSD });
     }
+    const reservation = limitCheck.reservation;
 
-    // Get signer from session (handles encryption properly)
-    const signer = await this.sessionManager.getSessionWallet(
-      this.currentSession!,
-      this.currentSession!.masterKeyHash || this.config.masterCredential.credentialId
-    );
+    let receipt: { transactionHash: string };
+    try {
+      // Get signer from session (handles encryption properly)
+      const signer = await this.sessionManager.getSessionSigner(
+        session,
+        session.masterKeyHash || this.config.masterCredential.credentialId
+      );
+      const signerAddress = await signer.getAddress();
 
-    // #region agent log
-    fetch('http://127.0.0.1:7242/ingest/c6390672-1465-4a0d-bb12-57e7bed0bb2e', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ location: 'AgentWallet.ts:pay:beforeDirectTransfer', message: 'About to execute direct transfer', data: { signerAddress: signer.address, targetChain: params.chain, token: params.token, amount: params.amount }, timestamp: Date.now(), sessionId: 'debug-session', hypothesisId: 'H2,H4,H5' }) }).catch(() => { });
-    // #endregion
+      // #region agent log
+      fetch('http://127.0.0.1:7242/ingest/c6390672-1465-4a0d-bb12-57e7bed0bb2e', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ location: 'AgentWallet.ts:pay:beforeDirectTransfer', message: 'About to execute direct transfer', data: { signerAddress, targetChain: params.chain, token: params.token, amount: params.amount }, timestamp: Date.now(), sessionId: 'debug-session', hypothesisId: 'H2,H4,H5' }) }).catch(() => { });
+      // #endregion
 
-    // Execute direct transfer using session wallet (bypasses passkey requirement)
-    const receipt = await this.withRetry(async () => {
-      return await this.executeDirectTransfer(signer, params);
-    });
+      // Execute with the session key (bypasses passkey requirement), from the vault or the session wallet
+      receipt = await this.withRetry(async () => {
+        return this.config.execution?.mode === 'vault'
+          ? await this.executeVaultTransfer(session, signer, params)
+          : await this.executeDirectTransfer(session, signer, params);
+      });
+    } catch (error) {
+      // Nothing was spent, give the reserved budget back
+      await this.sessionManager.releaseReservation(session, reservation);
+      throw error;
+    }
 
     // Record spending
-    await this.sessionManager.recordSpending(this.currentSession!, amountUSD);
+    await this.sessionManager.commitReservation(session, reservation);
 
     // Check for alerts
+    const currency = normalizeCurrency(session.config.currency);
     this.alertManager.checkSpending(
-      this.currentSession!.keyHash,
-      this.currentSession!.metadata.dailySpentUSD,
-      this.currentSession!.config.dailyLimitUSD
+      session.keyHash,
+      this.sessionManager.getDailySpentUSD(session),
+      session.config.dailyLimitUSD,
+      currency
     );
 
     const paymentReceipt: PaymentReceipt = {
@@ -164,15 +284,99 @@ export class AgentWallet {
       chain: params.chain,
       token: params.token,
       amount: BigInt(params.amount),
+      amountUSD,
+      ...(reservation.amount !== undefined ? { budgetAmount: reservation.amount, budgetCurrency: currency } : {}),
       recipient: params.recipient,
       protocol: params.protocol || 'direct',
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      policy: limitCheck.policy
     };
 
-    await this.auditLogger.log(paymentReceipt, this.currentSession!.keyHash);
+    await this.auditLogger.log(paymentReceipt, session.keyHash);
     return paymentReceipt;
   }
 
+  /**
+   * Dry-run {@link pay}: value the payment, resolve its chain and token, check session limits
+   * and policy, the session wallet balance, the route and gas, without reserving budget,
+   * signing or sending anything. An `approvalId` is checked but not used up.
+   *
+   * @returns Structured verdict with every check and the error `pay()` would throw
+   */
+  async preflight(params: PaymentParams): Promise<PaymentPreflight> {
+    if (!this.currentSession) await this.init();
+    const session = this.currentSession!;
+    const report = new PreflightReport();
+
+    const { tokenAmount, amountUSD, decimals } = this.valuePayment(params);
+    const symbol = params.token.startsWith('0x') ? undefined : params.token.toUpperCase();
+    report.pass('valuation', `${tokenAmount} ${symbol ?? params.token} valued at $${amountUSD}`);
+
+    let transfer: { rpcUrl: string; tokenAddress?: string } | undefined;
+    try {
+      transfer = this.resolveTransfer(params);
+      report.pass('chain', `Chain ${params.chain} supports direct transfers`);
+      report.pass('token', transfer.tokenAddress ? `${symbol} at ${transfer.tokenAddress}` : 'Native token');
+    } catch (error) {
+      if (!(error instanceof AgentPaymentError)) throw error;
+      if (error.code === AgentPaymentErrorCode.CHAIN_NOT_SUPPORTED) {
+        report.fail('chain', error);
+        report.skip('token', 'Not checked: chain not supported');
+      } else {
+        report.pass('chain', `Chain ${params.chain} supports direct transfers`);
+        report.fail('token', error);
+      }
+    }
+
+    // Without a fresh rate, checkLimits falls back to the cached one or fails the check
+    const budgetAmount = await this.sessionManager.toBudgetCurrency(session, amountUSD).catch(() => undefined);
+    const limitCheck = this.sessionManager.checkLimits(session, amountUSD, {
+      recipient: params.recipient,
+      token: params.token,
+      tokenAmount,
+      chain: params.chain,
+      approved: params.approvalId !== undefined && this.alertManager.canUseApproval(params.approvalId, amountUSD),
+      budgetAmount,
+    });
+    report.recordLimits(limitCheck, { requestedAmountUSD: amountUSD });
+
+    const result: PaymentPreflight = {
+      wouldSucceed: false,
+      requiresApproval: false,
+      amountUSD,
+      tokenAmount,
+      token: { symbol, address: transfer?.tokenAddress, decimals },
+      chain: params.chain,
+      recipient: params.recipient,
+      remainingDailyLimitUSD: limitCheck.remainingDailyLimitUSD,
+      policy: limitCheck.policy,
+      checks: report.checks,
+    };
+
+    if (transfer) {
+      await this.preflightTransfer(session, params, transfer, report, result);
+    } else {
+      for (const name of ['balance', 'route', 'fees'] as const) {
+        report.skip(name, 'Not checked: unsupported chain or token');
+      }
+    }
+
+    result.wouldSucceed = report.ok;
+    result.requiresApproval = report.requiresApproval;
+    result.totalCostUSD = amountUSD + (result.fees?.usd ?? 0);
+    result.error = report.error;
+    return result;
+  }
+
+  /**
+   * Dry-run {@link fetch}: make the unpaid request and check whether a 402 payment would
+   * go through, without signing or retrying.
+   */
+  async preflightFetch(url: string, options?: RequestInit): Promise<X402Preflight> {
+    if (!this.currentSession) await this.init();
+    return await this.x402Client.preflight(url, options, this.currentSession!);
+  }
+
   async getBalance(chain?: number): Promise<TokenBalance[]> {
     if (!this.coreSDK) await this.init();
     if (!this.currentSession) return [];
@@ -224,11 +428,194 @@ export class AgentWallet {
     return this.auditLogger.getLogs(options);
   }
 
-  async revokeSession(): Promise<void> {
-    if (this.currentSession) {
-      await this.sessionManager.revokeSession(this.currentSession.keyHash);
+  /**
+   * Revoke the current session. A tombstone with the actor and reason is persisted,
+   * so other holders of the session (including sub-sessions) can no longer sign.
+   *
+   * With `sweep` (or `sweep.onRevoke` in the config) leftover balances are first returned
+   * to the master vault. A failed sweep does not stop the revocation.
+   *
+   * @returns The sweep result, when balances were swept
+   */
+  async revokeSession(options: RevokeSessionOptions & { sweep?: boolean } = {}): Promise<SessionSweepResult | undefined> {
+    if (!this.currentSession) return undefined;
+
+    let sweep: SessionSweepResult | undefined;
+    if (options.sweep ?? this.config.sweep?.onRevoke) {
+      sweep = await this.sweepSession();
+    }
+
+    await this.sessionManager.revokeSession(this.currentSession.keyHash, {
+      actor: options.actor ?? this.config.masterCredential.keyHash,
+      reason: options.reason,
+    });
+    this.currentSession = undefined;
+    return sweep;
+  }
+
+  /**
+   * Fund the current session wallet from the master Veridex vault. The master passkey signs
+   * the vault transfer, which the relayer submits. Funding is recorded in the audit log and
+   * does not count against the session's spending limits.
+   *
+   * @param amount - Amount in atomic units (e.g. '5000000' for 5 USDC)
+   * @param token - 'usdc', 'eth' or 'native'
+   * @param chain - Wormhole chain ID of the session wallet to fund
+   * @throws AgentPaymentError `RELAYER_ERROR` if the vault transfer fails
+   */
+  async fundSession(amount: string, token: string, chain: number): Promise<PaymentReceipt> {
+    if (!this.currentSession) await this.init();
+    const session = this.currentSession!;
+    await this.sessionManager.assertNotRevoked(session);
+
+    const recipient = session.walletAddress ?? ethers.computeAddress(session.publicKey);
+    const { tokenAddress } = this.resolveTransfer({ amount, token, recipient, chain });
+    const sdk = this.getVaultSDK();
+
+    let txHash: string;
+    try {
+      const result = await sdk.transferViaRelayer({
+        targetChain: chain,
+        token: tokenAddress ?? 'native',
+        recipient,
+        amount: BigInt(amount),
+      });
+      txHash = result.transactionHash;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.auditLogger.log({
+        txHash: '',
+        status: 'failed',
+        chain,
+        token,
+        amount: BigInt(amount),
+        recipient,
+        kind: 'session-fund',
+        timestamp: Date.now(),
+      }, session.keyHash);
+      throw new AgentPaymentError(
+        AgentPaymentErrorCode.RELAYER_ERROR,
+        `Funding session wallet ${recipient} from the vault failed: ${message}`,
+        `Check that the vault ${sdk.getVaultAddress()} holds enough ${token} on chain ${chain} and that the relayer is reachable.`,
+        true,
+        { chain, token, amount }
+      );
+    }
+
+    const receipt: PaymentReceipt = {
+      txHash,
+      status: 'confirmed',
+      chain,
+      token,
+      amount: BigInt(amount),
+      recipient,
+      kind: 'session-fund',
+      timestamp: Date.now(),
+    };
+    await this.auditLogger.log(receipt, session.keyHash);
+    return receipt;
+  }
+
+  /**
+   * Return the current session wallet's balances to the master vault, on every allowed chain
+   * with an RPC endpoint. Each chain's balances go to the vault address on that chain. The
+   * native balance keeps back enough gas for the token transfers. Every transfer is recorded
+   * in the audit log; a failing chain or token does not stop the rest.
+   *
+   * @param options - Tokens to sweep (defaults to `sweep.tokens` from the config, then USDC and ETH)
+   */
+  async sweepSession(options: { tokens?: string[] } = {}): Promise<SessionSweepResult> {
+    if (!this.currentSession) await this.init();
+    const session = this.currentSession!;
+    const tokens = options.tokens ?? this.config.sweep?.tokens ?? DEFAULT_SWEEP_TOKENS;
+    const vaultAddresses: Record<number, string> = {};
+    const vaultAddress = (chain: number) => {
+      vaultAddresses[chain] ??= this.vaultExecutor.getVaultAddress(chain, this.config.masterCredential.keyHash);
+      return vaultAddresses[chain];
+    };
+
+    const { transfers, failures } = await this.moveSessionFunds(session, vaultAddress, tokens);
+    for (const transfer of transfers) {
+      await this.auditLogger.log({
+        txHash: transfer.txHash,
+        status: 'confirmed',
+        chain: transfer.chain,
+        token: transfer.token,
+        amount: BigInt(transfer.amount),
+        recipient: vaultAddresses[transfer.chain],
+        kind: 'session-sweep',
+        timestamp: Date.now(),
+      }, session.keyHash);
+    }
+    return { vaultAddresses, transfers, failures };
+  }
+
+  /**
+   * Rotate the current session to a fresh key with the same limits and policy. Spend in
+   * the rolling windows carries over, so rotation never frees up budget. Balances of
+   * `transferTokens` on the old session wallet are moved to the new one before the old key
+   * is retired; if moving them fails the old key is kept so the funds stay reachable.
+   *
+   * @param options - Tokens to move (defaults to `rotation.transferTokens` from the config)
+   * @returns The new current session
+   */
+  async rotateSession(options: { transferTokens?: string[] } = {}): Promise<StoredSession> {
+    if (!this.currentSession) await this.init();
+    return await this.runRotation('manual', options.transferTokens ?? this.config.rotation?.transferTokens ?? []);
+  }
+
+  /**
+   * Rebuild the records of this wallet's derived sessions after their storage was lost, and
+   * report their balances on the session's allowed chains. Requires `derivation` in the config.
+   */
+  async recoverSessions(options: RecoverSessionsOptions = {}): Promise<SessionRecoveryResult> {
+    const chains = this.config.session.allowedChains.filter((chain) => RPC_URLS[chain]);
+    const recovery = new SessionRecovery({
+      manager: this.sessionManager,
+      providers: Object.fromEntries(chains.map((chain) => [chain, new ethers.JsonRpcProvider(RPC_URLS[chain])])),
+      tokens: Object.fromEntries(chains.filter((chain) => USDC_ADDRESSES[chain]).map((chain) => [chain, { usdc: USDC_ADDRESSES[chain] }])),
+      registry: this.config.registry,
+    });
+    return await recovery.recover(this.config.masterCredential, options);
+  }
+
+  /**
+   * Reconcile the current session against the hub: adopt an on-chain revocation and
+   * on-chain spend made by other holders of the key. Requires `registry` in the config.
+   */
+  async syncSessionOnChain(): Promise<OnChainSyncResult> {
+    if (!this.currentSession) await this.init();
+    const result = await this.sessionManager.syncOnChain(this.currentSession!);
+    if (result.revoked) {
       this.currentSession = undefined;
     }
+    return result;
+  }
+
+  /**
+   * Attach the external signer holding the current session's key, e.g. after `init()` resumed
+   * a session created with `signerFactory` in an earlier process.
+   */
+  async attachSessionSigner(signer: SessionSigner): Promise<void> {
+    if (!this.currentSession) await this.init();
+    await this.sessionManager.attachSigner(this.currentSession!, signer);
+  }
+
+  /**
+   * Approve a payment that a session policy parked for human approval. Retry the payment
+   * with the `approvalId` from the APPROVAL_REQUIRED error's context within 5 minutes.
+   *
+   * @returns `false` if the approval ID is unknown or has expired
+   */
+  approvePayment(approvalId: string, approverKey: string = this.config.masterCredential.keyHash): boolean {
+    return this.alertManager.approveTransaction(approvalId, approverKey);
+  }
+
+  /**
+   * Audit view of sessions revoked for this wallet's master key, most recent first.
+   */
+  async listRevokedSessions(): Promise<RevocationRecord[]> {
+    return await this.sessionManager.listRevokedSessions(this.config.masterCredential.keyHash);
   }
 
   public getSessionStatus(): SessionStatus {
@@ -237,34 +624,55 @@ export class AgentWallet {
       isValid: this.sessionManager.isSessionValid(this.currentSession),
       keyHash: this.currentSession.keyHash,
       expiry: this.currentSession.config.expiryTimestamp,
-      remainingDailyLimitUSD: this.currentSession.config.dailyLimitUSD - this.currentSession.metadata.dailySpentUSD,
+      currency: normalizeCurrency(this.currentSession.config.currency),
+      remainingDailyLimitUSD: this.currentSession.config.dailyLimitUSD - this.sessionManager.getDailySpentUSD(this.currentSession),
       totalSpentUSD: this.currentSession.metadata.totalSpentUSD,
+      totalSpent: this.currentSession.metadata.totalSpent,
       masterKeyHash: this.currentSession.masterKeyHash,
+      parentKeyHash: this.currentSession.parentKeyHash,
       address: this.currentSession.walletAddress,
+      addresses: this.sessionManager.getSessionAddresses(this.currentSession),
       limits: {
         dailyLimitUSD: this.currentSession.config.dailyLimitUSD,
         perTransactionLimitUSD: this.currentSession.config.perTransactionLimitUSD
-      }
+      },
+      budgets: this.sessionManager.getBudgetStatus(this.currentSession)
     };
   }
 
-  async importSession(sessionData: any): Promise<void> {
-    // Validate session data structure structure roughly
-    if (!sessionData.keyHash || !sessionData.encryptedPrivateKey) {
-      throw new Error("Invalid session data");
-    }
-
-    // Compute wallet address from publicKey if not already present
-    if (!sessionData.walletAddress && sessionData.publicKey) {
-      sessionData.walletAddress = ethers.computeAddress(sessionData.publicKey);
+  /**
+   * Export the current session as a portable bundle for another agent or process.
+   * Pass `sign` to have the master passkey sign it, and `passphrase` to encrypt it.
+   */
+  async exportSession(options: ExportSessionOptions = {}): Promise<SessionBundle> {
+    if (!this.currentSession) {
+      throw new AgentPaymentError(
+        AgentPaymentErrorCode.SESSION_INVALID,
+        'No active session to export',
+        'Call init() or createSession() first.',
+        false
+      );
     }
+    return await this.sessionManager.exportSession(this.currentSession, options);
+  }
 
-    // Save to storage
-    await this.sessionManager.importSession(sessionData);
+  /**
+   * Import a session bundle (e.g. provisioned by a frontend) and make it the current session.
+   * The bundle must be signed by this wallet's master credential unless `allowUnsigned` is set;
+   * bare sessions from older SDK versions are migrated and count as unsigned.
+   */
+  async importSession(
+    bundle: unknown,
+    options: Omit<ImportSessionOptions, 'masterCredential'> = {}
+  ): Promise<void> {
+    const session = await this.sessionManager.importSessionBundle(bundle, {
+      ...options,
+      masterCredential: this.config.masterCredential,
+    });
 
     // Set as current
-    this.currentSession = sessionData;
-    console.log(`[AgentWallet] Imported session ${sessionData.keyHash} for master ${sessionData.masterKeyHash}`);
+    this.currentSession = session;
+    console.log(`[AgentWallet] Imported session ${session.keyHash} for master ${session.masterKeyHash}`);
   }
 
   // Audit and monitoring
@@ -280,34 +688,192 @@ export class AgentWallet {
     this.alertManager.onAlert(callback);
   }
 
+  onSessionRotated(callback: (event: SessionRotationEvent) => void): void {
+    this.rotationCallbacks.push(callback);
+  }
+
+  /**
+   * Subscribe to session lifecycle events: `session:created`, `session:imported`,
+   * `session:limit-threshold`, `session:expiring`, `session:expired`, `session:revoked`
+   * and `session:rotated`.
+   *
+   * @returns Function that removes the listener
+   */
+  onSessionEvent<K extends SessionEventName>(event: K, listener: SessionEventListener<K>): () => void {
+    return this.sessionManager.events.on(event, listener);
+  }
+
   getMCPTools(): any[] {
     return this.mcpServer ? this.mcpServer.getTools() : [];
   }
 
   /**
-   * Execute a direct token transfer using the session wallet.
-   * This bypasses the Veridex protocol (no passkey required) and uses the session key directly.
+   * The session to pay with, rotating it first when automatic rotation is enabled and it
+   * is about to expire.
    */
-  private async executeDirectTransfer(
-    signer: ethers.Wallet,
-    params: PaymentParams
-  ): Promise<{ transactionHash: string }> {
-    // RPC URLs for testnet chains (Wormhole Chain IDs)
-    const RPC_URLS: Record<number, string> = {
-      10002: 'https://ethereum-sepolia-rpc.publicnode.com',
-      10003: 'https://sepolia-rollup.arbitrum.io/rpc',
-      10004: 'https://sepolia.base.org',
-      10005: 'https://sepolia.optimism.io',
-    };
+  private async getActiveSession(): Promise<StoredSession> {
+    if (!this.currentSession) await this.init();
+
+    const rotation = this.config.rotation;
+    if (rotation?.enabled) {
+      const rotateBeforeMs = (rotation.rotateBeforeMinutes ?? DEFAULT_ROTATE_BEFORE_MINUTES) * 60 * 1000;
+      if (this.currentSession!.config.expiryTimestamp - Date.now() <= rotateBeforeMs) {
+        await this.runRotation('scheduled', rotation.transferTokens ?? []);
+      }
+    }
+    return this.currentSession!;
+  }
+
+  /**
+   * Run a rotation, sharing it with concurrent callers so a session is only rotated once.
+   */
+  private async runRotation(trigger: SessionRotationEvent['trigger'], transferTokens: string[]): Promise<StoredSession> {
+    if (!this.pendingRotation) {
+      this.pendingRotation = this.performRotation(trigger, transferTokens).finally(() => {
+        this.pendingRotation = undefined;
+      });
+    }
+    return await this.pendingRotation;
+  }
+
+  private async performRotation(trigger: SessionRotationEvent['trigger'], transferTokens: string[]): Promise<StoredSession> {
+    const previous = this.currentSession!;
+    const actor = trigger === 'scheduled' ? 'rotation' : this.config.masterCredential.keyHash;
+
+    // Keep the old key signing until its funds have moved
+    const successor = await this.sessionManager.rotateSession(previous, this.config.masterCredential, {
+      retire: false,
+      actor,
+    });
+    this.currentSession = successor;
+
+    let transfers: SessionFundTransfer[] = [];
+    let transferError: string | undefined;
+    if (transferTokens.length > 0) {
+      const recipient = successor.walletAddress ?? ethers.computeAddress(successor.publicKey);
+      try {
+        const moved = await this.moveSessionFunds(previous, () => recipient, transferTokens);
+        transfers = moved.transfers;
+        if (moved.failures.length > 0) {
+          transferError = moved.failures.map((f) => `${f.token} on chain ${f.chain}: ${f.error}`).join('; ');
+        }
+      } catch (error) {
+        transferError = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    const retired = transferError === undefined;
+    if (retired) {
+      await this.sessionManager.revokeSession(previous.keyHash, {
+        actor,
+        reason: `Rotated to ${successor.keyHash}`,
+      });
+    }
 
-    // Token addresses for testnets (USDC)
-    const USDC_ADDRESSES: Record<number, string> = {
-      10002: '0x7A7754A2089df825801A0a8d95a9801928bFb22A', // Ethereum Sepolia USDC (Aave testnet USDC)
-      10003: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d', // Arbitrum Sepolia USDC
-      10004: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', // Base Sepolia USDC
-      10005: '0x5fd84259d66Cd46123540766Be93DFE6D43130D7', // Optimism Sepolia USDC
+    const event: SessionRotationEvent = {
+      previousKeyHash: previous.keyHash,
+      keyHash: successor.keyHash,
+      expiry: successor.config.expiryTimestamp,
+      trigger,
+      transfers,
+      transferError,
+      retired,
+      timestamp: Date.now(),
     };
+    this.rotationCallbacks.forEach(cb => cb(event));
+
+    return successor;
+  }
+
+  /**
+   * Move the balances of the given tokens from a session wallet to the recipient for each
+   * chain, on every allowed chain with an RPC endpoint. Tokens go first because the native
+   * balance pays for their gas; a native transfer keeps back twice its estimated gas cost.
+   * A failed transfer, or a chain without a recipient, is reported and the rest still run.
+   */
+  private async moveSessionFunds(
+    from: StoredSession,
+    recipientFor: (chain: number) => string,
+    tokens: string[]
+  ): Promise<Omit<SessionSweepResult, 'vaultAddresses'>> {
+    const signer = await this.sessionManager.getSessionSigner(from, this.config.masterCredential.credentialId);
+    const signerAddress = await signer.getAddress();
+    const isNative = (token: string) => ['ETH', 'NATIVE'].includes(token.toUpperCase());
+    const ordered = [...tokens.filter((t) => !isNative(t)), ...tokens.filter(isNative)];
+    const transfers: SessionFundTransfer[] = [];
+    const failures: SessionSweepResult['failures'] = [];
+
+    for (const chain of from.config.allowedChains.filter((c) => RPC_URLS[c])) {
+      let recipient: string;
+      try {
+        recipient = recipientFor(chain);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        failures.push(...ordered.map((token) => ({ chain, token, error: message })));
+        continue;
+      }
+      const provider = new ethers.JsonRpcProvider(RPC_URLS[chain]);
+      for (const token of ordered) {
+        try {
+          let amount: bigint;
+          if (isNative(token)) {
+            const fees = await provider.getFeeData();
+            const gasCost = NATIVE_TRANSFER_GAS * (fees.maxFeePerGas ?? fees.gasPrice ?? 0n) * 2n;
+            const balance = await provider.getBalance(signerAddress);
+            amount = balance > gasCost ? balance - gasCost : 0n;
+          } else if (token.toUpperCase() === 'USDC' && USDC_ADDRESSES[chain]) {
+            const usdc = new ethers.Contract(
+              USDC_ADDRESSES[chain],
+              ['function balanceOf(address owner) view returns (uint256)'],
+              provider
+            );
+            amount = await usdc.balanceOf(signerAddress);
+          } else {
+            continue;
+          }
+          if (amount === 0n) continue;
 
+          const { transactionHash } = await this.executeDirectTransfer(from, signer, {
+            amount: amount.toString(),
+            token,
+            recipient,
+            chain,
+          });
+          transfers.push({ chain, token, amount: amount.toString(), txHash: transactionHash });
+        } catch (error) {
+          failures.push({ chain, token, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
+    return { transfers, failures };
+  }
+
+  /**
+   * The core SDK, signing as the master passkey so it can move funds out of the vault.
+   */
+  private getVaultSDK(): VeridexSDK {
+    this.coreSDK.setCredential(this.config.masterCredential);
+    return this.coreSDK;
+  }
+
+  /**
+   * Value a direct payment. Stablecoins use 6 decimals and everything else 18.
+   * Note: For non-stablecoins, this assumes 1 Token = $1 which is inaccurate but safer than atomic units.
+   * Real implementation would need a price oracle or CoinGecko API here.
+   */
+  private valuePayment(params: PaymentParams): { tokenAmount: number; amountUSD: number; decimals: number } {
+    const decimals = ['USDC', 'USDT'].includes(params.token.toUpperCase()) ? 6 : 18;
+    const tokenAmount = Number(BigInt(params.amount)) / Number(BigInt(10) ** BigInt(decimals));
+    return { tokenAmount, amountUSD: tokenAmount, decimals };
+  }
+
+  /**
+   * Resolve the RPC endpoint and token contract for a direct transfer.
+   *
+   * @returns `tokenAddress` is unset for native transfers
+   * @throws AgentPaymentError `CHAIN_NOT_SUPPORTED` or `TOKEN_NOT_SUPPORTED`
+   */
+  private resolveTransfer(params: PaymentParams): { rpcUrl: string; tokenAddress?: string } {
     const rpcUrl = RPC_URLS[params.chain];
     if (!rpcUrl) {
       throw new AgentPaymentError(
@@ -318,27 +884,195 @@ export class AgentWallet {
       );
     }
 
+    const tokenUpper = params.token.toUpperCase();
+    if (tokenUpper === 'ETH' || tokenUpper === 'NATIVE') {
+      return { rpcUrl };
+    }
+    if (tokenUpper === 'USDC') {
+      const tokenAddress = USDC_ADDRESSES[params.chain];
+      if (!tokenAddress) {
+        throw new AgentPaymentError(
+          AgentPaymentErrorCode.TOKEN_NOT_SUPPORTED,
+          `USDC not configured for chain ${params.chain}`,
+          'Use a supported token on this chain.',
+          false
+        );
+      }
+      return { rpcUrl, tokenAddress };
+    }
+    throw new AgentPaymentError(
+      AgentPaymentErrorCode.TOKEN_NOT_SUPPORTED,
+      `Token ${params.token} is not supported. Use 'eth', 'native', or 'usdc'.`,
+      'Use a supported token symbol.',
+      false
+    );
+  }
+
+  /**
+   * Balance, route and gas checks for a direct transfer preflight. RPC failures skip the
+   * affected check rather than failing it.
+   */
+  private async preflightTransfer(
+    session: StoredSession,
+    params: PaymentParams,
+    transfer: { rpcUrl: string; tokenAddress?: string },
+    report: PreflightReport,
+    result: PaymentPreflight
+  ): Promise<void> {
+    const provider = new ethers.JsonRpcProvider(transfer.rpcUrl);
+    const address = session.walletAddress ?? ethers.computeAddress(session.publicKey);
+    const vaultMode = this.config.execution?.mode === 'vault';
+    const amount = BigInt(params.amount);
+    const describe = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+    let gasWei: bigint | undefined;
+    let feeProblem: string | undefined;
+    try {
+      const feeData = await provider.getFeeData();
+      const gasLimit = vaultMode
+        ? VAULT_DISPATCH_GAS
+        : transfer.tokenAddress ? ERC20_TRANSFER_GAS : NATIVE_TRANSFER_GAS;
+      gasWei = gasLimit * (feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n);
+      // Gas on all supported testnets is paid in ETH
+      const ethPrice = await PythOracle.getInstance().getPrice(PYTH_FEED_IDS.ETH);
+      result.fees = {
+        paidBy: 'payer',
+        native: gasWei.toString(),
+        usd: ethPrice > 0 ? Number(ethers.formatEther(gasWei)) * ethPrice : undefined,
+      };
+    } catch (error) {
+      feeProblem = `Gas price unavailable: ${describe(error)}`;
+    }
+
+    try {
+      // In vault mode the vault pays and the session wallet only pays gas
+      const fundsAddress = vaultMode
+        ? this.vaultExecutor.getVaultAddress(params.chain, this.config.masterCredential.keyHash)
+        : address;
+      const nativeBalance = await provider.getBalance(address);
+      const available: bigint = transfer.tokenAddress
+        ? await new ethers.Contract(
+          transfer.tokenAddress,
+          ['function balanceOf(address owner) view returns (uint256)'],
+          provider
+        ).balanceOf(fundsAddress)
+        : vaultMode ? await provider.getBalance(fundsAddress) : nativeBalance;
+      const gasFromFunds = !transfer.tokenAddress && !vaultMode;
+      const required = gasFromFunds ? amount + (gasWei ?? 0n) : amount;
+      result.balance = { available: available.toString(), required: required.toString() };
+
+      if (available < required) {
+        report.fail('balance', new AgentPaymentError(
+          AgentPaymentErrorCode.INSUFFICIENT_BALANCE,
+          `Insufficient ${result.token.symbol} balance: have ${available}, need ${required}`,
+          vaultMode
+            ? `Deposit into your vault ${fundsAddress} on chain ${params.chain}.`
+            : `Fund your wallet ${address} on chain ${params.chain}.`,
+          false
+        ));
+      } else if (!gasFromFunds && gasWei !== undefined && nativeBalance < gasWei) {
+        report.fail('balance', new AgentPaymentError(
+          AgentPaymentErrorCode.INSUFFICIENT_BALANCE,
+          `Insufficient ETH for gas: have ${ethers.formatEther(nativeBalance)} ETH, need ${ethers.formatEther(gasWei)} ETH`,
+          `Fund your wallet ${address} with ETH on chain ${params.chain}.`,
+          false
+        ));
+      } else {
+        report.pass('balance', `${vaultMode ? 'Vault' : 'Session wallet'} ${fundsAddress} holds ${available} of the ${required} needed`);
+      }
+    } catch (error) {
+      report.skip('balance', `Balance unavailable: ${describe(error)}`);
+    }
+
+    // Ethereum Sepolia has 12s blocks; the L2 testnets confirm in about 2s
+    const estimatedTimeSeconds = params.chain === 10002 ? 12 : 2;
+    result.route = {
+      success: true,
+      sourceChain: params.chain,
+      targetChain: params.chain,
+      totalAmount: amount,
+      totalFees: gasWei ?? 0n,
+      estimatedTimeSeconds,
+      steps: [{
+        action: 'transfer',
+        sourceChain: params.chain,
+        targetChain: params.chain,
+        token: transfer.tokenAddress ?? params.token,
+        amount,
+        protocol: vaultMode ? 'veridex-vault' : 'direct',
+        estimatedTimeSeconds,
+        estimatedFeeUSD: result.fees?.usd ?? 0,
+      }],
+    };
+    report.pass('route', vaultMode
+      ? `Vault transfer signed by the session key on chain ${params.chain}`
+      : `Direct transfer from the session wallet on chain ${params.chain}`);
+
+    if (gasWei !== undefined) {
+      const usd = result.fees?.usd;
+      report.pass('fees', `Estimated gas ${ethers.formatEther(gasWei)} ETH${usd !== undefined ? ` (~$${usd.toFixed(4)})` : ''}`);
+    } else {
+      report.skip('fees', feeProblem!);
+    }
+  }
+
+  /**
+   * Execute a transfer out of the master vault, authorized by the session key through the
+   * Veridex hub. The session wallet only pays gas.
+   */
+  private async executeVaultTransfer(
+    session: StoredSession,
+    signer: SessionSigner,
+    params: PaymentParams
+  ): Promise<{ transactionHash: string }> {
+    // Refuse to sign for a session revoked elsewhere (another process or a parent session)
+    await this.sessionManager.assertNotRevoked(session);
+
+    const { tokenAddress } = this.resolveTransfer(params);
+    return await this.vaultExecutor.transfer(signer, {
+      userKeyHash: this.config.masterCredential.keyHash,
+      chain: params.chain,
+      tokenAddress,
+      recipient: params.recipient,
+      amount: BigInt(params.amount),
+    });
+  }
+
+  /**
+   * Execute a direct token transfer using the session wallet.
+   * This bypasses the Veridex protocol (no passkey required) and uses the session key directly.
+   */
+  private async executeDirectTransfer(
+    session: StoredSession,
+    signer: SessionSigner,
+    params: PaymentParams
+  ): Promise<{ transactionHash: string }> {
+    // Refuse to sign for a session revoked elsewhere (another process or a parent session)
+    await this.sessionManager.assertNotRevoked(session);
+
+    const { rpcUrl, tokenAddress } = this.resolveTransfer(params);
+
     // Connect signer to provider
     const provider = new ethers.JsonRpcProvider(rpcUrl);
-    const connectedSigner = signer.connect(provider);
+    const connectedSigner = toEthersSigner(signer, provider);
+    const signerAddress = await signer.getAddress();
 
-    const tokenUpper = params.token.toUpperCase();
     const amount = BigInt(params.amount);
 
     let tx: ethers.TransactionResponse;
 
-    if (tokenUpper === 'ETH' || tokenUpper === 'NATIVE') {
+    if (!tokenAddress) {
       // Check ETH balance first
-      const ethBalance = await provider.getBalance(signer.address);
+      const ethBalance = await provider.getBalance(signerAddress);
       // #region agent log
-      fetch('http://127.0.0.1:7242/ingest/c6390672-1465-4a0d-bb12-57e7bed0bb2e', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ location: 'AgentWallet.ts:executeDirectTransfer:ethBalance', message: 'ETH balance check', data: { signerAddress: signer.address, ethBalance: ethBalance.toString(), requestedAmount: amount.toString() }, timestamp: Date.now(), sessionId: 'debug-session', hypothesisId: 'H6' }) }).catch(() => { });
+      fetch('http://127.0.0.1:7242/ingest/c6390672-1465-4a0d-bb12-57e7bed0bb2e', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ location: 'AgentWallet.ts:executeDirectTransfer:ethBalance', message: 'ETH balance check', data: { signerAddress: signerAddress, ethBalance: ethBalance.toString(), requestedAmount: amount.toString() }, timestamp: Date.now(), sessionId: 'debug-session', hypothesisId: 'H6' }) }).catch(() => { });
       // #endregion
 
       if (ethBalance < amount) {
         throw new AgentPaymentError(
           AgentPaymentErrorCode.INSUFFICIENT_BALANCE,
           `Insufficient ETH balance: have ${ethers.formatEther(ethBalance)} ETH, need ${ethers.formatEther(amount)} ETH`,
-          `Fund your wallet ${signer.address} with more ETH on chain ${params.chain}.`,
+          `Fund your wallet ${signerAddress} with more ETH on chain ${params.chain}.`,
           false
         );
       }
@@ -348,18 +1082,8 @@ export class AgentWallet {
         to: params.recipient,
         value: amount,
       });
-    } else if (tokenUpper === 'USDC') {
+    } else {
       // ERC20 transfer
-      const tokenAddress = USDC_ADDRESSES[params.chain];
-      if (!tokenAddress) {
-        throw new AgentPaymentError(
-          AgentPaymentErrorCode.TOKEN_NOT_SUPPORTED,
-          `USDC not configured for chain ${params.chain}`,
-          'Use a supported token on this chain.',
-          false
-        );
-      }
-
       const erc20Abi = [
         'function transfer(address to, uint256 amount) returns (bool)',
         'function balanceOf(address owner) view returns (uint256)',
@@ -368,28 +1092,21 @@ export class AgentWallet {
       const tokenContract = new ethers.Contract(tokenAddress, erc20Abi, connectedSigner);
 
       // Check USDC balance first
-      const usdcBalance = await tokenContract.balanceOf(signer.address);
+      const usdcBalance = await tokenContract.balanceOf(signerAddress);
       // #region agent log
-      fetch('http://127.0.0.1:7242/ingest/c6390672-1465-4a0d-bb12-57e7bed0bb2e', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ location: 'AgentWallet.ts:executeDirectTransfer:usdcBalance', message: 'USDC balance check', data: { signerAddress: signer.address, usdcContract: tokenAddress, usdcBalance: usdcBalance.toString(), requestedAmount: amount.toString(), chain: params.chain }, timestamp: Date.now(), sessionId: 'debug-session', hypothesisId: 'H6' }) }).catch(() => { });
+      fetch('http://127.0.0.1:7242/ingest/c6390672-1465-4a0d-bb12-57e7bed0bb2e', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ location: 'AgentWallet.ts:executeDirectTransfer:usdcBalance', message: 'USDC balance check', data: { signerAddress: signerAddress, usdcContract: tokenAddress, usdcBalance: usdcBalance.toString(), requestedAmount: amount.toString(), chain: params.chain }, timestamp: Date.now(), sessionId: 'debug-session', hypothesisId: 'H6' }) }).catch(() => { });
       // #endregion
 
       if (usdcBalance < amount) {
         throw new AgentPaymentError(
           AgentPaymentErrorCode.INSUFFICIENT_BALANCE,
           `Insufficient USDC balance: have ${Number(usdcBalance) / 1e6} USDC (Circle USDC at ${tokenAddress}), need ${Number(amount) / 1e6} USDC. Note: Your wallet may have a different USDC token - only Circle's official testnet USDC is supported.`,
-          `Get Circle USDC from https://faucet.circle.com for your wallet ${signer.address}.`,
+          `Get Circle USDC from https://faucet.circle.com for your wallet ${signerAddress}.`,
           false
         );
       }
 
       tx = await tokenContract.transfer(params.recipient, amount);
-    } else {
-      throw new AgentPaymentError(
-        AgentPaymentErrorCode.TOKEN_NOT_SUPPORTED,
-        `Token ${params.token} is not supported. Use 'eth', 'native', or 'usdc'.`,
-        'Use a supported token symbol.',
-        false
-      );
     }
 
     // Wait for confirmation
@@ -0,0 +1,155 @@
+/**
+ * @packageDocumentation
+ * @module VaultExecutor
+ * @description
+ * Executes session payments through the Veridex protocol instead of from the session wallet.
+ *
+ * In vault mode the session key never holds funds. It signs a Veridex hub message authorizing
+ * a transfer out of the user's vault (the address from `computeVaultAddress` for the master
+ * key hash), and the message is dispatched through the chain's {@link AgentChainClient}. The
+ * hub then enforces the session key's on-chain limits on top of the SDK's own checks.
+ *
+ * The session key authorizes a message by signing
+ * `keccak256(abi.encodePacked(uint16 targetChain, bytes actionPayload, uint256 nonce, bytes32 userKeyHash))`
+ * as an EIP-191 personal message, so any {@link SessionSigner} (including remote and
+ * child-process signers) can authorize it. The session wallet pays the dispatch gas.
+ *
+ * Only EVM chains are supported.
+ */
+import { ChainName, NetworkType } from '@veridex/sdk';
+import { ethers } from 'ethers';
+import { AgentChainClient } from './ChainClient';
+import { ChainClientFactory } from './ChainClientFactory';
+import { EVMChainClient } from './EVMChainClient';
+import { SessionSigner, toEthersSigner } from '../signers/SessionSigner';
+import { AgentPaymentError, AgentPaymentErrorCode } from '../types/errors';
+
+// Wormhole chain ID to EVM chain name
+const EVM_CHAINS: Record<number, ChainName> = {
+  2: 'ethereum',
+  5: 'polygon',
+  23: 'arbitrum',
+  24: 'optimism',
+  30: 'base',
+  // Testnets
+  10002: 'ethereum',
+  10003: 'arbitrum',
+  10004: 'base',
+  10005: 'optimism',
+};
+
+// Wormhole assigns testnet chains IDs from 10000 up
+const FIRST_TESTNET_CHAIN_ID = 10000;
+
+export interface VaultTransferParams {
+  /** Key hash of the master passkey that owns the vault */
+  userKeyHash: string;
+  /** Wormhole chain ID */
+  chain: number;
+  /** Token contract address, or undefined for the native token */
+  tokenAddress?: string;
+  recipient: string;
+  /** Amount in atomic units */
+  amount: bigint;
+}
+
+export class VaultExecutor {
+  private clients: Map<number, EVMChainClient> = new Map();
+
+  /**
+   * @param createClient - Client factory per Wormhole chain ID (defaults to {@link ChainClientFactory})
+   */
+  constructor(private createClient: (chain: number) => AgentChainClient = defaultClient) { }
+
+  /**
+   * The vault that holds the user's funds on a chain.
+   */
+  getVaultAddress(chain: number, userKeyHash: string): string {
+    return this.getClient(chain).computeVaultAddress(userKeyHash);
+  }
+
+  /**
+   * Sign a transfer out of the vault with the session key and dispatch it.
+   *
+   * @param sessionSigner - Session key signer; signs the hub message and pays gas
+   * @throws AgentPaymentError `CHAIN_NOT_SUPPORTED` for non-EVM chains, `PAYMENT_FAILED` if the dispatch fails
+   */
+  async transfer(sessionSigner: SessionSigner, params: VaultTransferParams): Promise<{ transactionHash: string }> {
+    const client = this.getClient(params.chain);
+
+    try {
+      const payload = await client.buildTransferPayload({
+        targetChain: params.chain,
+        token: params.tokenAddress ?? ethers.ZeroAddress,
+        recipient: params.recipient,
+        amount: params.amount,
+      });
+      const nonce = await client.getNonce(params.userKeyHash);
+
+      const messageHash = ethers.solidityPackedKeccak256(
+        ['uint16', 'bytes', 'uint256', 'bytes32'],
+        [params.chain, payload, nonce, params.userKeyHash]
+      );
+      const signature = await sessionSigner.signMessage(ethers.getBytes(messageHash));
+
+      // Uncompressed public key: 0x04 || x (32 bytes) || y (32 bytes)
+      const publicKey = ethers.SigningKey.recoverPublicKey(ethers.hashMessage(ethers.getBytes(messageHash)), signature);
+      const x = BigInt('0x' + publicKey.slice(4, 68));
+      const y = BigInt('0x' + publicKey.slice(68));
+
+      const provider = client.getProvider();
+      const result = await client.dispatch(
+        signature,
+        x,
+        y,
+        params.chain,
+        payload,
+        nonce,
+        toEthersSigner(sessionSigner, provider)
+      );
+      return { transactionHash: result.transactionHash ?? result.hash };
+    } catch (error) {
+      if (error instanceof AgentPaymentError) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new AgentPaymentError(
+        AgentPaymentErrorCode.PAYMENT_FAILED,
+        `Vault transfer on chain ${params.chain} failed: ${message}`,
+        'Check that the vault holds enough funds, that the session key is registered on the hub and that the session wallet has gas.',
+        true,
+        { chain: params.chain, vault: client.computeVaultAddress(params.userKeyHash) }
+      );
+    }
+  }
+
+  private getClient(chain: number): EVMChainClient {
+    let client = this.clients.get(chain);
+    if (!client) {
+      const created = this.createClient(chain);
+      if (!(created instanceof EVMChainClient)) {
+        throw new AgentPaymentError(
+          AgentPaymentErrorCode.CHAIN_NOT_SUPPORTED,
+          `Vault execution is not supported on chain ${chain}`,
+          'Use an EVM chain, or set execution.mode to "eoa".',
+          false
+        );
+      }
+      client = created;
+      this.clients.set(chain, client);
+    }
+    return client;
+  }
+}
+
+function defaultClient(chain: number): AgentChainClient {
+  const name = EVM_CHAINS[chain];
+  if (!name) {
+    throw new AgentPaymentError(
+      AgentPaymentErrorCode.CHAIN_NOT_SUPPORTED,
+      `Vault execution is not supported on chain ${chain}`,
+      `Use one of the EVM chains: ${Object.keys(EVM_CHAINS).join(', ')}.`,
+      false
+    );
+  }
+  const network: NetworkType = chain >= FIRST_TESTNET_CHAIN_ID ? 'testnet' : 'mainnet';
+  return ChainClientFactory.createClient(name, network);
+}
@@ -28,14 +28,39 @@ export * from './types/x402';
 export * from './types/ucp';
 export * from './types/mcp';
 export * from './types/errors';
+export * from './types/policy';
+export * from './types/preflight';
 
 export * from './session/SessionKeyManager';
 export * from './session/SpendingTracker';
 export * from './session/SessionStorage';
+export * from './session/SessionBundle';
+export * from './session/ChainKeys';
+export * from './session/SessionEventEmitter';
+export * from './session/OnChainSessionRegistry';
+export * from './session/SessionKeyDerivation';
+export * from './session/SessionRecovery';
+export * from './session/adapters/LocalStorageAdapter';
+export * from './session/adapters/MemoryStorageAdapter';
+export * from './session/adapters/FileStorageAdapter';
+export * from './session/adapters/SQLiteStorageAdapter';
+export * from './session/adapters/RedisStorageAdapter';
+
+// ChildProcessSessionSigner loads child_process lazily, so the main entry stays browser-safe
+export * from './signers/SessionSigner';
+export * from './signers/RemoteSessionSigner';
+export * from './signers/ChildProcessSessionSigner';
+
+export * from './policy/PolicyEngine';
+export * from './preflight/PreflightReport';
 
 export * from './x402/X402Client';
 export * from './x402/PaymentParser';
 export * from './x402/PaymentSigner';
+export * from './x402/X402Middleware';
+export * from './x402/adapters/FacilitatorAdapter';
+export * from './x402/adapters/HttpFacilitatorClient';
+export * from './x402/LocalFacilitator';
 // CronosFacilitatorAdapter is NOT exported from main entry point due to node:crypto dependency
 // Import it directly for server-side usage: import { CronosFacilitatorAdapter } from '@veridex/agentic-payments/x402/adapters/CronosFacilitatorAdapter';
 
@@ -53,6 +78,7 @@ export * from './chains/AptosChainClient';
 export * from './chains/SuiChainClient';
 export * from './chains/StarknetChainClient';
 export * from './chains/ChainClientFactory';
+export * from './chains/VaultExecutor';
 export * from './routing/BridgeOrchestrator';
 
 export * from './monitoring/AuditLogger';
@@ -70,6 +96,7 @@ export * from './performance';
 // Oracle
 export * from './oracle/PythOracle';
 export * from './oracle/PythFeeds';
+export * from './oracle/FxRates';
 
 // DEX
 export * from './routing/DEXAggregator';
@@ -43,7 +43,7 @@ export class MCPServer {
         name: 'veridex_revoke_session',
         description: 'Revoke agent wallet access',
         inputSchema: schemas.REVOKE_SESSION_SCHEMA,
-        handler: () => this.agentWallet.revokeSession(),
+        handler: (params) => this.agentWallet.revokeSession({ actor: 'mcp', reason: params.reason }),
       },
       {
         name: 'veridex_get_payment_history',
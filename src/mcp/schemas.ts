@@ -45,7 +45,8 @@ export const CHECK_BALANCE_SCHEMA = {
 export const REVOKE_SESSION_SCHEMA = {
   type: 'object',
   properties: {
-    sessionKeyHash: { type: 'string' }
+    sessionKeyHash: { type: 'string' },
+    reason: { type: 'string' }
   },
   required: ['sessionKeyHash']
 };
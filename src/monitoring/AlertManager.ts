@@ -53,11 +53,14 @@ export class AlertManager {
 
     /**
      * Check spending against thresholds and trigger alerts.
+     *
+     * @param currency - Budget currency of the spend and limit, for sessions not budgeted in USD
      */
     checkSpending(
         sessionKeyHash: string,
         dailySpentUSD: number,
-        dailyLimitUSD: number
+        dailyLimitUSD: number,
+        currency: string = 'USD'
     ) {
         const ratio = dailySpentUSD / dailyLimitUSD;
 
@@ -73,6 +76,7 @@ export class AlertManager {
                     sessionKeyHash,
                     dailySpentUSD,
                     dailyLimitUSD,
+                    currency,
                     timestamp: Date.now()
                 };
 
@@ -98,7 +102,7 @@ export class AlertManager {
     /**
      * Request approval for a high-value transaction.
      */
-    requestApproval(transactionId: string, amountUSD: number): HighValueApproval {
+    requestApproval(transactionId: string, amountUSD: number, reason?: string): HighValueApproval {
         const approval: HighValueApproval = {
             transactionId,
             amountUSD,
@@ -112,7 +116,9 @@ export class AlertManager {
         // Notify about pending approval
         const alert: SpendingAlert = {
             type: 'CRITICAL',
-            message: `High-value transaction ($${amountUSD}) requires approval within 5 minutes.`,
+            message: reason
+                ? `Transaction ($${amountUSD}) requires approval within 5 minutes: ${reason}`
+                : `High-value transaction ($${amountUSD}) requires approval within 5 minutes.`,
             sessionKeyHash: transactionId,
             dailySpentUSD: amountUSD,
             dailyLimitUSD: this.config.highValueThresholdUSD,
@@ -140,6 +146,28 @@ export class AlertManager {
         return true;
     }
 
+    /**
+     * Use up an approval for a payment of at most the approved amount.
+     * Approvals are single-use; returns false if missing, unapproved, expired or too small.
+     */
+    consumeApproval(transactionId: string, amountUSD: number): boolean {
+        if (!this.canUseApproval(transactionId, amountUSD)) {
+            return false;
+        }
+
+        this.pendingApprovals.delete(transactionId);
+        return true;
+    }
+
+    /**
+     * Whether an approval would cover a payment of `amountUSD`, without using it up.
+     */
+    canUseApproval(transactionId: string, amountUSD: number): boolean {
+        const { approved } = this.checkApproval(transactionId);
+        const approval = this.pendingApprovals.get(transactionId);
+        return approved && !!approval && amountUSD <= approval.amountUSD;
+    }
+
     /**
      * Check if a transaction has been approved.
      */
@@ -10,7 +10,7 @@
  * 
  * Records:
  * - Timestamp
- * - Amount (USD and Native)
+ * - Amount (USD, Native and, for non-USD session budgets, the budget currency)
  * - Chain ID
  * - Recipient
  * - Session ID
@@ -24,10 +24,14 @@ export class ComplianceExporter {
             'id',
             'timestamp',
             'protocol',
+            'kind',
             'status',
             'chain',
             'token',
             'amount',
+            'amountUSD',
+            'budgetAmount',
+            'budgetCurrency',
             'recipient',
             'sessionKeyHash'
         ];
@@ -36,10 +40,14 @@ export class ComplianceExporter {
             r.id,
             new Date(r.timestamp).toISOString(),
             r.protocol || 'direct',
+            r.kind || 'payment',
             r.status,
             r.chain,
             r.token,
             r.amount.toString(),
+            r.amountUSD ?? '',
+            r.budgetAmount ?? '',
+            r.budgetCurrency || '',
             r.recipient,
             r.sessionKeyHash || ''
         ].map(val => {
@@ -0,0 +1,155 @@
+/**
+ * @packageDocumentation
+ * @module FxRates
+ * @description
+ * Exchange rates for session budgets denominated in a currency other than USD.
+ *
+ * Payments are valued in USD; a session with `currency: 'EUR'` has its limits checked in EUR,
+ * so every USD amount is converted with the rate from an {@link FxRateProvider}:
+ * - {@link PythFxRateProvider}: Pyth FX feeds via {@link PythOracle} (the default).
+ * - {@link StaticFxRateProvider}: fixed rates, e.g. a treasury rate set once a day.
+ * - Any custom provider implementing `getUSDPrice()`.
+ *
+ * {@link CurrencyConverter} caches the last rate per currency, so synchronous limit checks
+ * can convert without a network round trip.
+ *
+ * @example
+ * ```typescript
+ * const manager = new SessionKeyManager({ fxRates: new StaticFxRateProvider({ EUR: 1.08 }) });
+ * const session = await manager.createSession(masterKey, { currency: 'EUR', dailyLimitUSD: 100, ... });
+ * ```
+ */
+import { PythOracle } from './PythOracle';
+import { PYTH_FX_FEEDS } from './PythFeeds';
+import { AgentPaymentError, AgentPaymentErrorCode } from '../types/errors';
+
+/** Currency payments are valued in, and the default session budget currency */
+export const BASE_CURRENCY = 'USD';
+
+const DEFAULT_MAX_AGE_MS = 60000;
+
+/**
+ * Source of exchange rates against USD.
+ */
+export interface FxRateProvider {
+    /**
+     * USD value of one unit of `currency` (ISO 4217 code, upper case), e.g. `1.08` for EUR.
+     *
+     * @throws AgentPaymentError `FX_RATE_UNAVAILABLE` if the rate cannot be determined
+     */
+    getUSDPrice(currency: string): Promise<number>;
+}
+
+/**
+ * Rates from Pyth FX feeds. Currencies without a built-in feed can be added with `feeds`.
+ */
+export class PythFxRateProvider implements FxRateProvider {
+    private feeds: Record<string, { id: string; inverse?: boolean }>;
+
+    constructor(feeds: Record<string, { id: string; inverse?: boolean }> = {}) {
+        this.feeds = { ...PYTH_FX_FEEDS, ...feeds };
+    }
+
+    async getUSDPrice(currency: string): Promise<number> {
+        const feed = this.feeds[currency];
+        if (!feed) {
+            throw rateUnavailable(currency, 'no Pyth FX feed is configured', false);
+        }
+
+        // PythOracle reports a failed fetch as 0
+        const price = await PythOracle.getInstance().getPrice(feed.id);
+        if (!(price > 0)) {
+            throw rateUnavailable(currency, 'the Pyth price fetch failed', true);
+        }
+        return feed.inverse ? 1 / price : price;
+    }
+}
+
+/**
+ * Fixed rates, as USD value of one unit of each currency.
+ */
+export class StaticFxRateProvider implements FxRateProvider {
+    constructor(private rates: Record<string, number>) { }
+
+    async getUSDPrice(currency: string): Promise<number> {
+        const rate = this.rates[currency];
+        if (!(rate > 0)) {
+            throw rateUnavailable(currency, 'no rate is configured', false);
+        }
+        return rate;
+    }
+}
+
+interface RateCacheEntry {
+    usdPrice: number;
+    timestamp: number;
+}
+
+/**
+ * Converts USD amounts into budget currencies, caching the rate of each currency.
+ */
+export class CurrencyConverter {
+    private cache: Map<string, RateCacheEntry> = new Map();
+
+    /**
+     * @param provider - Rate source (default: Pyth FX feeds)
+     * @param maxAgeMs - How long a fetched rate is reused by {@link fromUSD} (default: 60s)
+     */
+    constructor(
+        private provider: FxRateProvider = new PythFxRateProvider(),
+        private maxAgeMs: number = DEFAULT_MAX_AGE_MS
+    ) { }
+
+    /**
+     * Convert a USD amount into `currency`, fetching the rate if the cached one is too old.
+     *
+     * @throws AgentPaymentError `FX_RATE_UNAVAILABLE` if the provider has no rate
+     */
+    async fromUSD(amountUSD: number, currency: string): Promise<number> {
+        const code = normalizeCurrency(currency);
+        if (code === BASE_CURRENCY) return amountUSD;
+
+        const cached = this.cache.get(code);
+        if (cached && Date.now() - cached.timestamp < this.maxAgeMs) {
+            return amountUSD / cached.usdPrice;
+        }
+
+        const usdPrice = await this.provider.getUSDPrice(code);
+        if (!(usdPrice > 0)) {
+            throw rateUnavailable(code, `the rate provider returned ${usdPrice}`, true);
+        }
+        this.cache.set(code, { usdPrice, timestamp: Date.now() });
+        return amountUSD / usdPrice;
+    }
+
+    /**
+     * Convert with the last fetched rate, however old, without calling the provider.
+     *
+     * @returns The converted amount, or `undefined` if no rate was fetched yet
+     */
+    fromUSDCached(amountUSD: number, currency: string): number | undefined {
+        const code = normalizeCurrency(currency);
+        if (code === BASE_CURRENCY) return amountUSD;
+        const cached = this.cache.get(code);
+        return cached ? amountUSD / cached.usdPrice : undefined;
+    }
+}
+
+/**
+ * Upper-case ISO 4217 code, defaulting to USD.
+ */
+export function normalizeCurrency(currency: string | undefined): string {
+    return (currency ?? BASE_CURRENCY).trim().toUpperCase();
+}
+
+function rateUnavailable(currency: string, detail: string, retryable: boolean): AgentPaymentError {
+    return new AgentPaymentError(
+        AgentPaymentErrorCode.FX_RATE_UNAVAILABLE,
+        `No ${currency}/USD exchange rate: ${detail}`,
+        retryable
+            ? 'Retry shortly, or configure a different fxRates provider.'
+            : `Add a ${currency} rate to the fxRates provider, or budget the session in USD.`,
+        retryable,
+        { currency }
+    );
+}
@@ -9,6 +9,7 @@
  * Contains mappings for:
  * - Specific Asset IDs (ETH, SOL, BTC).
  * - Chain Native Gas Tokens (for gas estimation).
+ * - FX Rates (for session budgets in currencies other than USD).
  */
 export const PYTH_FEED_IDS = {
     // Crypto
@@ -29,6 +30,17 @@ export const PYTH_FEED_IDS = {
     DAI: '0xb0948a5e5313200c632b51bb5ca32f6de0d36e9950a942d19751e833f70dabfd',
 };
 
+/**
+ * Pyth FX feeds by ISO 4217 currency code. `inverse` feeds quote USD in the currency
+ * (USD/JPY) instead of the currency in USD (EUR/USD).
+ */
+export const PYTH_FX_FEEDS: Record<string, { id: string; inverse?: boolean }> = {
+    EUR: { id: '0xa995d00bb36a63cef7fd2c287dc105fc8f3d93779f062f09551b0af3e81ec30b' },
+    GBP: { id: '0x84c2dde9633d93d1bcad84e7dc41c9d56578b7ec52fabedc1f335d673df0a7c1' },
+    JPY: { id: '0xef2c98c804ba503c6a707e38be4dfbb16683775f195b091252bf24693042fd52', inverse: true },
+    CHF: { id: '0x0b1e3297e69f162877b577b0d6a47a0d63b2392bc8499e6540da4187a63e28f8', inverse: true },
+};
+
 /**
  * Map ChainName to Native Token Feed ID
  */
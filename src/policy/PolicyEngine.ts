@@ -0,0 +1,279 @@
+/**
+ * @packageDocumentation
+ * @module PolicyEngine
+ * @description
+ * Evaluates declarative spending policies against a payment.
+ *
+ * Every rule in the policy is evaluated (no short-circuiting) so the returned trace
+ * shows exactly which rules matched and which conditions did or did not hold. The trace
+ * is attached to limit check results, errors and receipts, for audit logs and for
+ * relaying the reason for a decision back to the LLM.
+ *
+ * Precedence: `deny` > `require_approval` > `allow` > the policy's `defaultAction`.
+ *
+ * @example
+ * ```typescript
+ * const policy: SpendingPolicy = {
+ *   rules: [
+ *     { id: 'known-apis', action: 'allow', when: { origins: ['https://*.trusted.dev'] } },
+ *     { id: 'big-payments', action: 'require_approval', when: { amountUSD: { gt: 50 } } },
+ *     { id: 'night', action: 'deny', when: { timeOfDay: { start: '22:00', end: '06:00' } } },
+ *   ],
+ * };
+ * ```
+ */
+import type { PaymentContext } from '../session/SpendingTracker';
+import type { SpendEntry } from '../session/SessionStorage';
+import {
+  SpendingPolicy,
+  PolicyAction,
+  PolicyConditions,
+  PolicyConditionResult,
+  PolicyDecision,
+  PolicyTraceEntry,
+} from '../types/policy';
+
+export interface PolicyEvaluationInput {
+  /** Payment amount in the session's budget currency */
+  amountUSD: number;
+  context: PaymentContext;
+  /** Recorded payments and pending reservations, used by velocity conditions */
+  history?: SpendEntry[];
+  /** Evaluation time (defaults to now) */
+  now?: number;
+}
+
+const ACTION_PRECEDENCE: Record<PolicyAction, number> = {
+  allow: 0,
+  require_approval: 1,
+  deny: 2,
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export class PolicyEngine {
+  /**
+   * Evaluate a payment against every rule of a policy.
+   */
+  evaluate(policy: SpendingPolicy, input: PolicyEvaluationInput): PolicyDecision {
+    const now = input.now ?? Date.now();
+    const trace: PolicyTraceEntry[] = policy.rules.map((rule) => {
+      const conditions = this.evaluateConditions(rule.when ?? {}, input, now);
+      return {
+        ruleId: rule.id,
+        action: rule.action,
+        matched: conditions.every((c) => c.matched),
+        conditions,
+      };
+    });
+
+    const matched = trace.filter((t) => t.matched);
+    if (matched.length === 0) {
+      const action = policy.defaultAction ?? 'allow';
+      return {
+        action,
+        matchedRules: [],
+        trace,
+        explanation: `No policy rule matched; default action is ${action}`,
+      };
+    }
+
+    const deciding = matched.reduce((best, t) =>
+      ACTION_PRECEDENCE[t.action] > ACTION_PRECEDENCE[best.action] ? t : best
+    );
+    const details = deciding.conditions.map((c) => c.detail).join('; ');
+
+    return {
+      action: deciding.action,
+      matchedRules: matched.map((t) => t.ruleId),
+      decidingRule: deciding.ruleId,
+      trace,
+      explanation: `${describeAction(deciding.action)} by rule '${deciding.ruleId}'${details ? ` (${details})` : ''}`,
+    };
+  }
+
+  /**
+   * Check a policy for structural errors.
+   *
+   * @returns Human-readable problems; empty if the policy is valid
+   */
+  validate(policy: SpendingPolicy): string[] {
+    const errors: string[] = [];
+    if (!policy || !Array.isArray(policy.rules)) {
+      return ['Policy must have a rules array'];
+    }
+    if (policy.defaultAction && !['allow', 'deny'].includes(policy.defaultAction)) {
+      errors.push(`Unknown default action: ${policy.defaultAction}`);
+    }
+
+    const ids = new Set<string>();
+    for (const rule of policy.rules) {
+      if (!rule.id) {
+        errors.push('Every policy rule needs an id');
+      } else if (ids.has(rule.id)) {
+        errors.push(`Duplicate policy rule id: ${rule.id}`);
+      }
+      ids.add(rule.id);
+
+      if (!(rule.action in ACTION_PRECEDENCE)) {
+        errors.push(`Rule ${rule.id}: unknown action ${rule.action}`);
+      }
+
+      const when = rule.when ?? {};
+      if (when.timeOfDay && (!TIME_PATTERN.test(when.timeOfDay.start) || !TIME_PATTERN.test(when.timeOfDay.end))) {
+        errors.push(`Rule ${rule.id}: timeOfDay must use HH:MM (UTC)`);
+      }
+      if (when.daysOfWeek?.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+        errors.push(`Rule ${rule.id}: daysOfWeek must be integers from 0 (Sunday) to 6`);
+      }
+      if (when.velocity) {
+        const { windowMs, maxCount, maxAmountUSD } = when.velocity;
+        if (!(windowMs > 0)) {
+          errors.push(`Rule ${rule.id}: velocity.windowMs must be greater than 0`);
+        }
+        if (maxCount === undefined && maxAmountUSD === undefined) {
+          errors.push(`Rule ${rule.id}: velocity needs maxCount or maxAmountUSD`);
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  private evaluateConditions(when: PolicyConditions, input: PolicyEvaluationInput, now: number): PolicyConditionResult[] {
+    const { amountUSD, context } = input;
+    const results: PolicyConditionResult[] = [];
+
+    if (when.amountUSD) {
+      const { gt, gte, lt, lte } = when.amountUSD;
+      const bounds: string[] = [];
+      let ok = true;
+      if (gt !== undefined) { ok = ok && amountUSD > gt; bounds.push(`> $${gt}`); }
+      if (gte !== undefined) { ok = ok && amountUSD >= gte; bounds.push(`>= $${gte}`); }
+      if (lt !== undefined) { ok = ok && amountUSD < lt; bounds.push(`< $${lt}`); }
+      if (lte !== undefined) { ok = ok && amountUSD <= lte; bounds.push(`<= $${lte}`); }
+      results.push({
+        condition: 'amountUSD',
+        matched: ok,
+        detail: `amount $${amountUSD} ${ok ? 'is' : 'is not'} ${bounds.join(' and ')}`,
+      });
+    }
+
+    if (when.recipients) {
+      results.push(matchPatterns('recipients', 'recipient', context.recipient, when.recipients));
+    }
+    if (when.merchants) {
+      results.push(matchPatterns('merchants', 'merchant', context.businessId, when.merchants));
+    }
+    if (when.origins) {
+      results.push(matchPatterns('origins', 'origin', context.origin, when.origins));
+    }
+
+    if (when.tokens) {
+      const candidates = [context.token, context.tokenSymbol].filter((t): t is string => !!t);
+      const list = when.tokens.map((t) => t.toLowerCase());
+      const ok = candidates.some((t) => list.includes(t.toLowerCase()));
+      results.push({
+        condition: 'tokens',
+        matched: ok,
+        detail: candidates.length === 0
+          ? 'token unknown'
+          : `token ${context.tokenSymbol || context.token} ${ok ? 'is' : 'is not'} in [${when.tokens.join(', ')}]`,
+      });
+    }
+
+    if (when.chains) {
+      const ok = context.chain !== undefined && when.chains.includes(context.chain);
+      results.push({
+        condition: 'chains',
+        matched: ok,
+        detail: context.chain === undefined
+          ? 'chain unknown'
+          : `chain ${context.chain} ${ok ? 'is' : 'is not'} in [${when.chains.join(', ')}]`,
+      });
+    }
+
+    if (when.timeOfDay) {
+      const date = new Date(now);
+      const minutes = date.getUTCHours() * 60 + date.getUTCMinutes();
+      const start = toMinutes(when.timeOfDay.start);
+      const end = toMinutes(when.timeOfDay.end);
+      const ok = start <= end
+        ? minutes >= start && minutes < end
+        : minutes >= start || minutes < end;
+      const time = date.toISOString().slice(11, 16);
+      results.push({
+        condition: 'timeOfDay',
+        matched: ok,
+        detail: `${time} UTC ${ok ? 'is' : 'is not'} within ${when.timeOfDay.start}-${when.timeOfDay.end}`,
+      });
+    }
+
+    if (when.daysOfWeek) {
+      const day = new Date(now).getUTCDay();
+      const ok = when.daysOfWeek.includes(day);
+      results.push({
+        condition: 'daysOfWeek',
+        matched: ok,
+        detail: `UTC day ${day} ${ok ? 'is' : 'is not'} in [${when.daysOfWeek.join(', ')}]`,
+      });
+    }
+
+    if (when.velocity) {
+      const { windowMs, maxCount, maxAmountUSD } = when.velocity;
+      const recent = (input.history ?? []).filter((e) => e.timestamp > now - windowMs);
+      const count = recent.filter((e) => !e.adjustment).length + 1;
+      const total = recent.reduce((sum, e) => sum + (e.amount ?? e.amountUSD), 0) + amountUSD;
+      const exceeded: string[] = [];
+      if (maxCount !== undefined && count > maxCount) exceeded.push(`${count} payments > ${maxCount}`);
+      if (maxAmountUSD !== undefined && total > maxAmountUSD) exceeded.push(`$${total} > $${maxAmountUSD}`);
+      results.push({
+        condition: 'velocity',
+        matched: exceeded.length > 0,
+        detail: exceeded.length > 0
+          ? `velocity exceeded in ${windowMs}ms window (${exceeded.join(', ')})`
+          : `velocity within limits in ${windowMs}ms window (${count} payments, $${total})`,
+      });
+    }
+
+    return results;
+  }
+}
+
+function matchPatterns(
+  condition: 'recipients' | 'merchants' | 'origins',
+  label: string,
+  value: string | undefined,
+  patterns: string[]
+): PolicyConditionResult {
+  if (value === undefined) {
+    return { condition, matched: false, detail: `${label} unknown` };
+  }
+  const hit = patterns.find((p) => globToRegExp(p).test(value));
+  return {
+    condition,
+    matched: hit !== undefined,
+    detail: hit !== undefined ? `${label} ${value} matches ${hit}` : `${label} ${value} matches none of [${patterns.join(', ')}]`,
+  };
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.trim().replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function describeAction(action: PolicyAction): string {
+  switch (action) {
+    case 'allow':
+      return 'Allowed';
+    case 'deny':
+      return 'Denied';
+    case 'require_approval':
+      return 'Human approval required';
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * @packageDocumentation
+ * @module PreflightReport
+ * @description
+ * Collects the checks of a payment dry run and turns them into a verdict.
+ *
+ * Payment paths record each step of their decision pipeline as `pass`, `fail` or `skip`.
+ * The first failure becomes the reported {@link PreflightError}, which carries the same code,
+ * message and remediation the real payment would throw.
+ */
+import type { LimitCheckResult } from '../session/SpendingTracker';
+import type { PreflightCheck, PreflightCheckName, PreflightError } from '../types/preflight';
+import { AgentPaymentError, AgentPaymentErrorCode } from '../types/errors';
+
+const LIMIT_STAGES = ['session', 'counterparty', 'limits', 'policy'] as const;
+
+type LimitStage = typeof LIMIT_STAGES[number];
+
+const SESSION_CODES = [
+  AgentPaymentErrorCode.SESSION_EXPIRED,
+  AgentPaymentErrorCode.SESSION_REVOKED,
+  AgentPaymentErrorCode.SESSION_INVALID,
+];
+
+const COUNTERPARTY_CODES = [
+  AgentPaymentErrorCode.RECIPIENT_NOT_ALLOWED,
+  AgentPaymentErrorCode.MERCHANT_NOT_ALLOWED,
+  AgentPaymentErrorCode.ORIGIN_NOT_ALLOWED,
+];
+
+const POLICY_CODES = [AgentPaymentErrorCode.POLICY_DENIED, AgentPaymentErrorCode.APPROVAL_REQUIRED];
+
+export class PreflightReport {
+  readonly checks: PreflightCheck[] = [];
+  private failures: AgentPaymentError[] = [];
+
+  pass(name: PreflightCheckName, detail: string): void {
+    this.checks.push({ name, status: 'pass', detail });
+  }
+
+  skip(name: PreflightCheckName, detail: string): void {
+    this.checks.push({ name, status: 'skip', detail });
+  }
+
+  fail(name: PreflightCheckName, error: AgentPaymentError): void {
+    this.checks.push({ name, status: 'fail', detail: error.message });
+    this.failures.push(error);
+  }
+
+  /**
+   * Record a session limit check as `session`, `counterparty`, `limits` and `policy` checks.
+   * The session manager stops at the first failing check, so the ones after it are skipped.
+   */
+  recordLimits(result: LimitCheckResult, errorContext: Record<string, any> = {}): void {
+    const failedStage = result.allowed ? undefined : stageOf(result.code);
+    const failedAt = failedStage ? LIMIT_STAGES.indexOf(failedStage) : LIMIT_STAGES.length;
+
+    LIMIT_STAGES.forEach((stage, index) => {
+      if (index > failedAt) {
+        this.skip(stage, `Not checked: ${failedStage} check failed`);
+      } else if (index === failedAt) {
+        this.fail(stage, AgentPaymentError.fromLimitCheck(result, errorContext));
+      } else if (stage === 'session') {
+        this.pass(stage, 'Session is active');
+      } else if (stage === 'counterparty') {
+        this.pass(stage, 'Recipient and origin are allowed');
+      } else if (stage === 'limits') {
+        this.pass(stage, `Within session limits ($${round(result.remainingDailyLimitUSD)} of the daily limit left)`);
+      } else if (result.policy) {
+        this.pass(stage, result.policy.explanation);
+      } else {
+        this.skip(stage, 'Session has no spending policy');
+      }
+    });
+  }
+
+  /** No check failed. */
+  get ok(): boolean {
+    return this.failures.length === 0;
+  }
+
+  /** The only failure is a policy rule requiring human approval. */
+  get requiresApproval(): boolean {
+    return this.failures.length === 1 && this.failures[0].code === AgentPaymentErrorCode.APPROVAL_REQUIRED;
+  }
+
+  /** The first failure, as the real payment would report it. */
+  get error(): PreflightError | undefined {
+    const first = this.failures[0];
+    if (!first) return undefined;
+    return {
+      code: first.code,
+      message: first.message,
+      remediation: first.remediation,
+      retryable: first.retryable,
+      context: first.context,
+    };
+  }
+}
+
+function stageOf(code: AgentPaymentErrorCode | undefined): LimitStage {
+  if (code === undefined) return 'limits';
+  if (SESSION_CODES.includes(code)) return 'session';
+  if (COUNTERPARTY_CODES.includes(code)) return 'counterparty';
+  if (POLICY_CODES.includes(code)) return 'policy';
+  return 'limits';
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -16,10 +16,21 @@
 import { useState, useEffect, useCallback, createContext, useContext } from 'react';
 import { AgentWallet } from '../AgentWallet';
 import { AgentWalletConfig, SessionStatus, PaymentReceipt, SpendingAlert, HistoryOptions } from '../types/agent';
+import type { SessionEventName } from '../session/SessionEventEmitter';
 
 // Re-export HistoryOptions with different name to avoid conflict
 export type { HistoryOptions as HookHistoryOptions } from '../types/agent';
 
+// Session events that change what getSessionStatus() returns
+const SESSION_STATUS_EVENTS: SessionEventName[] = [
+  'session:created',
+  'session:imported',
+  'session:limit-threshold',
+  'session:expired',
+  'session:revoked',
+  'session:rotated',
+];
+
 // Context for sharing wallet instance
 const AgentWalletContext = createContext<AgentWallet | null>(null);
 
@@ -80,27 +91,35 @@ export function useAgentWallet(config?: AgentWalletConfig) {
 
 /**
  * Hook to get and refresh session status.
+ * Refreshes on every session lifecycle event (expiry, revocation, rotation, spending
+ * thresholds), and every 30s so the remaining limit stays current between events.
  */
 export function useSessionStatus(wallet: AgentWallet | null) {
   const [status, setStatus] = useState<SessionStatus | null>(null);
   const [isExpired, setIsExpired] = useState(false);
 
   const refreshStatus = useCallback(() => {
-    if (wallet) {
-      const newStatus = wallet.getSessionStatus();
-      setStatus(newStatus);
-      setIsExpired(newStatus ? newStatus.expiry < Date.now() : false);
-    } else {
-      setStatus(null);
-      setIsExpired(false);
+    let newStatus: SessionStatus | null = null;
+    try {
+      newStatus = wallet ? wallet.getSessionStatus() : null;
+    } catch {
+      // No active session, e.g. right after revocation
     }
+    setStatus(newStatus);
+    setIsExpired(newStatus ? newStatus.expiry < Date.now() : false);
   }, [wallet]);
 
   useEffect(() => {
     refreshStatus();
+    const unsubscribe = wallet
+      ? SESSION_STATUS_EVENTS.map((event) => wallet.onSessionEvent(event, refreshStatus))
+      : [];
     const interval = setInterval(refreshStatus, 30000); // Refresh every 30s
-    return () => clearInterval(interval);
-  }, [refreshStatus]);
+    return () => {
+      unsubscribe.forEach((off) => off());
+      clearInterval(interval);
+    };
+  }, [wallet, refreshStatus]);
 
   return { status, isExpired, refreshStatus };
 }
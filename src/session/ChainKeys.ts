@@ -0,0 +1,159 @@
+/**
+ * @packageDocumentation
+ * @module ChainKeys
+ * @description
+ * Native session keys for non-EVM chain families.
+ *
+ * Every session has a secp256k1 key for EVM chains. Sessions can additionally hold one key
+ * per non-EVM family so they can sign natively there:
+ * - **Solana, Aptos, Sui**: ed25519
+ * - **Starknet**: Stark curve
+ *
+ * The chain SDKs are loaded on demand, so agents that only use EVM chains do not pay for them.
+ * Private keys never leave this module unencrypted except through {@link restoreChainSigner}.
+ */
+import type { Keypair } from '@solana/web3.js';
+import type { Ed25519Account } from '@aptos-labs/ts-sdk';
+import type { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+
+export type ChainFamily = 'evm' | 'solana' | 'aptos' | 'sui' | 'starknet';
+
+/** Chain families that use a key other than the session's secp256k1 key. */
+export type NativeKeyFamily = Exclude<ChainFamily, 'evm'>;
+
+export const NATIVE_KEY_FAMILIES: NativeKeyFamily[] = ['solana', 'aptos', 'sui', 'starknet'];
+
+/**
+ * A session's key for one chain family, stored alongside the EVM key.
+ */
+export interface ChainKey {
+  curve: 'ed25519' | 'stark';
+  /** Hex public key (Stark public key for Starknet) */
+  publicKey: string;
+  /**
+   * Native account address. Unset for Starknet unless an account class hash was configured,
+   * since Starknet addresses depend on the account contract.
+   */
+  address?: string;
+  /** Private key encrypted with the same master-derived key as the EVM key */
+  encryptedPrivateKey: string;
+}
+
+export interface StarknetSessionSigner {
+  privateKey: string;
+  publicKey: string;
+  address?: string;
+}
+
+/** Native signer type returned for each family by {@link restoreChainSigner}. */
+export interface ChainSignerMap {
+  solana: Keypair;
+  aptos: Ed25519Account;
+  sui: Ed25519Keypair;
+  starknet: StarknetSessionSigner;
+}
+
+export interface ChainKeyOptions {
+  /**
+   * Account class hash used to compute counterfactual Starknet addresses
+   * (constructor calldata `[publicKey]`, salt = public key, deployer 0).
+   */
+  starknetAccountClassHash?: string;
+}
+
+/**
+ * Generate a fresh key for a chain family.
+ *
+ * @returns The public half and the raw private key, which the caller must encrypt
+ */
+export async function generateChainKey(
+  family: NativeKeyFamily,
+  options: ChainKeyOptions = {}
+): Promise<{ key: Omit<ChainKey, 'encryptedPrivateKey'>; privateKey: Uint8Array }> {
+  if (family === 'starknet') {
+    const { ec } = await import('starknet');
+    const privateKey = ec.starkCurve.utils.randomPrivateKey();
+    const signer = await starknetSigner(privateKey, options);
+    return {
+      key: { curve: 'stark', publicKey: signer.publicKey, address: signer.address },
+      privateKey,
+    };
+  }
+
+  const seed = crypto.getRandomValues(new Uint8Array(32));
+  return { key: await describeEd25519Key(family, seed), privateKey: seed };
+}
+
+/**
+ * Rebuild the native signer for a family from its decrypted private key.
+ */
+export async function restoreChainSigner<F extends NativeKeyFamily>(
+  family: F,
+  privateKey: Uint8Array,
+  options: ChainKeyOptions = {}
+): Promise<ChainSignerMap[F]> {
+  switch (family) {
+    case 'solana': {
+      const { Keypair } = await import('@solana/web3.js');
+      return Keypair.fromSeed(privateKey) as ChainSignerMap[F];
+    }
+    case 'aptos': {
+      const { Account, Ed25519PrivateKey } = await import('@aptos-labs/ts-sdk');
+      return Account.fromPrivateKey({ privateKey: new Ed25519PrivateKey(privateKey) }) as ChainSignerMap[F];
+    }
+    case 'sui': {
+      const { Ed25519Keypair } = await import('@mysten/sui/keypairs/ed25519');
+      return Ed25519Keypair.fromSecretKey(privateKey) as ChainSignerMap[F];
+    }
+    case 'starknet':
+      return await starknetSigner(privateKey, options) as ChainSignerMap[F];
+    default:
+      throw new Error(`Unsupported chain family: ${family}`);
+  }
+}
+
+async function describeEd25519Key(
+  family: Exclude<NativeKeyFamily, 'starknet'>,
+  seed: Uint8Array
+): Promise<Omit<ChainKey, 'encryptedPrivateKey'>> {
+  switch (family) {
+    case 'solana': {
+      const keypair = await restoreChainSigner('solana', seed);
+      return {
+        curve: 'ed25519',
+        publicKey: toHex(keypair.publicKey.toBytes()),
+        address: keypair.publicKey.toBase58(),
+      };
+    }
+    case 'aptos': {
+      const account = await restoreChainSigner('aptos', seed);
+      return {
+        curve: 'ed25519',
+        publicKey: account.publicKey.toString(),
+        address: account.accountAddress.toString(),
+      };
+    }
+    case 'sui': {
+      const keypair = await restoreChainSigner('sui', seed);
+      return {
+        curve: 'ed25519',
+        publicKey: toHex(keypair.getPublicKey().toRawBytes()),
+        address: keypair.toSuiAddress(),
+      };
+    }
+  }
+}
+
+async function starknetSigner(privateKey: Uint8Array, options: ChainKeyOptions): Promise<StarknetSessionSigner> {
+  const { ec, hash } = await import('starknet');
+  const privateKeyHex = toHex(privateKey);
+  const publicKey = ec.starkCurve.getStarkKey(privateKeyHex);
+  const address = options.starknetAccountClassHash
+    ? hash.calculateContractAddressFromHash(publicKey, options.starknetAccountClassHash, [publicKey], 0)
+    : undefined;
+  return { privateKey: privateKeyHex, publicKey, address };
+}
+
+function toHex(bytes: Uint8Array): string {
+  return '0x' + Buffer.from(bytes).toString('hex');
+}
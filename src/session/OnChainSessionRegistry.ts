@@ -0,0 +1,264 @@
+/**
+ * @packageDocumentation
+ * @module OnChainSessionRegistry
+ * @description
+ * Registers session keys with the Veridex hub contract so their limits are enforced on-chain.
+ *
+ * `SpendingTracker` only enforces limits inside the SDK. Once a session key is registered,
+ * the hub also rejects vault transfers it signs that exceed its daily or per-transaction
+ * limit, fall outside its allowed chains, or arrive after its expiry or revocation.
+ *
+ * Registration and revocation are authorized by the master passkey: the registry hashes the
+ * call and hands the hash to a {@link MasterKeyAuthorizer}, whose signature the hub verifies
+ * against the vault owner's key hash. A separate `runner` (any funded account or relayer
+ * signer) submits the transaction and pays gas.
+ *
+ * USD amounts are stored on-chain as integers with 6 decimals.
+ *
+ * @example
+ * ```typescript
+ * const registry = new OnChainSessionRegistry({
+ *   hubAddress: '0x...',
+ *   runner: new ethers.Wallet(relayerKey, provider),
+ *   authorize: (hash) => signWithPasskey(hash),
+ * });
+ * const manager = new SessionKeyManager({ registry });
+ * ```
+ */
+import { ethers } from 'ethers';
+import type { StoredSession } from './SessionStorage';
+import { AgentPaymentError, AgentPaymentErrorCode } from '../types/errors';
+import { BASE_CURRENCY, normalizeCurrency } from '../oracle/FxRates';
+
+export const SESSION_REGISTRY_ABI = [
+  'function registerSession(bytes32 userKeyHash, bytes32 sessionKeyHash, address sessionAddress, uint256 dailyLimit, uint256 perTransactionLimit, uint64 expiry, uint16[] allowedChains, bytes authorization)',
+  'function revokeSession(bytes32 userKeyHash, bytes32 sessionKeyHash, bytes authorization)',
+  'function getSession(bytes32 sessionKeyHash) view returns (bytes32 userKeyHash, address sessionAddress, uint256 dailyLimit, uint256 perTransactionLimit, uint64 expiry, uint16[] allowedChains, uint256 dailySpent, uint256 totalSpent, bool revoked)',
+  'event SessionRegistered(bytes32 indexed userKeyHash, bytes32 indexed sessionKeyHash, address sessionAddress, uint64 expiry)',
+  'event SessionRevoked(bytes32 indexed userKeyHash, bytes32 indexed sessionKeyHash)',
+];
+
+const USD_DECIMALS = 6;
+
+/**
+ * Signs a registry call hash with the master passkey and returns the encoded signature.
+ */
+export type MasterKeyAuthorizer = (messageHash: string) => Promise<string>;
+
+/**
+ * The hub methods the registry calls. Satisfied by an `ethers.Contract` with {@link SESSION_REGISTRY_ABI}.
+ */
+export interface SessionRegistryContract {
+  registerSession(
+    userKeyHash: string,
+    sessionKeyHash: string,
+    sessionAddress: string,
+    dailyLimit: bigint,
+    perTransactionLimit: bigint,
+    expiry: bigint,
+    allowedChains: number[],
+    authorization: string
+  ): Promise<{ hash: string; wait(): Promise<unknown> }>;
+  revokeSession(
+    userKeyHash: string,
+    sessionKeyHash: string,
+    authorization: string
+  ): Promise<{ hash: string; wait(): Promise<unknown> }>;
+  getSession(sessionKeyHash: string): Promise<{
+    userKeyHash: string;
+    sessionAddress: string;
+    dailyLimit: bigint;
+    perTransactionLimit: bigint;
+    expiry: bigint;
+    allowedChains: bigint[];
+    dailySpent: bigint;
+    totalSpent: bigint;
+    revoked: boolean;
+  }>;
+}
+
+export interface OnChainSessionRegistryConfig {
+  /** Hub contract address */
+  hubAddress: string;
+  /** Submits transactions and pays gas */
+  runner?: ethers.ContractRunner;
+  /** Signs registration and revocation with the master passkey */
+  authorize: MasterKeyAuthorizer;
+  /** Chain ID bound into every authorization (default: read from the runner's provider) */
+  chainId?: bigint;
+  /** Hub contract to call instead of connecting `runner` to `hubAddress` */
+  contract?: SessionRegistryContract;
+}
+
+/**
+ * Where and when a session was registered, stored on the session.
+ */
+export interface OnChainRegistration {
+  hubAddress: string;
+  chainId: string;
+  txHash: string;
+  registeredAt: number;
+}
+
+/**
+ * A session as the hub sees it.
+ */
+export interface OnChainSessionRecord {
+  userKeyHash: string;
+  sessionAddress: string;
+  dailyLimitUSD: number;
+  perTransactionLimitUSD: number;
+  expiryTimestamp: number;
+  allowedChains: number[];
+  dailySpentUSD: number;
+  totalSpentUSD: number;
+  revoked: boolean;
+}
+
+export class OnChainSessionRegistry {
+  readonly hubAddress: string;
+  private contract: SessionRegistryContract;
+  private authorize: MasterKeyAuthorizer;
+  private runner?: ethers.ContractRunner;
+  private chainId?: bigint;
+
+  constructor(config: OnChainSessionRegistryConfig) {
+    if (!config.contract && !config.runner) {
+      throw new Error('OnChainSessionRegistry needs a runner or a contract');
+    }
+    this.hubAddress = config.hubAddress;
+    this.authorize = config.authorize;
+    this.runner = config.runner;
+    this.chainId = config.chainId;
+    this.contract = config.contract
+      ?? (new ethers.Contract(config.hubAddress, SESSION_REGISTRY_ABI, config.runner) as unknown as SessionRegistryContract);
+  }
+
+  /**
+   * Register a session's key hash, address, daily and per-transaction limits, expiry and
+   * allowed chains with the hub.
+   *
+   * @throws AgentPaymentError `SESSION_INVALID` if the session budgets in a currency other
+   *   than USD (the hub enforces USD limits), `RPC_ERROR` if the transaction fails
+   */
+  async registerSession(session: StoredSession): Promise<OnChainRegistration> {
+    const currency = normalizeCurrency(session.config.currency);
+    if (currency !== BASE_CURRENCY) {
+      throw new AgentPaymentError(
+        AgentPaymentErrorCode.SESSION_INVALID,
+        `Cannot register a session budgeted in ${currency}: the hub enforces limits in USD`,
+        'Create the session without a currency (or with USD) to register it on-chain.',
+        false,
+        { keyHash: session.keyHash, currency }
+      );
+    }
+    const chainId = await this.getChainId();
+    const sessionAddress = session.walletAddress ?? ethers.computeAddress(session.publicKey);
+    const dailyLimit = toUSDUnits(session.config.dailyLimitUSD);
+    const perTransactionLimit = toUSDUnits(session.config.perTransactionLimitUSD);
+    // The hub counts time in seconds
+    const expiry = BigInt(Math.floor(session.config.expiryTimestamp / 1000));
+    const allowedChains = session.config.allowedChains;
+
+    const messageHash = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(
+      ['string', 'uint256', 'address', 'bytes32', 'bytes32', 'address', 'uint256', 'uint256', 'uint64', 'uint16[]'],
+      ['registerSession', chainId, this.hubAddress, session.masterKeyHash, session.keyHash, sessionAddress,
+        dailyLimit, perTransactionLimit, expiry, allowedChains]
+    ));
+
+    const txHash = await this.send('register', session.keyHash, async () => this.contract.registerSession(
+      session.masterKeyHash,
+      session.keyHash,
+      sessionAddress,
+      dailyLimit,
+      perTransactionLimit,
+      expiry,
+      allowedChains,
+      await this.authorize(messageHash)
+    ));
+
+    return { hubAddress: this.hubAddress, chainId: chainId.toString(), txHash, registeredAt: Date.now() };
+  }
+
+  /**
+   * Revoke a session key on the hub, so it can no longer authorize vault transfers.
+   *
+   * @returns Transaction hash
+   * @throws AgentPaymentError `RPC_ERROR` if the transaction fails
+   */
+  async revokeSession(userKeyHash: string, sessionKeyHash: string): Promise<string> {
+    const chainId = await this.getChainId();
+    const messageHash = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(
+      ['string', 'uint256', 'address', 'bytes32', 'bytes32'],
+      ['revokeSession', chainId, this.hubAddress, userKeyHash, sessionKeyHash]
+    ));
+
+    return await this.send('revoke', sessionKeyHash, async () => this.contract.revokeSession(
+      userKeyHash,
+      sessionKeyHash,
+      await this.authorize(messageHash)
+    ));
+  }
+
+  /**
+   * Read a session from the hub.
+   *
+   * @returns `null` if the key hash was never registered
+   */
+  async getSession(sessionKeyHash: string): Promise<OnChainSessionRecord | null> {
+    const record = await this.contract.getSession(sessionKeyHash);
+    if (record.userKeyHash === ethers.ZeroHash) return null;
+
+    return {
+      userKeyHash: record.userKeyHash,
+      sessionAddress: record.sessionAddress,
+      dailyLimitUSD: fromUSDUnits(record.dailyLimit),
+      perTransactionLimitUSD: fromUSDUnits(record.perTransactionLimit),
+      expiryTimestamp: Number(record.expiry) * 1000,
+      allowedChains: record.allowedChains.map(Number),
+      dailySpentUSD: fromUSDUnits(record.dailySpent),
+      totalSpentUSD: fromUSDUnits(record.totalSpent),
+      revoked: record.revoked,
+    };
+  }
+
+  private async send(
+    action: 'register' | 'revoke',
+    sessionKeyHash: string,
+    submit: () => Promise<{ hash: string; wait(): Promise<unknown> }>
+  ): Promise<string> {
+    try {
+      const tx = await submit();
+      await tx.wait();
+      return tx.hash;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new AgentPaymentError(
+        AgentPaymentErrorCode.RPC_ERROR,
+        `Failed to ${action} session ${sessionKeyHash} on hub ${this.hubAddress}: ${message}`,
+        'Check the hub address, the RPC endpoint and that the runner account has gas, then retry.',
+        true,
+        { sessionKeyHash, hubAddress: this.hubAddress }
+      );
+    }
+  }
+
+  private async getChainId(): Promise<bigint> {
+    if (this.chainId === undefined) {
+      const network = await this.runner?.provider?.getNetwork();
+      if (!network) {
+        throw new Error('OnChainSessionRegistry needs a chainId or a runner connected to a provider');
+      }
+      this.chainId = network.chainId;
+    }
+    return this.chainId;
+  }
+}
+
+function toUSDUnits(amountUSD: number): bigint {
+  return ethers.parseUnits(amountUSD.toFixed(USD_DECIMALS), USD_DECIMALS);
+}
+
+function fromUSDUnits(units: bigint): number {
+  return Number(ethers.formatUnits(units, USD_DECIMALS));
+}
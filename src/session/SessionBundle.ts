@@ -0,0 +1,600 @@
+/**
+ * @packageDocumentation
+ * @module SessionBundle
+ * @description
+ * Portable, versioned format for handing a session from one environment to another
+ * (e.g. a frontend that provisions a session with the user's passkey, and a backend agent
+ * that spends from it).
+ *
+ * A bundle is:
+ * - **Versioned**: `format` + `version`, with migrations from older formats (including the
+ *   bare `StoredSession` objects accepted by earlier `importSession()` versions).
+ * - **Schema-validated**: every field is checked with zod before a session is accepted.
+ * - **Signed**: a WebAuthn assertion by the master passkey over the SHA-256 digest of the
+ *   canonical bundle, so tampering with limits or the key is detected on import.
+ * - **Optionally encrypted**: the session can be sealed with a passphrase
+ *   (PBKDF2-SHA256 + AES-256-GCM).
+ *
+ * @example
+ * ```typescript
+ * // Frontend, holding the passkey
+ * const bundle = await codec.export(session, {
+ *   sign: (challenge) => getPasskeyAssertion(credentialId, challenge),
+ *   passphrase: 'correct horse battery staple',
+ * });
+ *
+ * // Backend agent, configured with the same master credential
+ * const session = await codec.import(bundle, { masterCredential, passphrase });
+ * ```
+ */
+import { z } from 'zod';
+import type { PasskeyCredential } from '@veridex/sdk';
+import { StoredSession } from './SessionStorage';
+import { AgentPaymentError, AgentPaymentErrorCode } from '../types/errors';
+
+export const SESSION_BUNDLE_FORMAT = 'veridex-session-bundle';
+export const SESSION_BUNDLE_VERSION = 1;
+
+const DEFAULT_KDF_ITERATIONS = 210_000;
+
+/**
+ * WebAuthn assertion produced by `navigator.credentials.get()` with the bundle digest as
+ * the challenge. All fields are base64url encoded; `signature` is the DER-encoded ECDSA signature.
+ */
+export interface WebAuthnAssertion {
+  authenticatorData: string;
+  clientDataJSON: string;
+  signature: string;
+}
+
+export interface EncryptedSessionPayload {
+  encoding: 'encrypted';
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  ciphertext: string;
+}
+
+export type SessionBundlePayload =
+  | { encoding: 'plain'; session: StoredSession }
+  | EncryptedSessionPayload;
+
+export interface SessionBundle {
+  format: typeof SESSION_BUNDLE_FORMAT;
+  version: typeof SESSION_BUNDLE_VERSION;
+  createdAt: number;
+  keyHash: string;
+  masterKeyHash: string;
+  payload: SessionBundlePayload;
+  /** Master passkey assertion over {@link SessionBundleCodec.digest} */
+  signature?: WebAuthnAssertion;
+}
+
+export interface ExportSessionOptions {
+  /**
+   * Sign the bundle digest with the master passkey, e.g. via `navigator.credentials.get()`
+   * with `challenge` as the WebAuthn challenge.
+   */
+  sign?: (challenge: Uint8Array) => Promise<WebAuthnAssertion>;
+  /** Encrypt the session with this passphrase */
+  passphrase?: string;
+  /** PBKDF2 iterations for passphrase encryption (default: 210,000) */
+  kdfIterations?: number;
+}
+
+export interface ImportSessionOptions {
+  /** Master credential the bundle must be signed by */
+  masterCredential?: PasskeyCredential;
+  /** Passphrase for encrypted bundles */
+  passphrase?: string;
+  /**
+   * Accept bundles without a signature, including bare sessions from older SDK versions.
+   * Only use this when the bundle arrives over a channel you already trust.
+   */
+  allowUnsigned?: boolean;
+}
+
+const accessListSchema = z.object({
+  allow: z.array(z.string()).optional(),
+  deny: z.array(z.string()).optional(),
+});
+
+const spendEntrySchema = z.object({
+  timestamp: z.number(),
+  amountUSD: z.number(),
+  amount: z.number().optional(),
+  token: z.string().optional(),
+  tokenSymbol: z.string().optional(),
+  tokenAmount: z.number().optional(),
+  chain: z.number().int().optional(),
+  recipient: z.string().optional(),
+  adjustment: z.boolean().optional(),
+});
+
+const policyRuleSchema = z.object({
+  id: z.string(),
+  description: z.string().optional(),
+  action: z.enum(['allow', 'deny', 'require_approval']),
+  when: z.object({
+    amountUSD: z.object({
+      gt: z.number().optional(),
+      gte: z.number().optional(),
+      lt: z.number().optional(),
+      lte: z.number().optional(),
+    }).optional(),
+    recipients: z.array(z.string()).optional(),
+    merchants: z.array(z.string()).optional(),
+    origins: z.array(z.string()).optional(),
+    tokens: z.array(z.string()).optional(),
+    chains: z.array(z.number().int()).optional(),
+    timeOfDay: z.object({ start: z.string(), end: z.string() }).optional(),
+    daysOfWeek: z.array(z.number().int()).optional(),
+    velocity: z.object({
+      windowMs: z.number(),
+      maxCount: z.number().optional(),
+      maxAmountUSD: z.number().optional(),
+    }).optional(),
+  }).optional(),
+});
+
+const sessionConfigSchema = z.object({
+  currency: z.string().regex(/^[A-Za-z]{3}$/).optional(),
+  dailyLimitUSD: z.number(),
+  perTransactionLimitUSD: z.number(),
+  expiryTimestamp: z.number(),
+  allowedChains: z.array(z.number().int()),
+  recipients: accessListSchema.optional(),
+  merchants: accessListSchema.optional(),
+  origins: accessListSchema.optional(),
+  allowedTokens: z.array(z.string()).optional(),
+  tokenBudgets: z.record(z.number()).optional(),
+  chainBudgetsUSD: z.record(z.number()).optional(),
+  windows: z.array(z.discriminatedUnion('type', [
+    z.object({ type: z.literal('rolling'), durationMs: z.number(), limitUSD: z.number() }),
+    z.object({ type: z.literal('calendar'), period: z.enum(['day', 'week', 'month']), limitUSD: z.number() }),
+  ])).optional(),
+  keyFamilies: z.array(z.enum(['solana', 'aptos', 'sui', 'starknet'])).optional(),
+  velocityLimits: z.array(z.object({
+    maxCount: z.number().int(),
+    windowMs: z.number(),
+    perRecipient: z.boolean().optional(),
+  })).optional(),
+  policy: z.object({
+    version: z.literal(1).optional(),
+    rules: z.array(policyRuleSchema),
+    defaultAction: z.enum(['allow', 'deny']).optional(),
+  }).optional(),
+});
+
+const storedSessionSchema = z.object({
+  keyHash: z.string().min(1),
+  encryptedPrivateKey: z.string().min(1),
+  publicKey: z.string().min(1),
+  config: sessionConfigSchema,
+  metadata: z.object({
+    createdAt: z.number(),
+    lastUsedAt: z.number(),
+    totalSpentUSD: z.number(),
+    totalSpent: z.number().optional(),
+    dailySpentUSD: z.number(),
+    dailyResetAt: z.number(),
+    transactionCount: z.number(),
+    ledger: z.array(spendEntrySchema).optional(),
+  }),
+  masterKeyHash: z.string().min(1),
+  parentKeyHash: z.string().optional(),
+  predecessorKeyHash: z.string().optional(),
+  successorKeyHash: z.string().optional(),
+  walletAddress: z.string().optional(),
+  chainKeys: z.record(z.enum(['solana', 'aptos', 'sui', 'starknet']), z.object({
+    curve: z.enum(['ed25519', 'stark']),
+    publicKey: z.string(),
+    address: z.string().optional(),
+    encryptedPrivateKey: z.string().min(1),
+  })).optional(),
+  onChain: z.object({
+    hubAddress: z.string(),
+    chainId: z.string(),
+    txHash: z.string(),
+    registeredAt: z.number(),
+  }).optional(),
+  externalSigner: z.boolean().optional(),
+  derivationIndex: z.number().int().nonnegative().optional(),
+});
+
+const webAuthnAssertionSchema = z.object({
+  authenticatorData: z.string(),
+  clientDataJSON: z.string(),
+  signature: z.string(),
+});
+
+const sessionBundleSchema = z.object({
+  format: z.literal(SESSION_BUNDLE_FORMAT),
+  version: z.literal(SESSION_BUNDLE_VERSION),
+  createdAt: z.number(),
+  keyHash: z.string().min(1),
+  masterKeyHash: z.string().min(1),
+  payload: z.discriminatedUnion('encoding', [
+    z.object({ encoding: z.literal('plain'), session: storedSessionSchema }),
+    z.object({
+      encoding: z.literal('encrypted'),
+      kdf: z.object({
+        name: z.literal('PBKDF2'),
+        hash: z.literal('SHA-256'),
+        iterations: z.number().int().positive(),
+        salt: z.string(),
+      }),
+      cipher: z.object({ name: z.literal('AES-GCM'), iv: z.string() }),
+      ciphertext: z.string(),
+    }),
+  ]),
+  signature: webAuthnAssertionSchema.optional(),
+});
+
+/**
+ * Upgrades a bundle of the given version to the next one. Add an entry here whenever
+ * {@link SESSION_BUNDLE_VERSION} is bumped.
+ */
+const MIGRATIONS: Record<number, (bundle: Record<string, unknown>) => Record<string, unknown>> = {};
+
+export class SessionBundleCodec {
+  /**
+   * Package a session as a portable bundle.
+   */
+  async export(session: StoredSession, options: ExportSessionOptions = {}): Promise<SessionBundle> {
+    // In-flight reservations belong to the exporting process and must not travel
+    const { reservations: _reservations, ...metadata } = session.metadata;
+    const portable: StoredSession = { ...session, metadata };
+
+    const payload: SessionBundlePayload = options.passphrase
+      ? await this.encrypt(portable, options.passphrase, options.kdfIterations ?? DEFAULT_KDF_ITERATIONS)
+      : { encoding: 'plain', session: portable };
+
+    const bundle: SessionBundle = {
+      format: SESSION_BUNDLE_FORMAT,
+      version: SESSION_BUNDLE_VERSION,
+      createdAt: Date.now(),
+      keyHash: session.keyHash,
+      masterKeyHash: session.masterKeyHash,
+      payload,
+    };
+
+    if (options.sign) {
+      bundle.signature = await options.sign(await this.digest(bundle));
+    }
+    return bundle;
+  }
+
+  /**
+   * Validate, verify and open a bundle (or a JSON string of one).
+   *
+   * @throws AgentPaymentError `SESSION_INVALID` if the bundle is malformed, unsigned (unless
+   *   `allowUnsigned`), signed by a different master key, tampered with, or the passphrase is wrong
+   */
+  async import(data: unknown, options: ImportSessionOptions = {}): Promise<StoredSession> {
+    // Verify against the bundle as signed, before the schema strips unknown fields
+    const raw = this.upgrade(data);
+    const bundle = parseBundle(raw);
+
+    if (bundle.signature) {
+      if (!options.masterCredential) {
+        throw invalid(
+          'Cannot verify the session bundle signature without the master credential',
+          'Pass the master passkey credential the bundle was signed with.'
+        );
+      }
+      // `raw` passed the schema above; it still carries any fields the schema strips
+      await this.verify(raw as unknown as SessionBundle, options.masterCredential);
+    } else if (!options.allowUnsigned) {
+      throw invalid(
+        'Session bundle is not signed by the master credential',
+        'Export the session with a master passkey signature, or pass allowUnsigned for trusted channels.'
+      );
+    }
+
+    const session = bundle.payload.encoding === 'encrypted'
+      ? await this.decrypt(bundle.payload, options.passphrase)
+      : bundle.payload.session;
+
+    if (session.keyHash !== bundle.keyHash || session.masterKeyHash !== bundle.masterKeyHash) {
+      throw invalid(
+        'Session bundle header does not match the session it contains',
+        'Re-export the session from the provisioning app.'
+      );
+    }
+    if (options.masterCredential && session.masterKeyHash !== options.masterCredential.keyHash) {
+      throw invalid(
+        `Session belongs to master key ${session.masterKeyHash}, not ${options.masterCredential.keyHash}`,
+        'Import the session into an agent configured with the master credential that created it.'
+      );
+    }
+
+    return session;
+  }
+
+  /**
+   * Bring any supported bundle (or a bare session from older SDK versions) up to the
+   * current version and validate it against the schema.
+   */
+  migrate(data: unknown): SessionBundle {
+    return parseBundle(this.upgrade(data));
+  }
+
+  /**
+   * SHA-256 digest of the canonical bundle without its signature. This is the WebAuthn
+   * challenge the master passkey signs.
+   */
+  async digest(bundle: SessionBundle): Promise<Uint8Array> {
+    const { signature: _signature, ...unsigned } = bundle;
+    const bytes = new TextEncoder().encode(canonicalize(unsigned));
+    return new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  }
+
+  private upgrade(data: unknown): Record<string, unknown> {
+    let parsed: unknown = data;
+    if (typeof parsed === 'string') {
+      try {
+        parsed = JSON.parse(parsed);
+      } catch {
+        throw invalid('Session bundle is not valid JSON', 'Pass the bundle exactly as exported.');
+      }
+    }
+    if (!isRecord(parsed)) {
+      throw invalid('Session bundle must be an object', 'Pass the bundle exactly as exported.');
+    }
+    let bundle = parsed;
+
+    if (bundle.format === undefined && bundle.keyHash && bundle.encryptedPrivateKey) {
+      bundle = fromLegacySession(bundle);
+    }
+
+    if (bundle.format !== SESSION_BUNDLE_FORMAT) {
+      throw invalid(`Unknown session bundle format: ${bundle.format}`, `Expected '${SESSION_BUNDLE_FORMAT}'.`);
+    }
+    let version = bundle.version;
+    if (typeof version !== 'number' || version > SESSION_BUNDLE_VERSION) {
+      throw invalid(
+        `Unsupported session bundle version: ${version}`,
+        'Upgrade @veridex/agentic-payments to import bundles from newer versions.'
+      );
+    }
+    while (version < SESSION_BUNDLE_VERSION) {
+      const migration = MIGRATIONS[version];
+      if (!migration) {
+        throw invalid(`No migration from session bundle version ${version}`, 'Re-export the session.');
+      }
+      bundle = migration(bundle);
+      version += 1;
+    }
+    return bundle;
+  }
+
+  private async verify(bundle: SessionBundle, masterCredential: PasskeyCredential): Promise<void> {
+    if (bundle.masterKeyHash !== masterCredential.keyHash) {
+      throw invalid(
+        'Session bundle was signed for a different master credential',
+        'Import the session into an agent configured with the master credential that created it.'
+      );
+    }
+
+    const assertion = bundle.signature!;
+    const challenge = toBase64Url(await this.digest(bundle));
+    const clientDataBytes = fromBase64Url(assertion.clientDataJSON);
+
+    let clientData: { type?: string; challenge?: string };
+    try {
+      clientData = JSON.parse(new TextDecoder().decode(clientDataBytes));
+    } catch {
+      throw invalid('Session bundle signature is malformed', 'Re-export and re-sign the session.');
+    }
+    if (clientData.type !== 'webauthn.get' || clientData.challenge !== challenge) {
+      throw invalid(
+        'Session bundle signature does not cover this bundle; it may have been tampered with',
+        'Re-export and re-sign the session from the provisioning app.'
+      );
+    }
+
+    const publicKey = await crypto.subtle.importKey(
+      'jwk',
+      {
+        kty: 'EC',
+        crv: 'P-256',
+        x: toBase64Url(bigintToBytes(masterCredential.publicKeyX)),
+        y: toBase64Url(bigintToBytes(masterCredential.publicKeyY)),
+      },
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+
+    // WebAuthn signs authenticatorData || SHA-256(clientDataJSON)
+    const authenticatorData = fromBase64Url(assertion.authenticatorData);
+    const clientDataHash = new Uint8Array(await crypto.subtle.digest('SHA-256', clientDataBytes));
+    const signedData = new Uint8Array(authenticatorData.length + clientDataHash.length);
+    signedData.set(authenticatorData);
+    signedData.set(clientDataHash, authenticatorData.length);
+
+    let valid = false;
+    try {
+      valid = await crypto.subtle.verify(
+        { name: 'ECDSA', hash: 'SHA-256' },
+        publicKey,
+        derToRawSignature(fromBase64Url(assertion.signature)),
+        signedData
+      );
+    } catch {
+      valid = false;
+    }
+    if (!valid) {
+      throw invalid(
+        'Session bundle signature is not valid for the master credential',
+        'Re-export and re-sign the session with the master passkey.'
+      );
+    }
+  }
+
+  private async encrypt(session: StoredSession, passphrase: string, iterations: number): Promise<EncryptedSessionPayload> {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await derivePassphraseKey(passphrase, salt, iterations);
+    const plaintext = new TextEncoder().encode(JSON.stringify(session));
+    const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext));
+
+    return {
+      encoding: 'encrypted',
+      kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations, salt: toBase64Url(salt) },
+      cipher: { name: 'AES-GCM', iv: toBase64Url(iv) },
+      ciphertext: toBase64Url(ciphertext),
+    };
+  }
+
+  private async decrypt(payload: EncryptedSessionPayload, passphrase?: string): Promise<StoredSession> {
+    if (!passphrase) {
+      throw invalid('Session bundle is encrypted', 'Pass the passphrase the bundle was exported with.');
+    }
+
+    const key = await derivePassphraseKey(passphrase, fromBase64Url(payload.kdf.salt), payload.kdf.iterations);
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64Url(payload.cipher.iv) },
+        key,
+        fromBase64Url(payload.ciphertext)
+      );
+    } catch {
+      throw invalid('Could not decrypt session bundle', 'Check the passphrase; the bundle may also have been corrupted.');
+    }
+
+    const parsed = storedSessionSchema.safeParse(JSON.parse(new TextDecoder().decode(plaintext)));
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw invalid(
+        `Invalid session in bundle: ${issue.path.join('.')}: ${issue.message}`,
+        'Re-export the session from the provisioning app.'
+      );
+    }
+    return parsed.data as StoredSession;
+  }
+}
+
+/**
+ * Wrap a bare `StoredSession` as accepted by `importSession()` before bundles existed.
+ * Such sessions were often provisioned without metadata, so defaults are filled in.
+ */
+function fromLegacySession(legacy: Record<string, unknown>): Record<string, unknown> {
+  const now = Date.now();
+  return {
+    format: SESSION_BUNDLE_FORMAT,
+    version: SESSION_BUNDLE_VERSION,
+    createdAt: now,
+    keyHash: legacy.keyHash,
+    masterKeyHash: legacy.masterKeyHash,
+    payload: {
+      encoding: 'plain',
+      session: {
+        ...legacy,
+        metadata: {
+          createdAt: now,
+          lastUsedAt: now,
+          totalSpentUSD: 0,
+          dailySpentUSD: 0,
+          dailyResetAt: now + 24 * 60 * 60 * 1000,
+          transactionCount: 0,
+          ...(isRecord(legacy.metadata) ? legacy.metadata : {}),
+        },
+      },
+    },
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseBundle(bundle: unknown): SessionBundle {
+  const parsed = sessionBundleSchema.safeParse(bundle);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw invalid(
+      `Invalid session bundle: ${issue.path.join('.') || 'bundle'}: ${issue.message}`,
+      'Re-export the session from the provisioning app.'
+    );
+  }
+  return parsed.data as SessionBundle;
+}
+
+function invalid(message: string, remediation: string): AgentPaymentError {
+  return new AgentPaymentError(AgentPaymentErrorCode.SESSION_INVALID, message, remediation, false);
+}
+
+async function derivePassphraseKey(passphrase: string, salt: BufferSource, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * JSON with object keys sorted recursively, so the digest does not depend on key order.
+ */
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalize(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('base64url');
+}
+
+function fromBase64Url(value: string) {
+  const bytes = Buffer.from(value, 'base64url');
+  const copy = new Uint8Array(bytes.length);
+  copy.set(bytes);
+  return copy;
+}
+
+function bigintToBytes(value: bigint): Uint8Array {
+  return new Uint8Array(Buffer.from(value.toString(16).padStart(64, '0'), 'hex'));
+}
+
+/**
+ * Convert a DER-encoded ECDSA signature (as returned by WebAuthn) to the raw r||s form
+ * WebCrypto expects.
+ */
+function derToRawSignature(der: Uint8Array) {
+  if (der[0] !== 0x30) {
+    throw new Error('Not a DER signature');
+  }
+  let offset = 2;
+  const readInteger = (): Uint8Array => {
+    if (der[offset] !== 0x02) throw new Error('Invalid DER integer');
+    const length = der[offset + 1];
+    let bytes = der.slice(offset + 2, offset + 2 + length);
+    offset += 2 + length;
+    while (bytes.length > 32 && bytes[0] === 0) bytes = bytes.slice(1);
+    const padded = new Uint8Array(32);
+    padded.set(bytes, 32 - bytes.length);
+    return padded;
+  };
+  const raw = new Uint8Array(64);
+  raw.set(readInteger(), 0);
+  raw.set(readInteger(), 32);
+  return raw;
+}
@@ -0,0 +1,207 @@
+/**
+ * @packageDocumentation
+ * @module SessionEventEmitter
+ * @description
+ * Typed lifecycle events for session keys.
+ *
+ * Subscribers (React hooks, ops tooling, audit pipelines) are notified when a session is
+ * created, imported, crosses a spending threshold, nears expiry, expires, is revoked or is
+ * rotated, instead of polling `getSessionStatus()`.
+ *
+ * Expiry events are driven by plain `setTimeout` timers, so the emitter works the same in
+ * Node.js and the browser. In Node.js the timers are unref'd and never keep the process alive.
+ *
+ * @example
+ * ```typescript
+ * const off = manager.events.on('session:expiring', ({ keyHash, remainingMs }) => {
+ *   console.log(`${keyHash} expires in ${Math.round(remainingMs / 1000)}s`);
+ * });
+ * off(); // unsubscribe
+ * ```
+ */
+import type { StoredSession } from './SessionStorage';
+import { normalizeCurrency } from '../oracle/FxRates';
+
+interface SessionEventBase {
+  keyHash: string;
+  masterKeyHash?: string;
+  timestamp: number;
+}
+
+export interface SessionEvents {
+  'session:created': SessionEventBase & { expiry: number; parentKeyHash?: string };
+  'session:imported': SessionEventBase & { expiry: number; parentKeyHash?: string };
+  'session:limit-threshold': SessionEventBase & {
+    /** Fraction of the daily limit that was reached, e.g. `0.8` */
+    threshold: number;
+    /** Spend and limit in the session's budget currency */
+    dailySpentUSD: number;
+    dailyLimitUSD: number;
+    /** ISO 4217 budget currency */
+    currency: string;
+  };
+  'session:expiring': SessionEventBase & { expiry: number; remainingMs: number };
+  'session:expired': SessionEventBase & { expiry: number };
+  'session:revoked': SessionEventBase & { actor?: string; reason?: string; parentKeyHash?: string };
+  'session:rotated': SessionEventBase & { previousKeyHash: string; expiry: number };
+}
+
+export type SessionEventName = keyof SessionEvents;
+
+export type SessionEventListener<K extends SessionEventName> = (event: SessionEvents[K]) => void;
+
+export interface SessionEventOptions {
+  /** How long before expiry `session:expiring` fires (default: 10 minutes) */
+  expiryWarningMs?: number;
+  /** Fractions of the daily limit that trigger `session:limit-threshold` (default: 0.5, 0.8, 0.9, 1.0) */
+  limitThresholds?: number[];
+}
+
+const DEFAULT_EXPIRY_WARNING_MS = 10 * 60 * 1000;
+const DEFAULT_LIMIT_THRESHOLDS = [0.5, 0.8, 0.9, 1.0];
+
+type Timer = ReturnType<typeof setTimeout>;
+
+export class SessionEventEmitter {
+  private listeners: Map<SessionEventName, Set<SessionEventListener<any>>> = new Map();
+  private timers: Map<string, Timer[]> = new Map();
+  /** Thresholds each session has already crossed, re-armed once spend drops back below them */
+  private crossed: Map<string, Set<number>> = new Map();
+  private expiryWarningMs: number;
+  private limitThresholds: number[];
+
+  constructor(options: SessionEventOptions = {}) {
+    this.expiryWarningMs = options.expiryWarningMs ?? DEFAULT_EXPIRY_WARNING_MS;
+    this.limitThresholds = [...(options.limitThresholds ?? DEFAULT_LIMIT_THRESHOLDS)].sort((a, b) => a - b);
+  }
+
+  /**
+   * Subscribe to an event.
+   *
+   * @returns Function that removes the listener
+   */
+  on<K extends SessionEventName>(event: K, listener: SessionEventListener<K>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only.
+   */
+  once<K extends SessionEventName>(event: K, listener: SessionEventListener<K>): () => void {
+    const off = this.on(event, (payload) => {
+      off();
+      listener(payload);
+    });
+    return off;
+  }
+
+  off<K extends SessionEventName>(event: K, listener: SessionEventListener<K>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Notify every listener of an event. A throwing listener does not stop the others.
+   */
+  emit<K extends SessionEventName>(event: K, payload: SessionEvents[K]): void {
+    for (const listener of [...(this.listeners.get(event) ?? [])]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`[SessionEventEmitter] ${event} listener failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Schedule `session:expiring` and `session:expired` for a session, replacing any timers
+   * already scheduled for it.
+   */
+  track(session: StoredSession): void {
+    this.clearTimers(session.keyHash);
+
+    const expiry = session.config.expiryTimestamp;
+    const base = { keyHash: session.keyHash, masterKeyHash: session.masterKeyHash };
+    const timers: Timer[] = [];
+    const now = Date.now();
+
+    if (expiry - this.expiryWarningMs > now) {
+      timers.push(this.schedule(expiry - this.expiryWarningMs - now, () => {
+        this.emit('session:expiring', { ...base, expiry, remainingMs: expiry - Date.now(), timestamp: Date.now() });
+      }));
+    }
+    if (expiry > now) {
+      timers.push(this.schedule(expiry - now, () => {
+        this.untrack(session.keyHash);
+        this.emit('session:expired', { ...base, expiry, timestamp: Date.now() });
+      }));
+    }
+
+    this.timers.set(session.keyHash, timers);
+  }
+
+  /**
+   * Stop emitting events for a session (after it was revoked or rotated).
+   */
+  untrack(keyHash: string): void {
+    this.clearTimers(keyHash);
+    this.crossed.delete(keyHash);
+  }
+
+  /**
+   * Emit `session:limit-threshold` for every threshold the session's daily spend newly reached.
+   */
+  checkSpending(session: StoredSession, dailySpentUSD: number): void {
+    const { dailyLimitUSD } = session.config;
+    const ratio = dailySpentUSD / dailyLimitUSD;
+    const crossed = this.crossed.get(session.keyHash) ?? new Set<number>();
+
+    for (const threshold of this.limitThresholds) {
+      if (ratio < threshold) {
+        crossed.delete(threshold);
+      } else if (!crossed.has(threshold)) {
+        crossed.add(threshold);
+        this.emit('session:limit-threshold', {
+          keyHash: session.keyHash,
+          masterKeyHash: session.masterKeyHash,
+          threshold,
+          dailySpentUSD,
+          dailyLimitUSD,
+          currency: normalizeCurrency(session.config.currency),
+          timestamp: Date.now(),
+        });
+      }
+    }
+
+    this.crossed.set(session.keyHash, crossed);
+  }
+
+  /**
+   * Cancel every timer and drop all listeners.
+   */
+  dispose(): void {
+    for (const keyHash of [...this.timers.keys()]) {
+      this.clearTimers(keyHash);
+    }
+    this.crossed.clear();
+    this.listeners.clear();
+  }
+
+  private schedule(delayMs: number, fn: () => void): Timer {
+    const timer = setTimeout(fn, delayMs);
+    (timer as { unref?: () => void }).unref?.();
+    return timer;
+  }
+
+  private clearTimers(keyHash: string): void {
+    for (const timer of this.timers.get(keyHash) ?? []) {
+      clearTimeout(timer);
+    }
+    this.timers.delete(keyHash);
+  }
+}
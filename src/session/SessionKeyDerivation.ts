@@ -0,0 +1,109 @@
+/**
+ * @packageDocumentation
+ * @module SessionKeyDerivation
+ * @description
+ * Deterministic session keys, derived from entropy bound to the master credential.
+ *
+ * By default session keys are random, so a session wallet whose storage is lost can only be
+ * recovered from a backup. With derivation, the session key at index `i` is the BIP-32 key
+ * at `m/44'/60'/1'/0/i` under a seed of
+ * `HKDF-SHA256(entropy, salt = masterKeyHash, info = "veridex-session-keys")`, so every
+ * session key (and its wallet) can be re-derived from the master credential alone.
+ *
+ * The entropy must be secret and stable for the master credential, e.g. the output of the
+ * WebAuthn PRF extension or a deterministic signature by the master key over a fixed
+ * challenge. Do not use the credential ID: it is not secret.
+ *
+ * Only the EVM key is derived; native keys for other chain families stay random.
+ *
+ * @example
+ * ```typescript
+ * const derivation = new SessionKeyDerivation(async (masterKey) => getPrfOutput(masterKey.credentialId));
+ * const manager = new SessionKeyManager({ derivation });
+ * ```
+ */
+import { ethers } from 'ethers';
+import type { PasskeyCredential } from '@veridex/sdk';
+
+/** BIP-32 path under which session keys are derived, one child per index */
+export const SESSION_KEY_DERIVATION_PATH = "m/44'/60'/1'/0";
+
+const HKDF_INFO = 'veridex-session-keys';
+const MIN_ENTROPY_BYTES = 16;
+// Non-hardened BIP-32 child indexes
+const MAX_INDEX = 2 ** 31 - 1;
+
+/**
+ * Returns the secret entropy bound to a master credential. Must return the same bytes every
+ * time for the same credential.
+ */
+export type DerivationEntropySource = (masterKey: PasskeyCredential) => Promise<Uint8Array>;
+
+export interface DerivedSessionKey {
+  index: number;
+  /** Full BIP-32 path of the key */
+  path: string;
+  privateKey: Uint8Array;
+  /** Uncompressed secp256k1 public key */
+  publicKey: string;
+  address: string;
+}
+
+export class SessionKeyDerivation {
+  /** Derived roots by master key hash */
+  private roots: Map<string, Promise<ethers.HDNodeWallet>> = new Map();
+
+  constructor(private entropy: DerivationEntropySource) { }
+
+  /**
+   * Derive the session key at an index.
+   */
+  async deriveKey(masterKey: PasskeyCredential, index: number): Promise<DerivedSessionKey> {
+    if (!Number.isInteger(index) || index < 0 || index > MAX_INDEX) {
+      throw new Error(`Session key index must be an integer from 0 to ${MAX_INDEX}, got ${index}`);
+    }
+    const root = await this.getRoot(masterKey);
+    const node = root.deriveChild(index);
+
+    return {
+      index,
+      path: `${SESSION_KEY_DERIVATION_PATH}/${index}`,
+      privateKey: ethers.getBytes(node.privateKey),
+      publicKey: node.signingKey.publicKey,
+      address: node.address,
+    };
+  }
+
+  private async getRoot(masterKey: PasskeyCredential): Promise<ethers.HDNodeWallet> {
+    let root = this.roots.get(masterKey.keyHash);
+    if (!root) {
+      root = this.deriveRoot(masterKey);
+      this.roots.set(masterKey.keyHash, root);
+      // Let a failed entropy lookup (e.g. a dismissed passkey prompt) be retried
+      root.catch(() => this.roots.delete(masterKey.keyHash));
+    }
+    return await root;
+  }
+
+  private async deriveRoot(masterKey: PasskeyCredential): Promise<ethers.HDNodeWallet> {
+    const entropy = await this.entropy(masterKey);
+    if (entropy.length < MIN_ENTROPY_BYTES) {
+      throw new Error(`Session key derivation needs at least ${MIN_ENTROPY_BYTES} bytes of entropy, got ${entropy.length}`);
+    }
+
+    const subtle = globalThis.crypto.subtle;
+    const key = await subtle.importKey('raw', new Uint8Array(entropy), 'HKDF', false, ['deriveBits']);
+    const seed = await subtle.deriveBits(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: new Uint8Array(ethers.getBytes(masterKey.keyHash)),
+        info: new Uint8Array(ethers.toUtf8Bytes(HKDF_INFO)),
+      },
+      key,
+      512
+    );
+
+    return ethers.HDNodeWallet.fromSeed(new Uint8Array(seed)).derivePath(SESSION_KEY_DERIVATION_PATH);
+  }
+}
@@ -9,10 +9,19 @@
  * without exposing the master credentials.
  * 
  * Features:
- * - **Key Derivation**: Securely derives keys using `secp256k1` (EVM compatible).
+ * - **Key Derivation**: Securely derives keys using `secp256k1` (EVM compatible), plus optional
+ *   native keys for Solana, Aptos, Sui (ed25519) and Starknet (Stark curve).
  * - **Encryption**: Private keys are encrypted at rest.
  * - **Policy Enforcement**: Enforces daily spending limits and expiration times.
- * - **Revocation**: Instant revocation capability for all sessions.
+ * - **Delegation**: Sub-sessions for worker agents, bounded by and rolled up into their parent.
+ * - **Revocation**: Instant revocation capability for all sessions, cascading to sub-sessions.
+ * - **Rotation**: Replace a session with a fresh key before it expires, carrying over its spend.
+ * - **Events**: Typed lifecycle events (created, expiring, revoked, ...) on {@link SessionKeyManager.events}.
+ * - **On-chain enforcement**: Optional registration with the Veridex hub via {@link OnChainSessionRegistry}.
+ * - **External signers**: Keys can be held outside the process by a {@link SessionSigner}.
+ * - **Deterministic keys**: Optional derivation along an index path via {@link SessionKeyDerivation},
+ *   so session wallets can be re-derived and recovered.
+ * - **Budget currency**: Limits in a currency other than USD, converted with a {@link FxRateProvider}.
  * 
  * @see {@link SessionStorage} for persistence details.
  */
@@ -26,18 +35,155 @@ import {
   encrypt,
   decrypt,
 } from '@veridex/sdk';
-import { SessionStorage, StoredSession, SessionKeyConfig } from './SessionStorage';
-import { SpendingTracker, LimitCheckResult } from './SpendingTracker';
+import {
+  SessionStorage,
+  StoredSession,
+  SessionKeyConfig,
+  SessionStorageAdapter,
+  SpendReservation,
+  RevocationRecord,
+} from './SessionStorage';
+import { SpendingTracker, LimitCheckResult, PaymentContext, BudgetStatus, ReservationResult } from './SpendingTracker';
 import { AgentPaymentError, AgentPaymentErrorCode } from '../types/errors';
+import { PolicyEngine } from '../policy/PolicyEngine';
+import { SessionEventEmitter, SessionEventOptions } from './SessionEventEmitter';
+import { OnChainSessionRegistry } from './OnChainSessionRegistry';
+import { SessionBundleCodec, SessionBundle, ExportSessionOptions, ImportSessionOptions } from './SessionBundle';
+import {
+  ChainFamily,
+  ChainSignerMap,
+  NativeKeyFamily,
+  NATIVE_KEY_FAMILIES,
+  generateChainKey,
+  restoreChainSigner,
+} from './ChainKeys';
+import { SessionSigner, LocalSessionSigner, recoverSignerPublicKey } from '../signers/SessionSigner';
+import { SessionKeyDerivation } from './SessionKeyDerivation';
+import { BASE_CURRENCY, CurrencyConverter, FxRateProvider, normalizeCurrency } from '../oracle/FxRates';
+
+export interface SessionKeyManagerConfig {
+  /**
+   * Storage backend for sessions and spending metadata.
+   * Defaults to `localStorage` in browsers and process memory in Node.js.
+   */
+  storage?: SessionStorageAdapter;
+  /**
+   * How long a spend reservation holds budget before it lapses (default: 5 minutes).
+   */
+  reservationTtlMs?: number;
+  /**
+   * Account class hash used to derive Starknet session addresses. Without it, Starknet
+   * session keys only report their public key.
+   */
+  starknetAccountClassHash?: string;
+  /** Expiry warning lead time and spending thresholds for {@link SessionKeyManager.events} */
+  events?: SessionEventOptions;
+  /**
+   * Hub registry. When set, every new session is registered on-chain before it is stored,
+   * and revoking a registered session also revokes it on the hub.
+   */
+  registry?: OnChainSessionRegistry;
+  /**
+   * Creates the signer for each new session instead of generating its key in process, e.g. a
+   * {@link RemoteSessionSigner} or {@link ChildProcessSessionSigner}. Such sessions store no
+   * key material; after loading one from storage, reattach its signer with
+   * {@link SessionKeyManager.attachSigner}.
+   */
+  signerFactory?: (config: SessionKeyConfig) => Promise<SessionSigner>;
+  /**
+   * Derive session keys deterministically from the master credential instead of generating
+   * random ones. Each new session takes the next unused index. Cannot be combined with
+   * `signerFactory`.
+   */
+  derivation?: SessionKeyDerivation;
+  /**
+   * Exchange rates for sessions with a `currency` other than USD (default: Pyth FX feeds).
+   */
+  fxRates?: FxRateProvider;
+}
+
+export interface RevokeSessionOptions {
+  /** Who is revoking the session, recorded in the tombstone */
+  actor?: string;
+  reason?: string;
+  /** Skip the hub revocation because the hub already revoked the session */
+  onChainAlreadyRevoked?: boolean;
+}
+
+export interface RotateSessionOptions {
+  /** Successor expiry (default: the old session's lifetime counted from now, at most 24 hours) */
+  expiryTimestamp?: number;
+  /**
+   * Retire the old key as part of the rotation (default: true). Pass `false` to keep it
+   * signing a little longer, e.g. to move funds out of its wallet, then revoke it.
+   */
+  retire?: boolean;
+  /** Who is rotating the session, recorded in the old session's tombstone */
+  actor?: string;
+}
+
+/**
+ * A derived session key, identified without its private key.
+ */
+export interface DerivedSessionKeyInfo {
+  index: number;
+  address: string;
+  publicKey: string;
+  keyHash: string;
+}
+
+export interface OnChainSyncResult {
+  keyHash: string;
+  /** The hub knows the session */
+  registered: boolean;
+  /** The session was revoked on the hub (and is now revoked locally too) */
+  revoked: boolean;
+  localDailySpentUSD: number;
+  onChainDailySpentUSD?: number;
+  /** USD added to the local ledger to match on-chain spend */
+  adjustedUSD: number;
+}
+
+const DEFAULT_RESERVATION_TTL_MS = 5 * 60 * 1000;
+const MAX_SESSION_DURATION_MS = 24 * 60 * 60 * 1000;
+// Stored in place of the encrypted key for sessions whose key is held by an external signer
+const EXTERNAL_SIGNER_KEY = 'external';
 
 export class SessionKeyManager {
   private storage: SessionStorage;
   private tracker: SpendingTracker;
   private encryptionKey?: CryptoKey;
+  private reservationTtlMs: number;
+  private starknetAccountClassHash?: string;
+  private registry?: OnChainSessionRegistry;
+  private signerFactory?: (config: SessionKeyConfig) => Promise<SessionSigner>;
+  private derivation?: SessionKeyDerivation;
+  private fx: CurrencyConverter;
+  /** Next derivation index by master key hash */
+  private nextIndexes: Map<string, Promise<number>> = new Map();
+  /** External signers by session key hash */
+  private signers: Map<string, SessionSigner> = new Map();
+  /** Session instances handed out by this manager, used to roll sub-session spend up to parents */
+  private liveSessions: Map<string, StoredSession> = new Map();
+  /** Revocations seen by this manager, so synchronous checks can reject revoked sessions */
+  private revoked: Map<string, RevocationRecord> = new Map();
+  private bundleCodec = new SessionBundleCodec();
+  /** Lifecycle events for every session this manager creates, imports or loads */
+  readonly events: SessionEventEmitter;
 
-  constructor() {
-    this.storage = new SessionStorage();
+  constructor(config: SessionKeyManagerConfig = {}) {
+    this.storage = new SessionStorage(config.storage);
+    this.events = new SessionEventEmitter(config.events);
     this.tracker = new SpendingTracker();
+    this.reservationTtlMs = config.reservationTtlMs ?? DEFAULT_RESERVATION_TTL_MS;
+    this.starknetAccountClassHash = config.starknetAccountClassHash;
+    this.registry = config.registry;
+    this.signerFactory = config.signerFactory;
+    this.derivation = config.derivation;
+    this.fx = new CurrencyConverter(config.fxRates);
+    if (this.derivation && this.signerFactory) {
+      throw new Error('SessionKeyManager cannot derive session keys and use a signerFactory at the same time');
+    }
   }
 
   /**
@@ -59,29 +205,191 @@ export class SessionKeyManager {
     // Validate configuration
     this.validateConfig(config);
 
-    // Generate new secp256k1 key pair using core SDK
-    const keyPair = generateSecp256k1KeyPair();
+    return await this.generateSession(masterKey, config);
+  }
 
-    // Compute session key hash (on-chain identifier)
-    const keyHash = computeSessionKeyHash(keyPair.publicKey);
+  /**
+   * Derive a child session for a delegated (worker) agent.
+   *
+   * The child's limits are carved out of what the parent has left: its daily limit cannot
+   * exceed the parent's remaining daily budget, its per-transaction limit and expiry cannot
+   * exceed the parent's, and its chains must be a subset of the parent's. Every child payment
+   * is also checked against and recorded in all ancestor sessions, and revoking a parent
+   * revokes all of its descendants.
+   *
+   * @param parent - Session to delegate from
+   * @param masterKey - Master passkey credential the parent was created with
+   * @param config - Child session configuration
+   * @returns Created child session
+   */
+  async createSubSession(
+    parent: StoredSession,
+    masterKey: PasskeyCredential,
+    config: SessionKeyConfig
+  ): Promise<StoredSession> {
+    if (!this.isSessionValid(parent)) {
+      throw AgentPaymentError.fromSessionExpired({ parentKeyHash: parent.keyHash });
+    }
+
+    this.validateConfig(config);
+    this.validateSubSessionConfig(parent, config);
+
+    this.remember(parent);
+    return await this.generateSession(masterKey, config, parent.keyHash);
+  }
+
+  /**
+   * Get the direct child sessions of a session.
+   */
+  async getSubSessions(parentKeyHash: string): Promise<StoredSession[]> {
+    const allSessions = await this.storage.getAllSessions();
+    return allSessions
+      .filter((s) => s.parentKeyHash === parentKeyHash)
+      .map((s) => this.liveSessions.get(s.keyHash) ?? s);
+  }
+
+  /**
+   * Replace a session with a fresh key before it expires.
+   *
+   * The successor keeps the old session's configuration (limits, policy, chains, key
+   * families) with a new expiry, and inherits its spending state so rolling windows,
+   * velocity limits and pending reservations carry across the rotation. Direct sub-sessions
+   * are re-parented to the successor, and spend committed against the old session after
+   * rotation (an in-flight payment settling) is forwarded to the successor.
+   *
+   * @param session - Session to rotate
+   * @param masterKey - Master passkey credential the session was created with
+   * @param options - Successor expiry and whether to retire the old key now
+   * @returns The successor session
+   * @throws AgentPaymentError `SESSION_REVOKED` if the session was revoked,
+   *   `SESSION_INVALID` if it was already rotated
+   */
+  async rotateSession(
+    session: StoredSession,
+    masterKey: PasskeyCredential,
+    options: RotateSessionOptions = {}
+  ): Promise<StoredSession> {
+    await this.assertNotRevoked(session);
+    if (session.successorKeyHash) {
+      throw new AgentPaymentError(
+        AgentPaymentErrorCode.SESSION_INVALID,
+        `Session ${session.keyHash} was already rotated to ${session.successorKeyHash}`,
+        'Use the successor session instead.',
+        false,
+        { keyHash: session.keyHash, successorKeyHash: session.successorKeyHash }
+      );
+    }
+
+    const now = Date.now();
+    const lifetime = session.config.expiryTimestamp - session.metadata.createdAt;
+    let expiryTimestamp = options.expiryTimestamp
+      ?? now + Math.min(Math.max(lifetime, 0), MAX_SESSION_DURATION_MS);
+    const ancestors = await this.resolveAncestors(session);
+    if (!ancestors) {
+      throw AgentPaymentError.fromSessionRevoked({ keyHash: session.keyHash, parentKeyHash: session.parentKeyHash });
+    }
+    if (ancestors.length > 0) {
+      // A sub-session cannot outlive its parent
+      expiryTimestamp = Math.min(expiryTimestamp, ancestors[0].config.expiryTimestamp);
+    }
+
+    const config: SessionKeyConfig = { ...session.config, expiryTimestamp };
+    this.validateConfig(config);
+
+    const successor = await this.generateSession(masterKey, config, session.parentKeyHash);
+    successor.predecessorKeyHash = session.keyHash;
+    this.tracker.carryOver(session, successor);
+    await this.storage.saveSession(successor);
+
+    for (const child of await this.getSubSessions(session.keyHash)) {
+      child.parentKeyHash = successor.keyHash;
+      await this.storage.saveSession(child);
+    }
+
+    session.successorKeyHash = successor.keyHash;
+    await this.storage.saveSession(session);
+    this.events.untrack(session.keyHash);
+    this.events.emit('session:rotated', {
+      keyHash: successor.keyHash,
+      masterKeyHash: successor.masterKeyHash,
+      previousKeyHash: session.keyHash,
+      expiry: successor.config.expiryTimestamp,
+      timestamp: Date.now(),
+    });
+
+    if (options.retire !== false) {
+      await this.revokeSession(session.keyHash, {
+        actor: options.actor,
+        reason: `Rotated to ${successor.keyHash}`,
+      });
+    }
+
+    return successor;
+  }
+
+  private async generateSession(
+    masterKey: PasskeyCredential,
+    config: SessionKeyConfig,
+    parentKeyHash?: string
+  ): Promise<StoredSession> {
+    let publicKey: Uint8Array;
+    let encryptedPrivateKey: string;
+    let signer: SessionSigner | undefined;
+    let derivationIndex: number | undefined;
 
     // Derive encryption key from master passkey credential
     // This ensures only the owner of the passkey can decrypt session keys
     if (!this.encryptionKey) {
       this.encryptionKey = await deriveEncryptionKey(masterKey.credentialId);
     }
+    const encryptionKey = this.encryptionKey;
+    if (!encryptionKey) {
+      throw new AgentPaymentError(
+        AgentPaymentErrorCode.SESSION_INVALID,
+        'Could not derive the session encryption key from the master credential',
+        'Check that the master credential is valid, then create the session again.',
+        false
+      );
+    }
 
-    // Encrypt the private key for storage
-    const encryptedPrivateKey = await this.encryptPrivateKey(
-      keyPair.privateKey,
-      this.encryptionKey
-    );
+    if (this.signerFactory) {
+      if (config.keyFamilies?.length) {
+        throw new AgentPaymentError(
+          AgentPaymentErrorCode.SESSION_INVALID,
+          'Native chain keys are not supported for sessions with an external signer',
+          'Remove keyFamilies from the session config, or create the session without a signerFactory.',
+          false
+        );
+      }
+      // The key stays with the signer; only its public key is recorded
+      signer = await this.signerFactory(config);
+      publicKey = ethers.getBytes(await recoverSignerPublicKey(signer));
+      encryptedPrivateKey = EXTERNAL_SIGNER_KEY;
+    } else if (this.derivation) {
+      derivationIndex = await this.nextDerivationIndex(masterKey);
+      const derived = await this.derivation.deriveKey(masterKey, derivationIndex);
+      publicKey = ethers.getBytes(derived.publicKey);
+      encryptedPrivateKey = await this.encryptPrivateKey(derived.privateKey, encryptionKey);
+    } else {
+      // Generate new secp256k1 key pair using core SDK
+      const keyPair = generateSecp256k1KeyPair();
+      publicKey = keyPair.publicKey;
+
+      // Encrypt the private key for storage
+      encryptedPrivateKey = await this.encryptPrivateKey(
+        keyPair.privateKey,
+        encryptionKey
+      );
+    }
+
+    // Compute session key hash (on-chain identifier)
+    const keyHash = computeSessionKeyHash(publicKey);
 
     // Build session record
     const session: StoredSession = {
       keyHash,
       encryptedPrivateKey,
-      publicKey: ethers.hexlify(keyPair.publicKey),
+      publicKey: ethers.hexlify(publicKey),
       config,
       metadata: {
         createdAt: Date.now(),
@@ -90,12 +398,47 @@ export class SessionKeyManager {
         dailySpentUSD: 0,
         dailyResetAt: Date.now() + 24 * 60 * 60 * 1000,
         transactionCount: 0,
+        ledger: [],
       },
       masterKeyHash: masterKey.keyHash,
     };
+    if (parentKeyHash) {
+      session.parentKeyHash = parentKeyHash;
+    }
+    if (signer) {
+      session.externalSigner = true;
+      this.signers.set(keyHash, signer);
+    }
+    if (derivationIndex !== undefined) {
+      session.derivationIndex = derivationIndex;
+    }
+
+    // Native keys for non-EVM chain families, under the same encryption
+    for (const family of config.keyFamilies ?? []) {
+      const { key, privateKey } = await generateChainKey(family, {
+        starknetAccountClassHash: this.starknetAccountClassHash,
+      });
+      session.chainKeys = {
+        ...session.chainKeys,
+        [family]: { ...key, encryptedPrivateKey: await this.encryptPrivateKey(privateKey, encryptionKey) },
+      };
+    }
+
+    // Register with the hub first, so a session whose limits the hub would not enforce is never stored
+    if (this.registry) {
+      session.onChain = await this.registry.registerSession(session);
+    }
 
     // Persist to storage
     await this.storage.saveSession(session);
+    this.remember(session);
+    this.events.emit('session:created', {
+      keyHash: session.keyHash,
+      masterKeyHash: session.masterKeyHash,
+      parentKeyHash: session.parentKeyHash,
+      expiry: config.expiryTimestamp,
+      timestamp: Date.now(),
+    });
 
     return session;
   }
@@ -105,33 +448,142 @@ export class SessionKeyManager {
    */
   async importSession(session: StoredSession): Promise<void> {
     await this.storage.saveSession(session);
+    this.remember(session);
+    // Keep new derived sessions from reusing an imported (e.g. recovered) index
+    const pendingIndex = this.nextIndexes.get(session.masterKeyHash);
+    if (pendingIndex && session.derivationIndex !== undefined) {
+      const imported = session.derivationIndex;
+      this.nextIndexes.set(session.masterKeyHash, pendingIndex.then((index) => Math.max(index, imported + 1)));
+    }
+    this.events.emit('session:imported', {
+      keyHash: session.keyHash,
+      masterKeyHash: session.masterKeyHash,
+      parentKeyHash: session.parentKeyHash,
+      expiry: session.config.expiryTimestamp,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Export a session as a portable bundle, optionally signed by the master passkey and
+   * encrypted with a passphrase.
+   */
+  async exportSession(session: StoredSession, options: ExportSessionOptions = {}): Promise<SessionBundle> {
+    return await this.bundleCodec.export(session, options);
+  }
+
+  /**
+   * Verify and import a session bundle (or a bare session from older SDK versions).
+   * The session's limits are validated as if it were created here, and revoked sessions are refused.
+   *
+   * @throws AgentPaymentError `SESSION_INVALID` or `SESSION_REVOKED`
+   */
+  async importSessionBundle(data: unknown, options: ImportSessionOptions = {}): Promise<StoredSession> {
+    const session = await this.bundleCodec.import(data, options);
+    this.validateConfig(session.config);
+    await this.assertNotRevoked(session);
+
+    if (!session.walletAddress) {
+      try {
+        session.walletAddress = ethers.computeAddress(session.publicKey);
+      } catch {
+        throw new AgentPaymentError(
+          AgentPaymentErrorCode.SESSION_INVALID,
+          'Session public key is not a valid secp256k1 key',
+          'Re-export the session from the provisioning app.',
+          false
+        );
+      }
+    }
+
+    await this.importSession(session);
+    return session;
   }
 
   /**
    * Load an existing session by key hash.
+   * Sessions already in use through this manager are returned as the same instance,
+   * so spend rolled up from sub-sessions is visible to every holder.
    */
   async loadSession(keyHash: string): Promise<StoredSession | null> {
-    return await this.storage.getSession(keyHash);
+    const live = this.liveSessions.get(keyHash);
+    if (live) return live;
+
+    const session = await this.storage.getSession(keyHash);
+    if (session) {
+      this.remember(session);
+    }
+    return session;
   }
 
   /**
    * Check if a transaction is within session spending limits.
    * 
+   * Sessions budgeted in another currency are checked with the last fetched exchange rate;
+   * before any rate was fetched the check fails with `FX_RATE_UNAVAILABLE`. Pass
+   * `context.budgetAmount` from {@link toBudgetCurrency} to use a fresh rate.
+   * 
    * @param session - Active session
    * @param amountUSD - Transaction amount in USD
+   * @param context - Payment counterparties checked against the session allow/deny lists
    * @returns Limit check result with allow/deny and reason
    */
-  checkLimits(session: StoredSession, amountUSD: number): LimitCheckResult {
+  checkLimits(session: StoredSession, amountUSD: number, context: PaymentContext = {}): LimitCheckResult {
     // First, check if session is still valid
+    const revocation = this.revoked.get(session.keyHash);
+    if (revocation) {
+      return this.revokedResult(revocation);
+    }
     if (!this.isSessionValid(session)) {
       return {
         allowed: false,
         reason: 'Session has expired',
+        code: AgentPaymentErrorCode.SESSION_EXPIRED,
         remainingDailyLimitUSD: 0,
       };
     }
 
-    return this.tracker.checkLimits(session, amountUSD);
+    const currency = normalizeCurrency(session.config.currency);
+    if (currency !== BASE_CURRENCY && context.budgetAmount === undefined) {
+      const budgetAmount = this.fx.fromUSDCached(amountUSD, currency);
+      if (budgetAmount === undefined) {
+        return {
+          allowed: false,
+          reason: `No ${currency} exchange rate has been fetched yet`,
+          code: AgentPaymentErrorCode.FX_RATE_UNAVAILABLE,
+          remainingDailyLimitUSD: session.config.dailyLimitUSD - this.tracker.getDailySpentUSD(session),
+        };
+      }
+      context = { ...context, budgetAmount };
+    }
+
+    const result = this.tracker.checkLimits(session, amountUSD, context);
+    if (!result.allowed) {
+      return result;
+    }
+    return this.checkAncestorLimits(session, this.getLiveAncestors(session), amountUSD, context) ?? result;
+  }
+
+  /**
+   * Convert a USD amount into the session's budget currency at the current rate. USD amounts
+   * are returned unchanged for USD sessions.
+   *
+   * @throws AgentPaymentError `FX_RATE_UNAVAILABLE` if no rate can be fetched
+   */
+  async toBudgetCurrency(session: StoredSession, amountUSD: number): Promise<number> {
+    return await this.fx.fromUSD(amountUSD, normalizeCurrency(session.config.currency));
+  }
+
+  /**
+   * Check counterparties only, for flows where the amount is not known up front
+   * (e.g. UCP checkouts discovered from a 402 response).
+   */
+  checkCounterparty(session: StoredSession, context: PaymentContext): LimitCheckResult {
+    const result = this.tracker.checkCounterparty(session, context);
+    const remainingDailyLimitUSD = session.config.dailyLimitUSD - this.tracker.getDailySpentUSD(session);
+    return result
+      ? { ...result, remainingDailyLimitUSD }
+      : { allowed: true, remainingDailyLimitUSD };
   }
 
   /**
@@ -139,21 +591,280 @@ export class SessionKeyManager {
    * 
    * @param session - Session that made the payment
    * @param amountUSD - Amount spent in USD
+   * @param context - Token/chain details used to update per-token and per-chain budgets
+   * @throws AgentPaymentError `FX_RATE_UNAVAILABLE` if the session budgets in another
+   *   currency and no rate can be fetched
    */
-  async recordSpending(session: StoredSession, amountUSD: number): Promise<void> {
-    this.tracker.recordSpending(session, amountUSD);
-    session.metadata.lastUsedAt = Date.now();
-    await this.storage.saveSession(session);
+  async recordSpending(session: StoredSession, amountUSD: number, context: PaymentContext = {}): Promise<void> {
+    context = await this.withBudgetAmount(session, amountUSD, context);
+    session = await this.resolveSuccessor(session);
+    const ancestors = (await this.resolveAncestors(session)) ?? [];
+    for (const target of [session, ...ancestors]) {
+      this.tracker.recordSpending(target, amountUSD, context);
+      target.metadata.lastUsedAt = Date.now();
+      await this.storage.saveSession(target);
+      this.events.checkSpending(target, this.tracker.getDailySpentUSD(target));
+    }
+  }
+
+  /**
+   * Atomically check limits and hold `amountUSD` against them for an in-flight payment.
+   * Pending reservations count against every limit until committed, released or expired,
+   * so concurrent payments cannot both pass the same check.
+   *
+   * @param session - Session making the payment
+   * @param amountUSD - Amount to hold in USD
+   * @param context - Counterparties and token/chain details, as for {@link checkLimits}
+   * @param ttlMs - How long to hold the budget (defaults to the manager's `reservationTtlMs`)
+   * @returns Limit check result, with the reservation when allowed
+   * @throws AgentPaymentError `FX_RATE_UNAVAILABLE` if the session budgets in another
+   *   currency and no rate can be fetched
+   */
+  async reserveSpending(
+    session: StoredSession,
+    amountUSD: number,
+    context: PaymentContext = {},
+    ttlMs: number = this.reservationTtlMs
+  ): Promise<ReservationResult> {
+    const revocation = await this.getRevocation(session.keyHash);
+    if (revocation) {
+      return this.revokedResult(revocation);
+    }
+    if (!this.isSessionValid(session)) {
+      return {
+        allowed: false,
+        reason: 'Session has expired',
+        code: AgentPaymentErrorCode.SESSION_EXPIRED,
+        remainingDailyLimitUSD: 0,
+      };
+    }
+
+    const ancestors = await this.resolveAncestors(session);
+    if (!ancestors) {
+      return {
+        allowed: false,
+        reason: 'Parent session has been revoked',
+        code: AgentPaymentErrorCode.SESSION_REVOKED,
+        remainingDailyLimitUSD: 0,
+      };
+    }
+    context = await this.withBudgetAmount(session, amountUSD, context);
+
+    // Check and hold synchronously across the whole chain so concurrent payments cannot interleave
+    const result = this.tracker.reserve(session, amountUSD, context, ttlMs);
+    if (!result.reservation) {
+      return result;
+    }
+    const ancestorResult = this.checkAncestorLimits(session, ancestors, amountUSD, context);
+    if (ancestorResult) {
+      this.tracker.releaseReservation(session, result.reservation);
+      return ancestorResult;
+    }
+    for (const ancestor of ancestors) {
+      this.tracker.holdReservation(ancestor, result.reservation);
+    }
+
+    for (const target of [session, ...ancestors]) {
+      await this.storage.saveSession(target);
+    }
+    return result;
+  }
+
+  /**
+   * Record a reserved payment as spent once it has settled.
+   *
+   * @param actualAmountUSD - Settled amount when it differs from the reserved amount
+   */
+  async commitReservation(
+    session: StoredSession,
+    reservation: SpendReservation,
+    actualAmountUSD?: number
+  ): Promise<void> {
+    session = await this.resolveSuccessor(session);
+    const ancestors = (await this.resolveAncestors(session)) ?? [];
+    for (const target of [session, ...ancestors]) {
+      this.tracker.commitReservation(target, reservation, actualAmountUSD);
+      await this.storage.saveSession(target);
+      this.events.checkSpending(target, this.tracker.getDailySpentUSD(target));
+    }
+  }
+
+  /**
+   * Return reserved budget after a payment failed or was rejected.
+   */
+  async releaseReservation(session: StoredSession, reservation: SpendReservation): Promise<void> {
+    session = await this.resolveSuccessor(session);
+    const ancestors = (await this.resolveAncestors(session)) ?? [];
+    for (const target of [session, ...ancestors]) {
+      if (this.tracker.releaseReservation(target, reservation)) {
+        await this.storage.saveSession(target);
+      }
+    }
+  }
+
+  /**
+   * Amount spent by a session in the last 24 hours, in its budget currency.
+   */
+  getDailySpentUSD(session: StoredSession): number {
+    return this.tracker.getDailySpentUSD(session);
+  }
+
+  /**
+   * Get spent/remaining amounts for each per-token, per-chain and time-window budget of a session.
+   */
+  getBudgetStatus(session: StoredSession): BudgetStatus {
+    return this.tracker.getBudgetStatus(session);
   }
 
   /**
    * Revoke a session immediately.
    * After revocation, the session cannot be used for any further transactions.
+   * A tombstone is persisted so copies of the session held elsewhere are rejected too.
    * 
    * @param keyHash - Session key hash to revoke
+   * @param options - Actor and reason recorded in the tombstone
    */
-  async revokeSession(keyHash: string): Promise<void> {
+  async revokeSession(keyHash: string, options: RevokeSessionOptions = {}): Promise<void> {
+    // Cascade to sub-sessions first so no child outlives its parent
+    for (const child of await this.getSubSessions(keyHash)) {
+      await this.revokeSession(child.keyHash, {
+        actor: options.actor,
+        reason: `Parent session ${keyHash} revoked${options.reason ? `: ${options.reason}` : ''}`,
+      });
+    }
+
+    const session = await this.loadSession(keyHash);
+    const record: RevocationRecord = {
+      keyHash,
+      revokedAt: Date.now(),
+      actor: options.actor,
+      reason: options.reason,
+      masterKeyHash: session?.masterKeyHash,
+      parentKeyHash: session?.parentKeyHash,
+    };
+    if (session?.derivationIndex !== undefined) {
+      record.derivationIndex = session.derivationIndex;
+    }
+    await this.storage.saveRevocation(record);
+    this.revoked.set(keyHash, record);
+
     await this.storage.removeSession(keyHash);
+    this.liveSessions.delete(keyHash);
+    this.events.untrack(keyHash);
+    this.events.emit('session:revoked', {
+      keyHash,
+      masterKeyHash: record.masterKeyHash,
+      parentKeyHash: record.parentKeyHash,
+      actor: record.actor,
+      reason: record.reason,
+      timestamp: record.revokedAt,
+    });
+
+    // The local tombstone already blocks signing; a failed hub revocation is recorded on it
+    if (this.registry && session?.onChain && !options.onChainAlreadyRevoked) {
+      try {
+        record.onChainTxHash = await this.registry.revokeSession(session.masterKeyHash, keyHash);
+      } catch (error) {
+        record.onChainError = error instanceof Error ? error.message : String(error);
+        console.error(`[SessionKeyManager] On-chain revocation of ${keyHash} failed:`, error);
+      }
+      await this.storage.saveRevocation(record);
+    }
+  }
+
+  /**
+   * Register an existing session (e.g. one created before a registry was configured, or
+   * imported) with the hub, so its limits are enforced on-chain.
+   *
+   * @throws AgentPaymentError `SESSION_INVALID` if no registry is configured,
+   *   `SESSION_REVOKED` if the session was revoked, `RPC_ERROR` if the transaction fails
+   */
+  async registerOnChain(session: StoredSession): Promise<StoredSession> {
+    const registry = this.requireRegistry();
+    await this.assertNotRevoked(session);
+
+    session.onChain = await registry.registerSession(session);
+    await this.storage.saveSession(session);
+    return session;
+  }
+
+  /**
+   * Reconcile a session against the hub. A session revoked on-chain is revoked locally, and
+   * spend the hub recorded beyond the local rolling 24h total (payments made by other
+   * holders of the key) is added to the local ledger. Local spend is never lowered.
+   *
+   * @throws AgentPaymentError `SESSION_INVALID` if no registry is configured
+   */
+  async syncOnChain(session: StoredSession): Promise<OnChainSyncResult> {
+    const registry = this.requireRegistry();
+    const localDailySpentUSD = this.getDailySpentUSD(session);
+    const record = await registry.getSession(session.keyHash);
+    if (!record) {
+      return { keyHash: session.keyHash, registered: false, revoked: false, localDailySpentUSD, adjustedUSD: 0 };
+    }
+
+    const result: OnChainSyncResult = {
+      keyHash: session.keyHash,
+      registered: true,
+      revoked: record.revoked,
+      localDailySpentUSD,
+      onChainDailySpentUSD: record.dailySpentUSD,
+      adjustedUSD: 0,
+    };
+
+    if (record.revoked) {
+      if (!(await this.getRevocation(session.keyHash))) {
+        await this.revokeSession(session.keyHash, {
+          actor: 'chain-sync',
+          reason: `Revoked on hub ${registry.hubAddress}`,
+          onChainAlreadyRevoked: true,
+        });
+      }
+      return result;
+    }
+
+    result.adjustedUSD = this.tracker.reconcile(session, record.dailySpentUSD);
+    if (result.adjustedUSD > 0) {
+      await this.storage.saveSession(session);
+      this.events.checkSpending(session, this.getDailySpentUSD(session));
+    }
+    return result;
+  }
+
+  /**
+   * Get the revocation tombstone for a session, if it was revoked.
+   */
+  async getRevocation(keyHash: string): Promise<RevocationRecord | null> {
+    const cached = this.revoked.get(keyHash);
+    if (cached) return cached;
+
+    const record = await this.storage.getRevocation(keyHash);
+    if (record) {
+      this.revoked.set(keyHash, record);
+    }
+    return record;
+  }
+
+  /**
+   * Throw `SESSION_REVOKED` if the session has been revoked. Called by every signing path.
+   */
+  async assertNotRevoked(session: StoredSession): Promise<void> {
+    const record = await this.getRevocation(session.keyHash);
+    if (record) {
+      throw AgentPaymentError.fromSessionRevoked({ ...record });
+    }
+  }
+
+  /**
+   * Audit view of all revoked sessions, most recent first.
+   *
+   * @param masterKeyHash - Only list sessions belonging to this master key
+   */
+  async listRevokedSessions(masterKeyHash?: string): Promise<RevocationRecord[]> {
+    const records = await this.storage.getAllRevocations();
+    return records
+      .filter((r) => !masterKeyHash || r.masterKeyHash === masterKeyHash)
+      .sort((a, b) => b.revokedAt - a.revokedAt);
   }
 
   /**
@@ -175,9 +886,13 @@ export class SessionKeyManager {
    */
   async getSessionsForMasterKey(masterKeyHash: string): Promise<StoredSession[]> {
     const allSessions = await this.storage.getAllSessions();
-    return allSessions.filter(
-      (s) => s.masterKeyHash === masterKeyHash && this.isSessionValid(s)
-    );
+    return allSessions
+      .filter((s) => s.masterKeyHash === masterKeyHash && this.isSessionValid(s))
+      .map((s) => {
+        const live = this.liveSessions.get(s.keyHash) ?? s;
+        this.remember(live);
+        return live;
+      });
   }
 
   /**
@@ -190,6 +905,223 @@ export class SessionKeyManager {
     session: StoredSession,
     masterCredentialId: string
   ): Promise<Uint8Array> {
+    return await this.decryptKeyMaterial(session.encryptedPrivateKey, masterCredentialId);
+  }
+
+  /**
+   * Create an ethers Wallet from a session for signing.
+   * 
+   * Note: In production, consider using a more secure signing approach
+   * that doesn't expose the private key in memory.
+   */
+  async getSessionWallet(
+    session: StoredSession,
+    masterCredentialId: string
+  ): Promise<ethers.Wallet> {
+    if (session.externalSigner) {
+      throw new AgentPaymentError(
+        AgentPaymentErrorCode.SESSION_INVALID,
+        `Session ${session.keyHash} is held by an external signer and has no key in this process`,
+        'Sign with getSessionSigner() instead.',
+        false,
+        { keyHash: session.keyHash }
+      );
+    }
+
+    // Only treat as raw private key if it's 0x AND exactly 32 bytes (66 chars)
+    if (session.encryptedPrivateKey.startsWith('0x') && session.encryptedPrivateKey.length === 66) {
+      return new ethers.Wallet(session.encryptedPrivateKey);
+    }
+
+    const privateKey = await this.getDecryptedPrivateKey(session, masterCredentialId);
+    return new ethers.Wallet(ethers.hexlify(privateKey));
+  }
+
+  /**
+   * Signer for a session's EVM key: its attached external signer, or the decrypted key wrapped
+   * in a {@link LocalSessionSigner}.
+   *
+   * @param masterCredentialId - Needed to decrypt an in-process key unless this manager already
+   *   derived the encryption key
+   * @throws AgentPaymentError `SESSION_INVALID` if the session's external signer is not attached
+   *   or the key cannot be decrypted
+   */
+  async getSessionSigner(session: StoredSession, masterCredentialId?: string): Promise<SessionSigner> {
+    const external = this.signers.get(session.keyHash);
+    if (external) return external;
+
+    if (session.externalSigner) {
+      throw new AgentPaymentError(
+        AgentPaymentErrorCode.SESSION_INVALID,
+        `No signer is attached for session ${session.keyHash}`,
+        'Attach the session\'s signer with attachSigner() after loading it.',
+        false,
+        { keyHash: session.keyHash }
+      );
+    }
+    const isRawKey = session.encryptedPrivateKey.startsWith('0x') && session.encryptedPrivateKey.length === 66;
+    if (masterCredentialId === undefined && !this.encryptionKey && !isRawKey) {
+      throw new AgentPaymentError(
+        AgentPaymentErrorCode.SESSION_INVALID,
+        `Cannot decrypt the key of session ${session.keyHash} without the master credential`,
+        'Pass the master credential ID to decrypt the session key.',
+        false,
+        { keyHash: session.keyHash }
+      );
+    }
+
+    return new LocalSessionSigner(await this.getSessionWallet(session, masterCredentialId ?? ''));
+  }
+
+  /**
+   * Attach the external signer holding a session's key, e.g. after loading the session from
+   * storage in a new process.
+   *
+   * @throws AgentPaymentError `SESSION_INVALID` if the signer's address is not the session's
+   */
+  async attachSigner(session: StoredSession, signer: SessionSigner): Promise<void> {
+    const expected = ethers.computeAddress(session.publicKey);
+    const actual = ethers.getAddress(await signer.getAddress());
+    if (actual !== expected) {
+      throw new AgentPaymentError(
+        AgentPaymentErrorCode.SESSION_INVALID,
+        `Signer address ${actual} does not match session ${session.keyHash} (${expected})`,
+        'Attach the signer that holds this session\'s key.',
+        false,
+        { keyHash: session.keyHash, expected, actual }
+      );
+    }
+    this.signers.set(session.keyHash, signer);
+  }
+
+  /**
+   * Re-derive session key identities for a range of indexes, e.g. to find past session wallets.
+   *
+   * @throws AgentPaymentError `SESSION_INVALID` if no derivation is configured
+   */
+  async deriveSessionKeys(masterKey: PasskeyCredential, count: number, start = 0): Promise<DerivedSessionKeyInfo[]> {
+    const derivation = this.requireDerivation();
+    const keys: DerivedSessionKeyInfo[] = [];
+    for (let index = start; index < start + count; index++) {
+      const { publicKey, address } = await derivation.deriveKey(masterKey, index);
+      keys.push({ index, address, publicKey, keyHash: computeSessionKeyHash(ethers.getBytes(publicKey)) });
+    }
+    return keys;
+  }
+
+  /**
+   * Signer for the derived session key at an index, whether or not a session record exists,
+   * e.g. to move funds out of a recovered or revoked session wallet.
+   *
+   * @throws AgentPaymentError `SESSION_INVALID` if no derivation is configured
+   */
+  async getDerivedSessionSigner(masterKey: PasskeyCredential, index: number): Promise<SessionSigner> {
+    const { privateKey } = await this.requireDerivation().deriveKey(masterKey, index);
+    return new LocalSessionSigner(new ethers.Wallet(ethers.hexlify(privateKey)));
+  }
+
+  /**
+   * Rebuild the session record for a derived key, e.g. after its storage was lost. The
+   * record is not saved; import it with {@link SessionKeyManager.importSession}.
+   *
+   * @param config - Limits for the rebuilt session (the originals are not recoverable from the key)
+   * @throws AgentPaymentError `SESSION_INVALID` if no derivation is configured
+   */
+  async rebuildDerivedSession(
+    masterKey: PasskeyCredential,
+    index: number,
+    config: SessionKeyConfig
+  ): Promise<StoredSession> {
+    const derived = await this.requireDerivation().deriveKey(masterKey, index);
+    const encryptionKey = this.encryptionKey ?? await deriveEncryptionKey(masterKey.credentialId);
+    this.encryptionKey = encryptionKey;
+
+    const now = Date.now();
+    return {
+      keyHash: computeSessionKeyHash(ethers.getBytes(derived.publicKey)),
+      encryptedPrivateKey: await this.encryptPrivateKey(derived.privateKey, encryptionKey),
+      publicKey: derived.publicKey,
+      config,
+      metadata: {
+        createdAt: now,
+        lastUsedAt: now,
+        totalSpentUSD: 0,
+        dailySpentUSD: 0,
+        dailyResetAt: now + 24 * 60 * 60 * 1000,
+        transactionCount: 0,
+        ledger: [],
+      },
+      masterKeyHash: masterKey.keyHash,
+      derivationIndex: index,
+    };
+  }
+
+  /**
+   * Decrypt the session's native key for a non-EVM chain family and return that chain's
+   * signer (a Solana `Keypair`, Aptos `Ed25519Account`, Sui `Ed25519Keypair`, or Starknet key pair).
+   *
+   * @throws AgentPaymentError `SESSION_INVALID` if the session has no key for the family,
+   *   `SESSION_REVOKED` if the session was revoked
+   */
+  async getChainSigner<F extends NativeKeyFamily>(
+    session: StoredSession,
+    family: F,
+    masterCredentialId: string
+  ): Promise<ChainSignerMap[F]> {
+    const key = session.chainKeys?.[family];
+    if (!key) {
+      throw new AgentPaymentError(
+        AgentPaymentErrorCode.SESSION_INVALID,
+        `Session ${session.keyHash} has no ${family} key`,
+        `Create the session with keyFamilies: ['${family}'] to sign natively on ${family}.`,
+        false
+      );
+    }
+    await this.assertNotRevoked(session);
+
+    const privateKey = await this.decryptKeyMaterial(key.encryptedPrivateKey, masterCredentialId);
+    return await restoreChainSigner(family, privateKey, {
+      starknetAccountClassHash: this.starknetAccountClassHash,
+    });
+  }
+
+  /**
+   * Session addresses per chain family: the EVM address plus every native key that has one.
+   */
+  getSessionAddresses(session: StoredSession): Partial<Record<ChainFamily, string>> {
+    const addresses: Partial<Record<ChainFamily, string>> = {
+      evm: session.walletAddress ?? ethers.computeAddress(session.publicKey),
+    };
+    for (const family of NATIVE_KEY_FAMILIES) {
+      const address = session.chainKeys?.[family]?.address;
+      if (address) {
+        addresses[family] = address;
+      }
+    }
+    return addresses;
+  }
+
+  /**
+   * Encrypt a private key for secure storage.
+   */
+  private async encryptPrivateKey(
+    privateKey: Uint8Array,
+    encryptionKey: CryptoKey
+  ): Promise<string> {
+    const encrypted = await encrypt(privateKey, encryptionKey);
+    return Buffer.from(encrypted).toString('base64');
+  }
+
+  private revokedResult(record: RevocationRecord): LimitCheckResult {
+    return {
+      allowed: false,
+      reason: record.reason ?? `Session ${record.keyHash} was revoked`,
+      code: AgentPaymentErrorCode.SESSION_REVOKED,
+      remainingDailyLimitUSD: 0,
+    };
+  }
+
+  private async decryptKeyMaterial(encryptedPrivateKey: string, masterCredentialId: string): Promise<Uint8Array> {
     // Derive encryption key if not cached
     if (!this.encryptionKey) {
       this.encryptionKey = await deriveEncryptionKey(masterCredentialId);
@@ -198,21 +1130,21 @@ export class SessionKeyManager {
     // Handle both encrypted (base64) and unencrypted (hex) formats
     // This provides backwards compatibility during migration
     // Check for raw private key (32 bytes = 66 chars including 0x prefix)
-    if (session.encryptedPrivateKey.startsWith('0x') && session.encryptedPrivateKey.length === 66) {
+    if (encryptedPrivateKey.startsWith('0x') && encryptedPrivateKey.length === 66) {
       // Unencrypted hex format (legacy/development)
       console.warn('[SessionKeyManager] Session using unencrypted private key - migrate to encrypted storage');
-      return ethers.getBytes(session.encryptedPrivateKey);
+      return ethers.getBytes(encryptedPrivateKey);
     }
 
     // If it starts with 0x but is longer, it's a HEX-encoded ENCRYPTED blob (from frontend)
     let encryptedBytes: Uint8Array;
 
-    if (session.encryptedPrivateKey.startsWith('0x')) {
-      encryptedBytes = ethers.getBytes(session.encryptedPrivateKey);
+    if (encryptedPrivateKey.startsWith('0x')) {
+      encryptedBytes = ethers.getBytes(encryptedPrivateKey);
     } else {
       // Assume Base64
       encryptedBytes = Uint8Array.from(
-        Buffer.from(session.encryptedPrivateKey, 'base64')
+        Buffer.from(encryptedPrivateKey, 'base64')
       );
     }
 
@@ -220,44 +1152,253 @@ export class SessionKeyManager {
   }
 
   /**
-   * Create an ethers Wallet from a session for signing.
-   * 
-   * Note: In production, consider using a more secure signing approach
-   * that doesn't expose the private key in memory.
+   * Keep a session instance live and schedule its expiry events, unless it already is.
    */
-  async getSessionWallet(
+  private remember(session: StoredSession): void {
+    if (this.liveSessions.get(session.keyHash) === session) return;
+    this.liveSessions.set(session.keyHash, session);
+    if (!session.successorKeyHash) {
+      this.events.track(session);
+    }
+  }
+
+  private requireDerivation(): SessionKeyDerivation {
+    if (!this.derivation) {
+      throw new AgentPaymentError(
+        AgentPaymentErrorCode.SESSION_INVALID,
+        'Session key derivation is not configured',
+        'Pass `derivation` (a SessionKeyDerivation) to the SessionKeyManager.',
+        false
+      );
+    }
+    return this.derivation;
+  }
+
+  /**
+   * Next unused derivation index for a master key: one past the highest index among stored
+   * and revoked sessions, so a revoked key is never derived again.
+   */
+  private async nextDerivationIndex(masterKey: PasskeyCredential): Promise<number> {
+    // Chained synchronously so concurrent session creation never shares an index
+    const next = this.nextIndexes.get(masterKey.keyHash) ?? this.scanDerivationIndex(masterKey.keyHash);
+    this.nextIndexes.set(masterKey.keyHash, next.then((index) => index + 1));
+    return await next;
+  }
+
+  private async scanDerivationIndex(masterKeyHash: string): Promise<number> {
+    const records = [
+      ...await this.storage.getAllSessions(),
+      ...await this.storage.getAllRevocations(),
+    ];
+    return records
+      .filter((r) => r.masterKeyHash === masterKeyHash && r.derivationIndex !== undefined)
+      .reduce((max, r) => Math.max(max, r.derivationIndex! + 1), 0);
+  }
+
+  private requireRegistry(): OnChainSessionRegistry {
+    if (!this.registry) {
+      throw new AgentPaymentError(
+        AgentPaymentErrorCode.SESSION_INVALID,
+        'No on-chain session registry is configured',
+        'Pass `registry` (an OnChainSessionRegistry) to the SessionKeyManager.',
+        false
+      );
+    }
+    return this.registry;
+  }
+
+  /**
+   * Follow rotations to the session that currently holds a session's spending state.
+   */
+  private async resolveSuccessor(session: StoredSession): Promise<StoredSession> {
+    let current = session;
+    while (current.successorKeyHash) {
+      const successor = await this.loadSession(current.successorKeyHash);
+      if (!successor) break;
+      current = successor;
+    }
+    return current;
+  }
+
+  /**
+   * Ancestors of a session that are already loaded, nearest first.
+   */
+  private getLiveAncestors(session: StoredSession): StoredSession[] {
+    const ancestors: StoredSession[] = [];
+    let parentKeyHash = session.parentKeyHash;
+    while (parentKeyHash) {
+      const parent = this.liveSessions.get(parentKeyHash);
+      if (!parent) break;
+      ancestors.push(parent);
+      parentKeyHash = parent.parentKeyHash;
+    }
+    return ancestors;
+  }
+
+  /**
+   * Load every ancestor of a session, nearest first.
+   *
+   * @returns `null` if any ancestor no longer exists (it was revoked)
+   */
+  private async resolveAncestors(session: StoredSession): Promise<StoredSession[] | null> {
+    const ancestors: StoredSession[] = [];
+    let parentKeyHash = session.parentKeyHash;
+    while (parentKeyHash) {
+      const parent = await this.loadSession(parentKeyHash);
+      if (!parent) return null;
+      ancestors.push(parent);
+      parentKeyHash = parent.parentKeyHash;
+    }
+    return ancestors;
+  }
+
+  /**
+   * Add the budget-currency amount to a payment context, for sessions not budgeted in USD.
+   * Ancestors share the session's currency, so the same amount applies up the chain.
+   */
+  private async withBudgetAmount(
     session: StoredSession,
-    masterCredentialId: string
-  ): Promise<ethers.Wallet> {
-    // Only treat as raw private key if it's 0x AND exactly 32 bytes (66 chars)
-    if (session.encryptedPrivateKey.startsWith('0x') && session.encryptedPrivateKey.length === 66) {
-      return new ethers.Wallet(session.encryptedPrivateKey);
+    amountUSD: number,
+    context: PaymentContext
+  ): Promise<PaymentContext> {
+    const currency = normalizeCurrency(session.config.currency);
+    if (currency === BASE_CURRENCY || context.budgetAmount !== undefined) {
+      return context;
     }
+    return { ...context, budgetAmount: await this.fx.fromUSD(amountUSD, currency) };
+  }
 
-    const privateKey = await this.getDecryptedPrivateKey(session, masterCredentialId);
-    return new ethers.Wallet(ethers.hexlify(privateKey));
+  /**
+   * Check a payment against every ancestor's limits.
+   *
+   * @returns The first failing result, or `null` if all ancestors allow it
+   */
+  private checkAncestorLimits(
+    session: StoredSession,
+    ancestors: StoredSession[],
+    amountUSD: number,
+    context: PaymentContext
+  ): LimitCheckResult | null {
+    for (const ancestor of ancestors) {
+      if (!this.isSessionValid(ancestor)) {
+        return {
+          allowed: false,
+          reason: `Parent session ${ancestor.keyHash} has expired`,
+          code: AgentPaymentErrorCode.SESSION_EXPIRED,
+          remainingDailyLimitUSD: 0,
+        };
+      }
+      const result = this.tracker.checkLimits(ancestor, amountUSD, context);
+      if (!result.allowed) {
+        return {
+          ...result,
+          reason: `Parent session ${ancestor.keyHash}: ${result.reason}`,
+          remainingDailyLimitUSD: Math.min(
+            result.remainingDailyLimitUSD,
+            session.config.dailyLimitUSD - this.tracker.getDailySpentUSD(session)
+          ),
+        };
+      }
+    }
+    return null;
   }
 
   /**
-   * Encrypt a private key for secure storage.
+   * Ensure a sub-session's limits fit inside what its parent has left.
    */
-  private async encryptPrivateKey(
-    privateKey: Uint8Array,
-    encryptionKey: CryptoKey
-  ): Promise<string> {
-    const encrypted = await encrypt(privateKey, encryptionKey);
-    return Buffer.from(encrypted).toString('base64');
+  private validateSubSessionConfig(parent: StoredSession, config: SessionKeyConfig): void {
+    const invalid = (message: string, remediation: string) =>
+      new AgentPaymentError(AgentPaymentErrorCode.SESSION_INVALID, message, remediation, false, {
+        parentKeyHash: parent.keyHash,
+      });
+
+    if (config.expiryTimestamp > parent.config.expiryTimestamp) {
+      throw invalid(
+        'Sub-session cannot outlive its parent session',
+        'Set expiryTimestamp at or before the parent session expiry.'
+      );
+    }
+
+    const parentCurrency = normalizeCurrency(parent.config.currency);
+    if (normalizeCurrency(config.currency) !== parentCurrency) {
+      throw invalid(
+        `Sub-session currency ${normalizeCurrency(config.currency)} differs from the parent's ${parentCurrency}`,
+        `Budget the sub-session in ${parentCurrency}.`
+      );
+    }
+
+    const extraChains = config.allowedChains.filter((c) => !parent.config.allowedChains.includes(c));
+    if (extraChains.length > 0) {
+      throw invalid(
+        `Sub-session chains [${extraChains.join(', ')}] are not allowed by the parent session`,
+        'Only use chains from the parent session allowedChains.'
+      );
+    }
+
+    if (parent.config.allowedTokens?.length) {
+      const parentTokens = parent.config.allowedTokens.map((t) => t.toLowerCase());
+      if (!config.allowedTokens?.length || config.allowedTokens.some((t) => !parentTokens.includes(t.toLowerCase()))) {
+        throw invalid(
+          'Sub-session tokens must be a subset of the parent session allowedTokens',
+          'Set allowedTokens to tokens the parent session may spend.'
+        );
+      }
+    }
+
+    if (config.perTransactionLimitUSD > parent.config.perTransactionLimitUSD) {
+      throw invalid(
+        'Sub-session per-transaction limit cannot exceed the parent per-transaction limit',
+        `Set perTransactionLimitUSD to at most ${parent.config.perTransactionLimitUSD}.`
+      );
+    }
+
+    const parentRemaining = parent.config.dailyLimitUSD - this.tracker.getDailySpentUSD(parent);
+    if (config.dailyLimitUSD > parentRemaining) {
+      throw invalid(
+        `Sub-session daily limit $${config.dailyLimitUSD} exceeds the parent's remaining daily budget $${parentRemaining}`,
+        `Set dailyLimitUSD to at most ${parentRemaining}.`
+      );
+    }
+
+    const parentBudgets = this.tracker.getBudgetStatus(parent);
+    for (const [token, limit] of Object.entries(config.tokenBudgets ?? {})) {
+      const parentKey = Object.keys(parentBudgets.tokens).find((k) => k.toLowerCase() === token.toLowerCase());
+      if (parentKey && limit > parentBudgets.tokens[parentKey].remaining) {
+        throw invalid(
+          `Sub-session ${token} budget exceeds the parent's remaining ${token} budget`,
+          `Set the ${token} budget to at most ${parentBudgets.tokens[parentKey].remaining}.`
+        );
+      }
+    }
+    for (const [chain, limit] of Object.entries(config.chainBudgetsUSD ?? {})) {
+      const parentChain = parentBudgets.chains[Number(chain)];
+      if (parentChain && limit > parentChain.remainingUSD) {
+        throw invalid(
+          `Sub-session budget for chain ${chain} exceeds the parent's remaining chain budget`,
+          `Set the chain ${chain} budget to at most ${parentChain.remainingUSD}.`
+        );
+      }
+    }
   }
 
   /**
    * Validate session configuration.
    */
   private validateConfig(config: SessionKeyConfig): void {
+    if (config.currency !== undefined && !/^[A-Za-z]{3}$/.test(config.currency)) {
+      throw new AgentPaymentError(
+        AgentPaymentErrorCode.SESSION_INVALID,
+        `Invalid session currency: ${config.currency}`,
+        "Use a three-letter ISO 4217 code such as 'USD' or 'EUR'.",
+        false
+      );
+    }
+
     if (config.dailyLimitUSD <= 0) {
       throw new AgentPaymentError(
         AgentPaymentErrorCode.SESSION_INVALID,
         'Daily limit must be greater than 0',
-        'Specify a positive daily spending limit in USD.',
+        'Specify a positive daily spending limit in the session currency.',
         false
       );
     }
@@ -266,7 +1407,7 @@ export class SessionKeyManager {
       throw new AgentPaymentError(
         AgentPaymentErrorCode.SESSION_INVALID,
         'Per-transaction limit must be greater than 0',
-        'Specify a positive per-transaction limit in USD.',
+        'Specify a positive per-transaction limit in the session currency.',
         false
       );
     }
@@ -290,7 +1431,7 @@ export class SessionKeyManager {
     }
 
     // Max session duration: 24 hours (86400 seconds)
-    const maxExpiry = Date.now() + 24 * 60 * 60 * 1000;
+    const maxExpiry = Date.now() + MAX_SESSION_DURATION_MS;
     if (config.expiryTimestamp > maxExpiry) {
       throw new AgentPaymentError(
         AgentPaymentErrorCode.SESSION_INVALID,
@@ -308,5 +1449,104 @@ export class SessionKeyManager {
         false
       );
     }
+
+    for (const [token, limit] of Object.entries(config.tokenBudgets ?? {})) {
+      if (!(limit > 0)) {
+        throw new AgentPaymentError(
+          AgentPaymentErrorCode.SESSION_INVALID,
+          `Token budget for ${token} must be greater than 0`,
+          'Specify positive daily token budgets in whole token units.',
+          false
+        );
+      }
+    }
+
+    for (const [chain, limit] of Object.entries(config.chainBudgetsUSD ?? {})) {
+      if (!(limit > 0)) {
+        throw new AgentPaymentError(
+          AgentPaymentErrorCode.SESSION_INVALID,
+          `Chain budget for chain ${chain} must be greater than 0`,
+          'Specify positive daily chain budgets in USD.',
+          false
+        );
+      }
+      if (!config.allowedChains.includes(Number(chain))) {
+        throw new AgentPaymentError(
+          AgentPaymentErrorCode.SESSION_INVALID,
+          `Chain budget set for chain ${chain}, which is not in allowedChains`,
+          'Only set chain budgets for chains listed in allowedChains.',
+          false
+        );
+      }
+    }
+
+    for (const window of config.windows ?? []) {
+      if (!(window.limitUSD > 0)) {
+        throw new AgentPaymentError(
+          AgentPaymentErrorCode.SESSION_INVALID,
+          'Spending window limit must be greater than 0',
+          'Specify a positive limitUSD for every spending window.',
+          false
+        );
+      }
+      if (window.type === 'rolling' && !(window.durationMs > 0)) {
+        throw new AgentPaymentError(
+          AgentPaymentErrorCode.SESSION_INVALID,
+          'Rolling window duration must be greater than 0',
+          'Specify durationMs in milliseconds, e.g. 60 * 60 * 1000 for one hour.',
+          false
+        );
+      }
+      if (window.type === 'calendar' && !['day', 'week', 'month'].includes(window.period)) {
+        throw new AgentPaymentError(
+          AgentPaymentErrorCode.SESSION_INVALID,
+          `Unknown calendar window period: ${window.period}`,
+          "Use 'day', 'week' or 'month'.",
+          false
+        );
+      }
+    }
+
+    for (const family of config.keyFamilies ?? []) {
+      if (!NATIVE_KEY_FAMILIES.includes(family)) {
+        throw new AgentPaymentError(
+          AgentPaymentErrorCode.SESSION_INVALID,
+          `Unknown key family: ${family}`,
+          `Use any of ${NATIVE_KEY_FAMILIES.join(', ')}; EVM keys are always created.`,
+          false
+        );
+      }
+    }
+
+    for (const limit of config.velocityLimits ?? []) {
+      if (!Number.isInteger(limit.maxCount) || limit.maxCount < 1) {
+        throw new AgentPaymentError(
+          AgentPaymentErrorCode.SESSION_INVALID,
+          'Velocity limit maxCount must be a positive integer',
+          'Specify how many payments are allowed per window, e.g. { maxCount: 10, windowMs: 60000 }.',
+          false
+        );
+      }
+      if (!(limit.windowMs > 0)) {
+        throw new AgentPaymentError(
+          AgentPaymentErrorCode.SESSION_INVALID,
+          'Velocity limit window must be greater than 0',
+          'Specify windowMs in milliseconds, e.g. 60 * 1000 for one minute.',
+          false
+        );
+      }
+    }
+
+    if (config.policy) {
+      const problems = new PolicyEngine().validate(config.policy);
+      if (problems.length > 0) {
+        throw new AgentPaymentError(
+          AgentPaymentErrorCode.SESSION_INVALID,
+          `Invalid spending policy: ${problems.join('; ')}`,
+          'Fix the listed policy rules and create the session again.',
+          false
+        );
+      }
+    }
   }
 }
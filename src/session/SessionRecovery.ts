@@ -0,0 +1,212 @@
+/**
+ * @packageDocumentation
+ * @module SessionRecovery
+ * @description
+ * Rebuilds session records and balances for deterministically derived session keys after
+ * their storage was lost.
+ *
+ * Recovery walks the derivation indexes from 0 and checks each derived session wallet: a
+ * stored or revoked record, a hub registration, a transaction history or a balance marks
+ * the index as used. The scan stops after `gapLimit` unused indexes in a row.
+ *
+ * The original limits are not part of the key. Rebuilt sessions take them from the hub when
+ * the session was registered there, otherwise from `config` (default: no budget and already
+ * expired, so the rebuilt session can only be swept).
+ *
+ * @example
+ * ```typescript
+ * const recovery = new SessionRecovery({
+ *   manager,
+ *   providers: { 10004: new ethers.JsonRpcProvider('https://sepolia.base.org') },
+ *   tokens: { 10004: { usdc: '0x036CbD53842c5426634e7929541eC2318f3dCF7e' } },
+ * });
+ * const { sessions, nextIndex } = await recovery.recover(masterKey);
+ * ```
+ */
+import { ethers } from 'ethers';
+import type { PasskeyCredential } from '@veridex/sdk';
+import type { SessionKeyManager } from './SessionKeyManager';
+import type { SessionKeyConfig, StoredSession } from './SessionStorage';
+import type { OnChainSessionRecord, OnChainSessionRegistry } from './OnChainSessionRegistry';
+import { AgentPaymentError, AgentPaymentErrorCode } from '../types/errors';
+
+const DEFAULT_GAP_LIMIT = 5;
+
+export interface SessionRecoveryConfig {
+  /** Manager configured with the same `derivation` the sessions were created with */
+  manager: SessionKeyManager;
+  /** Providers by Wormhole chain ID; only these chains are scanned */
+  providers: Record<number, ethers.Provider>;
+  /** ERC-20 tokens to check by Wormhole chain ID, as symbol to address */
+  tokens?: Record<number, Record<string, string>>;
+  /** Hub registry to read registered limits, spend and revocations from */
+  registry?: OnChainSessionRegistry;
+}
+
+export interface RecoverSessionsOptions {
+  /** First index to check (default: 0) */
+  start?: number;
+  /** Unused indexes in a row after which the scan stops (default: 5) */
+  gapLimit?: number;
+  /** Limits for rebuilt sessions the hub does not know */
+  config?: SessionKeyConfig;
+  /** Save rebuilt sessions to the manager's storage (default: true) */
+  restore?: boolean;
+}
+
+export interface SessionBalance {
+  chain: number;
+  /** Token symbol, or `native` */
+  token: string;
+  /** Amount in atomic units */
+  amount: string;
+}
+
+export interface RecoveredSession {
+  index: number;
+  address: string;
+  keyHash: string;
+  /**
+   * `stored`: the record was still in storage; `restored`: rebuilt and saved; `found`:
+   * rebuilt but not saved; `revoked`: revoked locally or on the hub, so not rebuilt
+   */
+  status: 'stored' | 'restored' | 'found' | 'revoked';
+  session?: StoredSession;
+  balances: SessionBalance[];
+  /** Transactions sent by the session wallet, across all scanned chains */
+  transactionCount: number;
+  onChain?: OnChainSessionRecord;
+}
+
+export interface SessionRecoveryResult {
+  sessions: RecoveredSession[];
+  /** First index after the last used one */
+  nextIndex: number;
+}
+
+export class SessionRecovery {
+  constructor(private config: SessionRecoveryConfig) { }
+
+  /**
+   * Scan derived session keys for a master credential and rebuild the records of used ones.
+   *
+   * @throws AgentPaymentError `SESSION_INVALID` if the manager has no derivation configured,
+   *   `RPC_ERROR` if a chain cannot be read
+   */
+  async recover(masterKey: PasskeyCredential, options: RecoverSessionsOptions = {}): Promise<SessionRecoveryResult> {
+    const { manager } = this.config;
+    const gapLimit = options.gapLimit ?? DEFAULT_GAP_LIMIT;
+    const sessions: RecoveredSession[] = [];
+    let index = options.start ?? 0;
+    let nextIndex = index;
+    let gap = 0;
+
+    while (gap < gapLimit) {
+      const [key] = await manager.deriveSessionKeys(masterKey, 1, index);
+      const stored = await manager.loadSession(key.keyHash);
+      const revocation = await manager.getRevocation(key.keyHash);
+      const onChain = (await this.config.registry?.getSession(key.keyHash)) ?? undefined;
+      const { balances, transactionCount } = await this.scanWallet(key.address);
+
+      if (!stored && !revocation && !onChain && transactionCount === 0 && balances.length === 0) {
+        gap++;
+        index++;
+        continue;
+      }
+
+      const recovered: RecoveredSession = {
+        index,
+        address: key.address,
+        keyHash: key.keyHash,
+        status: 'found',
+        balances,
+        transactionCount,
+        onChain,
+      };
+      if (revocation || onChain?.revoked) {
+        recovered.status = 'revoked';
+      } else if (stored) {
+        recovered.status = 'stored';
+        recovered.session = stored;
+      } else {
+        recovered.session = await this.rebuild(masterKey, index, onChain, options.config);
+        if (options.restore !== false) {
+          await manager.importSession(recovered.session);
+          recovered.status = 'restored';
+        }
+      }
+
+      sessions.push(recovered);
+      gap = 0;
+      index++;
+      nextIndex = index;
+    }
+
+    return { sessions, nextIndex };
+  }
+
+  private async rebuild(
+    masterKey: PasskeyCredential,
+    index: number,
+    onChain: OnChainSessionRecord | undefined,
+    fallback: SessionKeyConfig | undefined
+  ): Promise<StoredSession> {
+    const config: SessionKeyConfig = onChain
+      ? {
+        dailyLimitUSD: onChain.dailyLimitUSD,
+        perTransactionLimitUSD: onChain.perTransactionLimitUSD,
+        expiryTimestamp: onChain.expiryTimestamp,
+        allowedChains: onChain.allowedChains,
+      }
+      : fallback ?? {
+        dailyLimitUSD: 0,
+        perTransactionLimitUSD: 0,
+        expiryTimestamp: Date.now(),
+        allowedChains: Object.keys(this.config.providers).map(Number),
+      };
+
+    const session = await this.config.manager.rebuildDerivedSession(masterKey, index, config);
+    if (onChain) {
+      // Daily spend is adopted on the next syncOnChain(); lifetime spend is known now
+      session.metadata.totalSpentUSD = onChain.totalSpentUSD;
+    }
+    return session;
+  }
+
+  private async scanWallet(address: string): Promise<{ balances: SessionBalance[]; transactionCount: number }> {
+    const balances: SessionBalance[] = [];
+    let transactionCount = 0;
+
+    for (const [chainKey, provider] of Object.entries(this.config.providers)) {
+      const chain = Number(chainKey);
+      try {
+        transactionCount += await provider.getTransactionCount(address);
+        const native = await provider.getBalance(address);
+        if (native > 0n) {
+          balances.push({ chain, token: 'native', amount: native.toString() });
+        }
+        for (const [token, tokenAddress] of Object.entries(this.config.tokens?.[chain] ?? {})) {
+          const contract = new ethers.Contract(
+            tokenAddress,
+            ['function balanceOf(address owner) view returns (uint256)'],
+            provider
+          );
+          const amount: bigint = await contract.balanceOf(address);
+          if (amount > 0n) {
+            balances.push({ chain, token, amount: amount.toString() });
+          }
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new AgentPaymentError(
+          AgentPaymentErrorCode.RPC_ERROR,
+          `Failed to read session wallet ${address} on chain ${chain}: ${message}`,
+          'Check the RPC endpoint for this chain and retry the recovery.',
+          true,
+          { address, chain }
+        );
+      }
+    }
+    return { balances, transactionCount };
+  }
+}
@@ -9,16 +9,109 @@
  * Security Note:
  * - Session private keys are stored ENCRYPTED (AES-GCM).
  * - This module does NOT handle decryption; it only stores the encrypted blob.
- * - In a browser environment, this uses `localStorage`. In Node.js, it could be adapted to use
- *   a filesystem or database adapter.
+ * - Revoked sessions leave a {@link RevocationRecord} tombstone that outlives the session entry.
+ * - The backend is pluggable via {@link SessionStorageAdapter}. In a browser environment the
+ *   default is `localStorage`; in Node.js it falls back to process memory unless a filesystem,
+ *   SQLite or Redis adapter is supplied.
  */
-import { ethers } from 'ethers';
+import { LocalStorageAdapter } from './adapters/LocalStorageAdapter';
+import { MemoryStorageAdapter } from './adapters/MemoryStorageAdapter';
+import type { SpendingPolicy } from '../types/policy';
+import type { ChainKey, NativeKeyFamily } from './ChainKeys';
+import type { OnChainRegistration } from './OnChainSessionRegistry';
+
+/**
+ * Allow/deny list for a class of counterparties.
+ * Deny entries always win; when `allow` is non-empty, only listed values are accepted.
+ */
+export interface AccessList {
+  allow?: string[];
+  deny?: string[];
+}
+
+/**
+ * Additional USD cap over a time window, on top of the rolling 24h `dailyLimitUSD`.
+ * - `rolling`: the last `durationMs` milliseconds (e.g. last hour, last 7 days).
+ * - `calendar`: the current UTC day, ISO week (starting Monday) or month.
+ */
+export type SpendingWindow =
+  | { type: 'rolling'; durationMs: number; limitUSD: number }
+  | { type: 'calendar'; period: 'day' | 'week' | 'month'; limitUSD: number };
+
+/**
+ * Hard cap on how many payments a session may make within a rolling window, to stop
+ * runaway loops of small payments that stay under the USD limits.
+ */
+export interface VelocityLimit {
+  maxCount: number;
+  windowMs: number;
+  /** Count payments to each recipient separately instead of across the whole session */
+  perRecipient?: boolean;
+}
+
+/**
+ * A single recorded payment in a session's spending ledger.
+ */
+export interface SpendEntry {
+  timestamp: number;
+  amountUSD: number;
+  /** Amount in the session's budget currency, set when that is not USD */
+  amount?: number;
+  /** Token symbol or address as passed by the payment path (lowercased) */
+  token?: string;
+  /** Token symbol when `token` is an address (lowercased) */
+  tokenSymbol?: string;
+  /** Amount in whole token units */
+  tokenAmount?: number;
+  /** Wormhole chain ID */
+  chain?: number;
+  /** Recipient / x402 `payTo` address (lowercased), used by per-recipient velocity limits */
+  recipient?: string;
+  /** Spend observed elsewhere (e.g. on-chain) and added by a sync, not a payment made here */
+  adjustment?: boolean;
+}
+
+/**
+ * Spend held against a session's limits while a payment is in flight.
+ * `timestamp` is when the reservation was made.
+ */
+export interface SpendReservation extends SpendEntry {
+  id: string;
+  /** After this time the reservation no longer counts against limits */
+  expiresAt: number;
+}
 
 export interface SessionKeyConfig {
+  /**
+   * ISO 4217 currency the session budgets in (default: `USD`). Every amount limit
+   * (`dailyLimitUSD`, `perTransactionLimitUSD`, `chainBudgetsUSD`, `windows`, policy amounts)
+   * is then denominated in this currency and payments are converted at the current FX rate.
+   */
+  currency?: string;
   dailyLimitUSD: number;
   perTransactionLimitUSD: number;
   expiryTimestamp: number;
   allowedChains: number[];
+  /** Recipient addresses for direct transfers and x402 `payTo` (case-insensitive). */
+  recipients?: AccessList;
+  /** UCP business IDs the session may check out with. */
+  merchants?: AccessList;
+  /** HTTP origins (e.g. `https://api.example.com`) the session may pay for x402 resources. */
+  origins?: AccessList;
+  /** Tokens (symbols or addresses, case-insensitive) the session may spend. Unset = any token. */
+  allowedTokens?: string[];
+  /** Daily caps in whole token units keyed by symbol or address, e.g. `{ USDC: 50, ETH: 0.01 }`. */
+  tokenBudgets?: Record<string, number>;
+  /** Daily caps in USD keyed by Wormhole chain ID. */
+  chainBudgetsUSD?: Record<number, number>;
+  /** Extra USD caps over rolling or calendar windows (e.g. $20 per hour, $500 per UTC month). */
+  windows?: SpendingWindow[];
+  /** Non-EVM chain families to generate native keys for (ed25519 for Solana/Aptos/Sui, Stark for Starknet). */
+  keyFamilies?: NativeKeyFamily[];
+  /** Payment count caps, e.g. `{ maxCount: 10, windowMs: 60_000 }` for 10 payments per minute. */
+  velocityLimits?: VelocityLimit[];
+  /** Declarative rules evaluated after the built-in limits; can deny payments or require human approval. */
+  policy?: SpendingPolicy;
 }
 
 export interface StoredSession {
@@ -30,51 +123,120 @@ export interface StoredSession {
     createdAt: number;
     lastUsedAt: number;
     totalSpentUSD: number;
+    /** Lifetime spend in the budget currency, for sessions not budgeted in USD */
+    totalSpent?: number;
+    /** Rolling 24h spend as of the last recorded payment */
     dailySpentUSD: number;
+    /** When the oldest payment in the rolling 24h window ages out */
     dailyResetAt: number;
     transactionCount: number;
+    /**
+     * Timestamped payments used for rolling and calendar windows. Sessions written
+     * before the ledger existed fall back to `dailySpentUSD`/`dailyResetAt`.
+     */
+    ledger?: SpendEntry[];
+    /** Pending reservations, counted against limits until committed, released or expired */
+    reservations?: SpendReservation[];
   };
   masterKeyHash: string; // Reference to master passkey
+  parentKeyHash?: string; // Parent session when this is a delegated sub-session
+  predecessorKeyHash?: string; // Session this one replaced on rotation
+  successorKeyHash?: string; // Session that replaced this one on rotation
   walletAddress?: string; // Derived EVM address
+  chainKeys?: Partial<Record<NativeKeyFamily, ChainKey>>; // Native keys for non-EVM chain families
+  onChain?: OnChainRegistration; // Hub registration, when the session's limits are also enforced on-chain
+  externalSigner?: boolean; // Key held by a SessionSigner outside this process; no key material stored
+  derivationIndex?: number; // Index of a deterministically derived key (see SessionKeyDerivation)
+}
+
+/**
+ * Tombstone left behind when a session is revoked, so copies of the session held
+ * elsewhere (another process, a worker agent) can no longer sign.
+ */
+export interface RevocationRecord {
+  keyHash: string;
+  revokedAt: number;
+  /** Who revoked the session, e.g. a master key hash, `mcp` or an operator ID */
+  actor?: string;
+  reason?: string;
+  masterKeyHash?: string;
+  parentKeyHash?: string;
+  /** Hub revocation transaction, for sessions registered on-chain */
+  onChainTxHash?: string;
+  /** Why the hub revocation failed; the session is still revoked locally */
+  onChainError?: string;
+  /** Derivation index of the revoked key, so it is never derived again */
+  derivationIndex?: number;
+}
+
+/**
+ * Minimal key-value contract implemented by every session storage backend.
+ *
+ * Values are opaque JSON strings; key prefixes are managed by {@link SessionStorage}.
+ */
+export interface SessionStorageAdapter {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+  /** List all keys starting with `prefix`. */
+  keys(prefix: string): Promise<string[]>;
 }
 
 export class SessionStorage {
   private static readonly STORAGE_KEY_PREFIX = 'veridex_session_';
+  private static readonly REVOCATION_KEY_PREFIX = 'veridex_revoked_';
+  private adapter: SessionStorageAdapter;
+
+  constructor(adapter?: SessionStorageAdapter) {
+    this.adapter = adapter ?? (
+      typeof localStorage !== 'undefined' ? new LocalStorageAdapter() : new MemoryStorageAdapter()
+    );
+  }
 
   async saveSession(session: StoredSession): Promise<void> {
     const key = `${SessionStorage.STORAGE_KEY_PREFIX}${session.keyHash}`;
-    if (typeof localStorage !== 'undefined') {
-      localStorage.setItem(key, JSON.stringify(session));
-    }
+    await this.adapter.set(key, JSON.stringify(session));
   }
 
   async getSession(keyHash: string): Promise<StoredSession | null> {
     const key = `${SessionStorage.STORAGE_KEY_PREFIX}${keyHash}`;
-    if (typeof localStorage !== 'undefined') {
-      const data = localStorage.getItem(key);
-      return data ? JSON.parse(data) : null;
-    }
-    return null;
+    const data = await this.adapter.get(key);
+    return data ? JSON.parse(data) : null;
   }
 
   async removeSession(keyHash: string): Promise<void> {
     const key = `${SessionStorage.STORAGE_KEY_PREFIX}${keyHash}`;
-    if (typeof localStorage !== 'undefined') {
-      localStorage.removeItem(key);
-    }
+    await this.adapter.remove(key);
   }
 
   async getAllSessions(): Promise<StoredSession[]> {
     const sessions: StoredSession[] = [];
-    if (typeof localStorage !== 'undefined') {
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key?.startsWith(SessionStorage.STORAGE_KEY_PREFIX)) {
-          const data = localStorage.getItem(key);
-          if (data) sessions.push(JSON.parse(data));
-        }
-      }
+    const keys = await this.adapter.keys(SessionStorage.STORAGE_KEY_PREFIX);
+    for (const key of keys) {
+      const data = await this.adapter.get(key);
+      if (data) sessions.push(JSON.parse(data));
     }
     return sessions;
   }
+
+  async saveRevocation(record: RevocationRecord): Promise<void> {
+    const key = `${SessionStorage.REVOCATION_KEY_PREFIX}${record.keyHash}`;
+    await this.adapter.set(key, JSON.stringify(record));
+  }
+
+  async getRevocation(keyHash: string): Promise<RevocationRecord | null> {
+    const key = `${SessionStorage.REVOCATION_KEY_PREFIX}${keyHash}`;
+    const data = await this.adapter.get(key);
+    return data ? JSON.parse(data) : null;
+  }
+
+  async getAllRevocations(): Promise<RevocationRecord[]> {
+    const records: RevocationRecord[] = [];
+    const keys = await this.adapter.keys(SessionStorage.REVOCATION_KEY_PREFIX);
+    for (const key of keys) {
+      const data = await this.adapter.get(key);
+      if (data) records.push(JSON.parse(data));
+    }
+    return records;
+  }
 }
@@ -4,68 +4,710 @@
  * @description
  * Enforces spending limits for active sessions.
  * 
- * This class tracks cumulative spending (in USD) against the session's configured limits:
- * - **Daily Limit**: Maximum USD spent within a 24-hour rolling window.
+ * This class records every payment in a timestamped ledger and checks it against the
+ * session's configured limits:
+ * - **Daily Limit**: Maximum USD spent within a true rolling 24-hour window.
  * - **Per-Transaction Limit**: Maximum USD allowed for a single atomic transaction.
+ * - **Windows**: Optional extra caps over rolling durations (last hour, last 7 days) or
+ *   UTC calendar periods (day, week, month).
+ * - **Sub-Budgets**: Optional rolling 24h caps per token (in token units) and per chain (in USD),
+ *   plus allowed token/chain lists.
+ * - **Counterparty Lists**: Allow/deny lists for recipients, UCP merchants and HTTP origins.
+ * - **Velocity Limits**: Optional caps on the number of payments per rolling window, across
+ *   the session or per recipient.
+ * - **Policy**: An optional declarative {@link SpendingPolicy}, evaluated after the built-in
+ *   checks, that can deny a payment or require human approval. Its decision trace is
+ *   returned with the result.
  * 
- * It manages the state updates for `dailySpentUSD` and strictly returns `false` if
- * a requested transaction would breach these policies.
+ * Amounts are checked in the session's budget currency (`config.currency`, USD by default).
+ * Payment paths pass the USD value and, for other currencies, the converted `budgetAmount`;
+ * the ledger keeps both.
+ * 
+ * Failed budget and velocity checks report `resetsAt`, the exact time enough budget (or
+ * payment count) frees up.
+ * In-flight payments can hold budget through reservations, which count against every
+ * limit until they are committed to the ledger, released or expire.
+ */
+import { StoredSession, AccessList, SpendEntry, SpendingWindow, SpendReservation, VelocityLimit } from './SessionStorage';
+import { AgentPaymentErrorCode } from '../types/errors';
+import { PolicyDecision } from '../types/policy';
+import { PolicyEngine } from '../policy/PolicyEngine';
+import { BASE_CURRENCY, normalizeCurrency } from '../oracle/FxRates';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Who and what a payment is for. Each constraint in the session config is only
+ * enforced when the matching field is provided by the payment path.
  */
-import { StoredSession } from './SessionStorage';
+export interface PaymentContext {
+  /** Recipient address (direct transfer target or x402 `payTo`) */
+  recipient?: string;
+  /** UCP business ID */
+  businessId?: string;
+  /** Origin of the HTTP resource being paid for */
+  origin?: string;
+  /** Token symbol or address being spent */
+  token?: string;
+  /** Token symbol when `token` is an address, so symbol-keyed budgets still match */
+  tokenSymbol?: string;
+  /** Amount in whole token units (e.g. 1.5 for 1.5 USDC) */
+  tokenAmount?: number;
+  /** Wormhole chain ID the payment settles on */
+  chain?: number;
+  /** Set once a human approved this payment; satisfies `require_approval` policy rules */
+  approved?: boolean;
+  /**
+   * Amount in the session's budget currency, for sessions not budgeted in USD. Set by
+   * {@link SessionKeyManager} from the USD amount; limits are checked against it.
+   */
+  budgetAmount?: number;
+}
 
 export interface LimitCheckResult {
   allowed: boolean;
   reason?: string;
+  /** Error code to surface when the check fails */
+  code?: AgentPaymentErrorCode;
+  /** Remaining rolling 24h budget, in the session's budget currency */
   remainingDailyLimitUSD: number;
+  /**
+   * Unix ms timestamp at which enough budget frees up for the requested amount.
+   * Unset when the check passed, failed for a non-budget reason, or waiting will not help.
+   */
+  resetsAt?: number;
+  /** Milliseconds until `resetsAt`, set when a velocity limit was hit */
+  retryAfterMs?: number;
+  /** Session policy decision and trace, when the session has a policy and the built-in checks passed */
+  policy?: PolicyDecision;
+}
+
+export interface ReservationResult extends LimitCheckResult {
+  /** Set when `allowed` is true */
+  reservation?: SpendReservation;
+}
+
+export interface TokenBudgetStatus {
+  limit: number;
+  spent: number;
+  remaining: number;
+}
+
+export interface ChainBudgetStatus {
+  limitUSD: number;
+  spentUSD: number;
+  remainingUSD: number;
+}
+
+export interface WindowStatus {
+  window: SpendingWindow;
+  spentUSD: number;
+  remainingUSD: number;
+  /** Rolling windows: when the oldest counted payment ages out. Calendar windows: start of the next period. */
+  resetsAt?: number;
+}
+
+export interface BudgetStatus {
+  tokens: Record<string, TokenBudgetStatus>;
+  chains: Record<number, ChainBudgetStatus>;
+  windows: WindowStatus[];
+}
+
+/** A window resolved against the current time: entries at or after `since` count toward it. */
+interface ResolvedWindow {
+  since: number;
+  /** Rolling duration, or `undefined` for calendar windows */
+  durationMs?: number;
+  /** Start of the next calendar period */
+  nextPeriodAt?: number;
 }
 
 export class SpendingTracker {
-  checkLimits(session: StoredSession, amountUSD: number): LimitCheckResult {
+  private policyEngine = new PolicyEngine();
+
+  checkLimits(session: StoredSession, amountUSD: number, context: PaymentContext = {}): LimitCheckResult {
     const now = Date.now();
-    let { dailySpentUSD, dailyResetAt } = session.metadata;
+    const ledger = this.getEffectiveLedger(session, now);
+    const daily = this.resolveRolling(now, DAY_MS);
+    const amount = context.budgetAmount ?? amountUSD;
+    const format = amountFormatter(session);
+    const dailySpent = sumSince(ledger, daily.since, budgetOf);
+    const remainingDailyLimitUSD = session.config.dailyLimitUSD - dailySpent;
+
+    // Check counterparty allow/deny lists before any amount checks
+    const counterpartyResult = this.checkCounterparty(session, context);
+    if (counterpartyResult) {
+      return { ...counterpartyResult, remainingDailyLimitUSD };
+    }
+
+    // Check token/chain restrictions
+    if (context.chain !== undefined && !session.config.allowedChains.includes(context.chain)) {
+      return {
+        allowed: false,
+        reason: `Chain ${context.chain} is not in the session's allowed chains [${session.config.allowedChains.join(', ')}]`,
+        code: AgentPaymentErrorCode.CHAIN_NOT_SUPPORTED,
+        remainingDailyLimitUSD
+      };
+    }
 
-    // Reset daily limit if 24h passed
-    if (now > dailyResetAt) {
-      dailySpentUSD = 0;
-      dailyResetAt = now + 24 * 60 * 60 * 1000;
+    const tokenKeys = getTokenKeys(context);
+    const { allowedTokens } = session.config;
+    if (tokenKeys.length > 0 && allowedTokens && allowedTokens.length > 0 &&
+      !allowedTokens.some((t) => tokenKeys.includes(t.toLowerCase()))) {
+      return {
+        allowed: false,
+        reason: `Token ${context.tokenSymbol || context.token} is not in the session's allowed tokens`,
+        code: AgentPaymentErrorCode.TOKEN_NOT_SUPPORTED,
+        remainingDailyLimitUSD
+      };
     }
 
     // Check per-transaction limit
-    if (amountUSD > session.config.perTransactionLimitUSD) {
+    if (amount > session.config.perTransactionLimitUSD) {
       return {
         allowed: false,
-        reason: `Transaction amount $${amountUSD} exceeds per-transaction limit $${session.config.perTransactionLimitUSD}`,
-        remainingDailyLimitUSD: session.config.dailyLimitUSD - dailySpentUSD
+        reason: `Transaction amount ${format(amount)} exceeds per-transaction limit ${format(session.config.perTransactionLimitUSD)}`,
+        code: AgentPaymentErrorCode.TRANSACTION_LIMIT_EXCEEDED,
+        remainingDailyLimitUSD
       };
     }
 
-    // Check daily limit
-    if (dailySpentUSD + amountUSD > session.config.dailyLimitUSD) {
+    // Check payment count caps
+    for (const limit of session.config.velocityLimits ?? []) {
+      const velocityResult = this.checkVelocity(ledger, limit, context, now);
+      if (velocityResult) {
+        return { ...velocityResult, remainingDailyLimitUSD };
+      }
+    }
+
+    // Check rolling 24h limit
+    if (dailySpent + amount > session.config.dailyLimitUSD) {
       return {
         allowed: false,
-        reason: `Transaction amount $${amountUSD} exceeds remaining daily limit $${session.config.dailyLimitUSD - dailySpentUSD}`,
-        remainingDailyLimitUSD: session.config.dailyLimitUSD - dailySpentUSD
+        reason: `Transaction amount ${format(amount)} exceeds remaining daily limit ${format(remainingDailyLimitUSD)}`,
+        code: AgentPaymentErrorCode.DAILY_LIMIT_EXCEEDED,
+        remainingDailyLimitUSD,
+        resetsAt: this.findResetTime(ledger, daily, session.config.dailyLimitUSD, amount, budgetOf)
       };
     }
 
+    // Check additional rolling/calendar windows
+    for (const window of session.config.windows ?? []) {
+      const resolved = this.resolveWindow(window, now);
+      const spent = sumSince(ledger, resolved.since, budgetOf);
+      if (spent + amount > window.limitUSD) {
+        return {
+          allowed: false,
+          reason: `Transaction amount ${format(amount)} exceeds remaining ${format(window.limitUSD - spent)} of the ${describeWindow(window)} limit`,
+          code: AgentPaymentErrorCode.WINDOW_LIMIT_EXCEEDED,
+          remainingDailyLimitUSD,
+          resetsAt: this.findResetTime(ledger, resolved, window.limitUSD, amount, budgetOf)
+        };
+      }
+    }
+
+    // Check per-token budget
+    const budgetKey = this.findTokenBudgetKey(session, tokenKeys);
+    if (budgetKey && context.tokenAmount !== undefined) {
+      const limit = session.config.tokenBudgets![budgetKey];
+      const tokenOf = tokenAmountOf(budgetKey);
+      const spent = sumSince(ledger, daily.since, tokenOf);
+      if (spent + context.tokenAmount > limit) {
+        return {
+          allowed: false,
+          reason: `Transaction amount ${context.tokenAmount} ${budgetKey} exceeds remaining ${budgetKey} budget ${limit - spent}`,
+          code: AgentPaymentErrorCode.TOKEN_LIMIT_EXCEEDED,
+          remainingDailyLimitUSD,
+          resetsAt: this.findResetTime(ledger, daily, limit, context.tokenAmount, tokenOf)
+        };
+      }
+    }
+
+    // Check per-chain budget
+    const chainLimit = context.chain !== undefined ? session.config.chainBudgetsUSD?.[context.chain] : undefined;
+    if (chainLimit !== undefined) {
+      const chainOf = chainBudgetOf(context.chain!);
+      const spent = sumSince(ledger, daily.since, chainOf);
+      if (spent + amount > chainLimit) {
+        return {
+          allowed: false,
+          reason: `Transaction amount ${format(amount)} exceeds remaining budget ${format(chainLimit - spent)} for chain ${context.chain}`,
+          code: AgentPaymentErrorCode.CHAIN_LIMIT_EXCEEDED,
+          remainingDailyLimitUSD,
+          resetsAt: this.findResetTime(ledger, daily, chainLimit, amount, chainOf)
+        };
+      }
+    }
+
+    // Evaluate the session's declarative policy
+    let policy: PolicyDecision | undefined;
+    if (session.config.policy) {
+      policy = this.policyEngine.evaluate(session.config.policy, { amountUSD: amount, context, history: ledger, now });
+      if (policy.action === 'deny') {
+        return {
+          allowed: false,
+          reason: policy.explanation,
+          code: AgentPaymentErrorCode.POLICY_DENIED,
+          remainingDailyLimitUSD,
+          policy
+        };
+      }
+      if (policy.action === 'require_approval' && !context.approved) {
+        return {
+          allowed: false,
+          reason: policy.explanation,
+          code: AgentPaymentErrorCode.APPROVAL_REQUIRED,
+          remainingDailyLimitUSD,
+          policy
+        };
+      }
+    }
+
     return {
       allowed: true,
-      remainingDailyLimitUSD: session.config.dailyLimitUSD - (dailySpentUSD + amountUSD)
+      remainingDailyLimitUSD: session.config.dailyLimitUSD - (dailySpent + amount),
+      policy
     };
   }
 
-  recordSpending(session: StoredSession, amountUSD: number): void {
+  /**
+   * Check the payment counterparties against the session's allow/deny lists.
+   *
+   * @returns A failed check result, or `null` if every provided counterparty is permitted
+   */
+  checkCounterparty(
+    session: StoredSession,
+    context: PaymentContext
+  ): Omit<LimitCheckResult, 'remainingDailyLimitUSD'> | null {
+    const { recipients, merchants, origins } = session.config;
+
+    if (context.recipient !== undefined && !this.isPermitted(recipients, context.recipient, normalizeAddress)) {
+      return {
+        allowed: false,
+        reason: `Recipient ${context.recipient} is not permitted for this session`,
+        code: AgentPaymentErrorCode.RECIPIENT_NOT_ALLOWED,
+      };
+    }
+
+    if (context.businessId !== undefined && !this.isPermitted(merchants, context.businessId, (v) => v)) {
+      return {
+        allowed: false,
+        reason: `Merchant ${context.businessId} is not permitted for this session`,
+        code: AgentPaymentErrorCode.MERCHANT_NOT_ALLOWED,
+      };
+    }
+
+    if (context.origin !== undefined && !this.isPermitted(origins, context.origin, normalizeOrigin)) {
+      return {
+        allowed: false,
+        reason: `Origin ${context.origin} is not permitted for this session`,
+        code: AgentPaymentErrorCode.ORIGIN_NOT_ALLOWED,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Check limits (including other pending reservations) and, if allowed, hold the amount
+   * in the same synchronous step so concurrent payments cannot both pass.
+   */
+  reserve(session: StoredSession, amountUSD: number, context: PaymentContext, ttlMs: number): ReservationResult {
     const now = Date.now();
+    session.metadata.reservations = this.getActiveReservations(session, now);
 
-    // Reset daily limit if 24h passed
-    if (now > session.metadata.dailyResetAt) {
-      session.metadata.dailySpentUSD = 0;
-      session.metadata.dailyResetAt = now + 24 * 60 * 60 * 1000;
+    const result = this.checkLimits(session, amountUSD, context);
+    if (!result.allowed) {
+      return result;
     }
 
-    session.metadata.dailySpentUSD += amountUSD;
-    session.metadata.totalSpentUSD += amountUSD;
+    const reservation: SpendReservation = {
+      ...toSpendEntry(now, amountUSD, context),
+      id: `res_${now.toString(36)}_${Math.random().toString(36).slice(2, 10)}`,
+      expiresAt: now + ttlMs,
+    };
+    session.metadata.reservations.push(reservation);
+
+    return { ...result, reservation };
+  }
+
+  /**
+   * Hold an existing reservation against another session without re-checking limits
+   * (used to mirror a sub-session reservation into its ancestors).
+   */
+  holdReservation(session: StoredSession, reservation: SpendReservation): void {
+    session.metadata.reservations = [...this.getActiveReservations(session, Date.now()), reservation];
+  }
+
+  /**
+   * Move a reservation into the ledger. When the settled amount differs from the
+   * reserved one, the token and budget-currency amounts are scaled proportionally.
+   */
+  commitReservation(session: StoredSession, reservation: SpendReservation, actualAmountUSD?: number): void {
+    this.releaseReservation(session, reservation);
+
+    const amountUSD = actualAmountUSD ?? reservation.amountUSD;
+    const scale = (value: number | undefined) => value !== undefined && reservation.amountUSD > 0
+      ? value * (amountUSD / reservation.amountUSD)
+      : value;
+
+    this.recordSpending(session, amountUSD, {
+      token: reservation.token,
+      tokenSymbol: reservation.tokenSymbol,
+      tokenAmount: scale(reservation.tokenAmount),
+      chain: reservation.chain,
+      recipient: reservation.recipient,
+      budgetAmount: scale(reservation.amount),
+    });
+  }
+
+  /**
+   * Drop a reservation without recording any spend.
+   *
+   * @returns `true` if the reservation was still pending
+   */
+  releaseReservation(session: StoredSession, reservation: SpendReservation): boolean {
+    const reservations = session.metadata.reservations ?? [];
+    const remaining = reservations.filter((r) => r.id !== reservation.id);
+    session.metadata.reservations = remaining;
+    return remaining.length !== reservations.length;
+  }
+
+  recordSpending(session: StoredSession, amountUSD: number, context: PaymentContext = {}): void {
+    const now = Date.now();
+    this.appendEntry(session, toSpendEntry(now, amountUSD, context), now);
     session.metadata.lastUsedAt = now;
     session.metadata.transactionCount += 1;
   }
+
+  /**
+   * Raise the rolling 24h spend to a total observed elsewhere (e.g. spend the hub recorded
+   * from other holders of the session key) with an adjustment entry. Spend is never lowered,
+   * since local payments may not have been seen by the other side yet. Adjustments count
+   * against amount limits but not against payment counts. Only used for USD-budgeted
+   * sessions, since the hub tracks spend in USD.
+   *
+   * @returns USD added to the ledger
+   */
+  reconcile(session: StoredSession, observedDailySpentUSD: number): number {
+    const deltaUSD = observedDailySpentUSD - this.getDailySpentUSD(session);
+    if (deltaUSD <= EPSILON) return 0;
+
+    const now = Date.now();
+    this.appendEntry(session, { timestamp: now, amountUSD: deltaUSD, adjustment: true }, now);
+    return deltaUSD;
+  }
+
+  /**
+   * Copy a session's spending state onto its rotation successor: the ledger entries any
+   * window can still see, pending reservations and the lifetime totals. The successor
+   * therefore starts with exactly the budget the old session had left.
+   */
+  carryOver(from: StoredSession, to: StoredSession): void {
+    const now = Date.now();
+    const horizon = now - this.getRetentionMs(to);
+    const ledger = this.getLedger(from, now).filter((e) => e.timestamp > horizon);
+    const daily = ledger.filter((e) => e.timestamp > now - DAY_MS);
+
+    to.metadata.ledger = [...ledger];
+    to.metadata.reservations = this.getActiveReservations(from, now).map((r) => ({ ...r }));
+    to.metadata.dailySpentUSD = daily.reduce((sum, e) => sum + e.amountUSD, 0);
+    to.metadata.dailyResetAt = daily.length > 0 ? daily[0].timestamp + DAY_MS : now + DAY_MS;
+    to.metadata.totalSpentUSD = from.metadata.totalSpentUSD;
+    to.metadata.totalSpent = from.metadata.totalSpent;
+    to.metadata.transactionCount = from.metadata.transactionCount;
+  }
+
+  private appendEntry(session: StoredSession, entry: SpendEntry, now: number): void {
+    // Drop entries no window can see any more
+    const horizon = now - this.getRetentionMs(session);
+    const ledger = this.getLedger(session, now).filter((e) => e.timestamp > horizon);
+    ledger.push(entry);
+    session.metadata.ledger = ledger;
+
+    // Keep the legacy summary fields in sync for display and older readers
+    const daily = ledger.filter((e) => e.timestamp > now - DAY_MS);
+    session.metadata.dailySpentUSD = daily.reduce((sum, e) => sum + e.amountUSD, 0);
+    session.metadata.dailyResetAt = daily[0].timestamp + DAY_MS;
+    session.metadata.totalSpentUSD += entry.amountUSD;
+    if (entry.amount !== undefined) {
+      session.metadata.totalSpent = (session.metadata.totalSpent ?? 0) + entry.amount;
+    }
+  }
+
+  /**
+   * Amount spent in the rolling 24h window ending now, in the session's budget currency.
+   */
+  getDailySpentUSD(session: StoredSession): number {
+    const now = Date.now();
+    return sumSince(this.getLedger(session, now), this.resolveRolling(now, DAY_MS).since, budgetOf);
+  }
+
+  /**
+   * Report spent and remaining amounts for every configured token, chain and time-window budget.
+   */
+  getBudgetStatus(session: StoredSession): BudgetStatus {
+    const now = Date.now();
+    const ledger = this.getEffectiveLedger(session, now);
+    const since = this.resolveRolling(now, DAY_MS).since;
+    const status: BudgetStatus = { tokens: {}, chains: {}, windows: [] };
+
+    for (const [token, limit] of Object.entries(session.config.tokenBudgets ?? {})) {
+      const spent = sumSince(ledger, since, tokenAmountOf(token));
+      status.tokens[token] = { limit, spent, remaining: Math.max(0, limit - spent) };
+    }
+
+    for (const [chain, limitUSD] of Object.entries(session.config.chainBudgetsUSD ?? {})) {
+      const spentUSD = sumSince(ledger, since, chainBudgetOf(Number(chain)));
+      status.chains[Number(chain)] = { limitUSD, spentUSD, remainingUSD: Math.max(0, limitUSD - spentUSD) };
+    }
+
+    for (const window of session.config.windows ?? []) {
+      const resolved = this.resolveWindow(window, now);
+      const spentUSD = sumSince(ledger, resolved.since, budgetOf);
+      const oldest = ledger.find((e) => e.timestamp >= resolved.since);
+      status.windows.push({
+        window,
+        spentUSD,
+        remainingUSD: Math.max(0, window.limitUSD - spentUSD),
+        resetsAt: resolved.durationMs !== undefined
+          ? (oldest ? oldest.timestamp + resolved.durationMs : undefined)
+          : resolved.nextPeriodAt,
+      });
+    }
+
+    return status;
+  }
+
+  /**
+   * The session's payment ledger, oldest first. Sessions persisted before the ledger
+   * existed are represented by a single entry for their current daily total, dated so
+   * that it ages out at the old `dailyResetAt`.
+   */
+  private getLedger(session: StoredSession, now: number): SpendEntry[] {
+    if (session.metadata.ledger) {
+      return session.metadata.ledger;
+    }
+    const { dailySpentUSD, dailyResetAt } = session.metadata;
+    if (dailySpentUSD > 0 && now <= dailyResetAt) {
+      return [{ timestamp: dailyResetAt - DAY_MS, amountUSD: dailySpentUSD }];
+    }
+    return [];
+  }
+
+  /**
+   * Committed ledger plus unexpired reservations, oldest first. Used for every limit check.
+   */
+  private getEffectiveLedger(session: StoredSession, now: number): SpendEntry[] {
+    const reservations = this.getActiveReservations(session, now);
+    const ledger = this.getLedger(session, now);
+    if (reservations.length === 0) {
+      return ledger;
+    }
+    return [...ledger, ...reservations].sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  private getActiveReservations(session: StoredSession, now: number): SpendReservation[] {
+    return (session.metadata.reservations ?? []).filter((r) => r.expiresAt > now);
+  }
+
+  /**
+   * Check a velocity limit: the payment fails if it would exceed the limit's payment count
+   * in its rolling window.
+   */
+  private checkVelocity(
+    ledger: SpendEntry[],
+    limit: VelocityLimit,
+    context: PaymentContext,
+    now: number
+  ): Omit<LimitCheckResult, 'remainingDailyLimitUSD'> | null {
+    let entries = ledger;
+    let scope = 'this session';
+    if (limit.perRecipient) {
+      // Without a recipient there is nothing to count against
+      if (context.recipient === undefined) return null;
+      const recipient = normalizeAddress(context.recipient);
+      entries = ledger.filter((e) => e.recipient === recipient);
+      scope = `recipient ${context.recipient}`;
+    }
+
+    const window = this.resolveRolling(now, limit.windowMs);
+    const count = sumSince(entries, window.since, countOf);
+    if (count + 1 <= limit.maxCount) return null;
+
+    const resetsAt = this.findResetTime(entries, window, limit.maxCount, 1, countOf);
+    return {
+      allowed: false,
+      reason: `${count} payments to ${scope} in the last ${describeDuration(limit.windowMs)} reached the limit of ${limit.maxCount}`,
+      code: AgentPaymentErrorCode.VELOCITY_LIMIT_EXCEEDED,
+      resetsAt,
+      retryAfterMs: resetsAt !== undefined ? resetsAt - now : undefined,
+    };
+  }
+
+  /**
+   * How far back the ledger must reach to evaluate every configured window.
+   */
+  private getRetentionMs(session: StoredSession): number {
+    let retention = DAY_MS;
+    for (const limit of session.config.velocityLimits ?? []) {
+      retention = Math.max(retention, limit.windowMs);
+    }
+    for (const window of session.config.windows ?? []) {
+      const span = window.type === 'rolling'
+        ? window.durationMs
+        : window.period === 'month' ? 31 * DAY_MS : window.period === 'week' ? 7 * DAY_MS : DAY_MS;
+      retention = Math.max(retention, span);
+    }
+    return retention;
+  }
+
+  private resolveRolling(now: number, durationMs: number): ResolvedWindow {
+    // Entries strictly newer than `now - durationMs` are inside the window
+    return { since: now - durationMs + 1, durationMs };
+  }
+
+  private resolveWindow(window: SpendingWindow, now: number): ResolvedWindow {
+    if (window.type === 'rolling') {
+      return this.resolveRolling(now, window.durationMs);
+    }
+
+    const date = new Date(now);
+    const dayStart = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+    switch (window.period) {
+      case 'day':
+        return { since: dayStart, nextPeriodAt: dayStart + DAY_MS };
+      case 'week': {
+        // ISO weeks start on Monday
+        const weekStart = dayStart - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+        return { since: weekStart, nextPeriodAt: weekStart + 7 * DAY_MS };
+      }
+      case 'month':
+        return {
+          since: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1),
+          nextPeriodAt: Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1),
+        };
+    }
+  }
+
+  /**
+   * Earliest time at which `amount` fits under `limit` in the given window, or
+   * `undefined` if it never will (the amount alone exceeds the limit).
+   */
+  private findResetTime(
+    ledger: SpendEntry[],
+    window: ResolvedWindow,
+    limit: number,
+    amount: number,
+    valueOf: (entry: SpendEntry) => number
+  ): number | undefined {
+    if (amount > limit) return undefined;
+    if (window.durationMs === undefined) return window.nextPeriodAt;
+
+    // Rolling window: walk the counted entries oldest-first until enough has aged out
+    let excess = sumSince(ledger, window.since, valueOf) + amount - limit;
+    for (const entry of ledger) {
+      if (entry.timestamp < window.since) continue;
+      excess -= valueOf(entry);
+      if (excess <= EPSILON) {
+        return entry.timestamp + window.durationMs;
+      }
+    }
+    return undefined;
+  }
+
+  private findTokenBudgetKey(session: StoredSession, tokenKeys: string[]): string | undefined {
+    if (!session.config.tokenBudgets || tokenKeys.length === 0) return undefined;
+    return Object.keys(session.config.tokenBudgets).find((key) => tokenKeys.includes(key.toLowerCase()));
+  }
+
+  private isPermitted(list: AccessList | undefined, value: string, normalize: (v: string) => string): boolean {
+    if (!list) return true;
+
+    const normalized = normalize(value);
+    if (list.deny?.some((entry) => normalize(entry) === normalized)) {
+      return false;
+    }
+    if (list.allow && list.allow.length > 0) {
+      return list.allow.some((entry) => normalize(entry) === normalized);
+    }
+    return true;
+  }
+}
+
+function normalizeAddress(address: string): string {
+  return address.trim().toLowerCase();
+}
+
+function normalizeOrigin(origin: string): string {
+  try {
+    return new URL(origin).origin.toLowerCase();
+  } catch {
+    return origin.trim().replace(/\/+$/, '').toLowerCase();
+  }
+}
+
+/** Tolerance for floating point sums when deciding that enough budget has freed up */
+const EPSILON = 1e-9;
+
+/** Entries without a budget-currency amount were recorded for USD sessions */
+function budgetOf(entry: SpendEntry): number {
+  return entry.amount ?? entry.amountUSD;
+}
+
+function countOf(entry: SpendEntry): number {
+  return entry.adjustment ? 0 : 1;
+}
+
+function tokenAmountOf(budgetKey: string): (entry: SpendEntry) => number {
+  const key = budgetKey.toLowerCase();
+  return (entry) => entry.tokenAmount !== undefined && (entry.token === key || entry.tokenSymbol === key)
+    ? entry.tokenAmount
+    : 0;
+}
+
+function chainBudgetOf(chain: number): (entry: SpendEntry) => number {
+  return (entry) => entry.chain === chain ? budgetOf(entry) : 0;
+}
+
+function sumSince(ledger: SpendEntry[], since: number, valueOf: (entry: SpendEntry) => number): number {
+  return ledger.reduce((sum, entry) => entry.timestamp >= since ? sum + valueOf(entry) : sum, 0);
+}
+
+function toSpendEntry(timestamp: number, amountUSD: number, context: PaymentContext): SpendEntry {
+  const entry: SpendEntry = { timestamp, amountUSD };
+  if (context.budgetAmount !== undefined) entry.amount = context.budgetAmount;
+  if (context.token) entry.token = context.token.toLowerCase();
+  if (context.tokenSymbol) entry.tokenSymbol = context.tokenSymbol.toLowerCase();
+  if (context.tokenAmount !== undefined) entry.tokenAmount = context.tokenAmount;
+  if (context.chain !== undefined) entry.chain = context.chain;
+  if (context.recipient) entry.recipient = normalizeAddress(context.recipient);
+  return entry;
+}
+
+function getTokenKeys(context: PaymentContext): string[] {
+  return [context.token, context.tokenSymbol]
+    .filter((t): t is string => !!t)
+    .map((t) => t.toLowerCase());
+}
+
+/** `$5` for USD sessions, `5 EUR` for others */
+function amountFormatter(session: StoredSession): (amount: number) => string {
+  const currency = normalizeCurrency(session.config.currency);
+  return currency === BASE_CURRENCY ? (amount) => `$${amount}` : (amount) => `${amount} ${currency}`;
+}
+
+function describeDuration(ms: number): string {
+  if (ms % (60 * 60 * 1000) === 0) return `${ms / (60 * 60 * 1000)}h`;
+  if (ms % (60 * 1000) === 0) return `${ms / (60 * 1000)}m`;
+  if (ms % 1000 === 0) return `${ms / 1000}s`;
+  return `${ms}ms`;
+}
+
+function describeWindow(window: SpendingWindow): string {
+  if (window.type === 'calendar') {
+    return `UTC ${window.period}`;
+  }
+  const hours = window.durationMs / (60 * 60 * 1000);
+  return Number.isInteger(hours) ? `rolling ${hours}h` : `rolling ${window.durationMs}ms`;
 }
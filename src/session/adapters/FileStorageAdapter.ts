@@ -0,0 +1,85 @@
+/**
+ * @packageDocumentation
+ * @module FileStorageAdapter
+ * @description
+ * JSON file backend for {@link SessionStorage} (Node.js only).
+ *
+ * All entries are kept in a single JSON document. Writes are serialized and performed
+ * atomically (write to a temp file, then rename) so a crash mid-write never leaves a
+ * truncated session file behind.
+ *
+ * `fs` is loaded lazily so importing this module does not break browser bundles.
+ */
+import type { SessionStorageAdapter } from '../SessionStorage';
+
+export interface FileStorageAdapterOptions {
+  /** Path of the JSON file holding all entries. Created on first write. */
+  filePath: string;
+  /** File mode for newly written files (default: 0o600, owner read/write only). */
+  mode?: number;
+}
+
+export class FileStorageAdapter implements SessionStorageAdapter {
+  private cache?: Record<string, string>;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private options: FileStorageAdapterOptions) { }
+
+  async get(key: string): Promise<string | null> {
+    const data = await this.load();
+    return data[key] ?? null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.mutate((data) => {
+      data[key] = value;
+    });
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.mutate((data) => {
+      delete data[key];
+    });
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    const data = await this.load();
+    return Object.keys(data).filter((key) => key.startsWith(prefix));
+  }
+
+  private async load(): Promise<Record<string, string>> {
+    if (this.cache) return this.cache;
+
+    const fs = await import('fs/promises');
+    try {
+      const raw = await fs.readFile(this.options.filePath, 'utf-8');
+      this.cache = raw.trim() ? JSON.parse(raw) : {};
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+      this.cache = {};
+    }
+    return this.cache!;
+  }
+
+  private mutate(fn: (data: Record<string, string>) => void): Promise<void> {
+    const next = this.writeChain.then(async () => {
+      const data = await this.load();
+      fn(data);
+      await this.flush(data);
+    });
+    // Keep the chain alive even if one write fails
+    this.writeChain = next.catch(() => { });
+    return next;
+  }
+
+  private async flush(data: Record<string, string>): Promise<void> {
+    const fs = await import('fs/promises');
+    const path = await import('path');
+    const mode = this.options.mode ?? 0o600;
+
+    await fs.mkdir(path.dirname(this.options.filePath), { recursive: true });
+    const tmpPath = `${this.options.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), { mode });
+    await fs.rename(tmpPath, this.options.filePath);
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * @packageDocumentation
+ * @module LocalStorageAdapter
+ * @description
+ * Browser `localStorage` backend for {@link SessionStorage}.
+ *
+ * This is the default adapter when `localStorage` is available. All operations are
+ * no-ops when it is not, so prefer {@link MemoryStorageAdapter} or a persistent
+ * adapter in server-side agents.
+ */
+import type { SessionStorageAdapter } from '../SessionStorage';
+
+export class LocalStorageAdapter implements SessionStorageAdapter {
+  async get(key: string): Promise<string | null> {
+    if (typeof localStorage === 'undefined') return null;
+    return localStorage.getItem(key);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(key, value);
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.removeItem(key);
+    }
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    if (typeof localStorage !== 'undefined') {
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key?.startsWith(prefix)) keys.push(key);
+      }
+    }
+    return keys;
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * @packageDocumentation
+ * @module MemoryStorageAdapter
+ * @description
+ * In-process backend for {@link SessionStorage}.
+ *
+ * Used as the default in Node.js when `localStorage` is unavailable. Sessions live only as
+ * long as the process; use {@link FileStorageAdapter}, {@link SQLiteStorageAdapter} or
+ * {@link RedisStorageAdapter} to survive restarts.
+ */
+import type { SessionStorageAdapter } from '../SessionStorage';
+
+export class MemoryStorageAdapter implements SessionStorageAdapter {
+  private store: Map<string, string> = new Map();
+
+  async get(key: string): Promise<string | null> {
+    return this.store.get(key) ?? null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.store.set(key, value);
+  }
+
+  async remove(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    return Array.from(this.store.keys()).filter((key) => key.startsWith(prefix));
+  }
+}
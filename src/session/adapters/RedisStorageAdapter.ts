@@ -0,0 +1,65 @@
+/**
+ * @packageDocumentation
+ * @module RedisStorageAdapter
+ * @description
+ * Redis-protocol backend for {@link SessionStorage}.
+ *
+ * Works with any client exposing promise-based `get`/`set`/`del`/`keys` commands, such as
+ * `ioredis`, `node-redis` v4+, or wire-compatible stores (Valkey, KeyDB, Dragonfly, Upstash).
+ * No Redis driver is bundled with the SDK.
+ *
+ * @example
+ * ```typescript
+ * import Redis from 'ioredis';
+ * const adapter = new RedisStorageAdapter({ client: new Redis(process.env.REDIS_URL) });
+ * ```
+ */
+import type { SessionStorageAdapter } from '../SessionStorage';
+
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+  keys(pattern: string): Promise<string[]>;
+}
+
+export interface RedisStorageAdapterOptions {
+  client: RedisLikeClient;
+  /** Namespace prepended to every key (default: none). */
+  namespace?: string;
+}
+
+export class RedisStorageAdapter implements SessionStorageAdapter {
+  private client: RedisLikeClient;
+  private namespace: string;
+
+  constructor(options: RedisStorageAdapterOptions) {
+    this.client = options.client;
+    this.namespace = options.namespace ?? '';
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get(this.namespace + key);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.client.set(this.namespace + key, value);
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.client.del(this.namespace + key);
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    const pattern = `${this.escapeGlob(this.namespace + prefix)}*`;
+    const keys = await this.client.keys(pattern);
+    return keys.map((key) => key.slice(this.namespace.length));
+  }
+
+  /**
+   * Escape Redis glob metacharacters so prefixes match literally.
+   */
+  private escapeGlob(value: string): string {
+    return value.replace(/([*?[\]\\])/g, '\\$1');
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * @packageDocumentation
+ * @module SQLiteStorageAdapter
+ * @description
+ * SQLite backend for {@link SessionStorage}.
+ *
+ * The adapter does not bundle a SQLite driver. Pass any database handle exposing the
+ * synchronous `prepare().run/get/all` + `exec` API shared by `better-sqlite3` and
+ * Node's built-in `node:sqlite` (`DatabaseSync`).
+ *
+ * @example
+ * ```typescript
+ * import Database from 'better-sqlite3';
+ * const adapter = new SQLiteStorageAdapter({ db: new Database('sessions.db') });
+ * ```
+ */
+import type { SessionStorageAdapter } from '../SessionStorage';
+
+export interface SQLiteStatement {
+  run(...params: unknown[]): unknown;
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+export interface SQLiteDatabase {
+  prepare(sql: string): SQLiteStatement;
+  exec(sql: string): unknown;
+}
+
+export interface SQLiteStorageAdapterOptions {
+  db: SQLiteDatabase;
+  /** Table name (default: `veridex_sessions`). Must be a plain SQL identifier. */
+  tableName?: string;
+}
+
+export class SQLiteStorageAdapter implements SessionStorageAdapter {
+  private db: SQLiteDatabase;
+  private table: string;
+
+  constructor(options: SQLiteStorageAdapterOptions) {
+    this.db = options.db;
+    this.table = options.tableName ?? 'veridex_sessions';
+
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(this.table)) {
+      throw new Error(`Invalid SQLite table name: ${this.table}`);
+    }
+
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS ${this.table} (key TEXT PRIMARY KEY, value TEXT NOT NULL, updated_at INTEGER NOT NULL)`
+    );
+  }
+
+  async get(key: string): Promise<string | null> {
+    const row = this.db
+      .prepare(`SELECT value FROM ${this.table} WHERE key = ?`)
+      .get(key) as { value: string } | undefined;
+    return row?.value ?? null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO ${this.table} (key, value, updated_at) VALUES (?, ?, ?) ` +
+        `ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`
+      )
+      .run(key, value, Date.now());
+  }
+
+  async remove(key: string): Promise<void> {
+    this.db.prepare(`DELETE FROM ${this.table} WHERE key = ?`).run(key);
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    // Filter in JS rather than with LIKE so '_' and '%' in prefixes are not treated as wildcards
+    const rows = this.db.prepare(`SELECT key FROM ${this.table}`).all() as { key: string }[];
+    return rows.map((row) => row.key).filter((key) => key.startsWith(prefix));
+  }
+}
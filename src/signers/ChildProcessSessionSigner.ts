@@ -0,0 +1,258 @@
+/**
+ * @packageDocumentation
+ * @module ChildProcessSessionSigner
+ * @description
+ * Session signer that keeps the key in a separate child process (Node.js only).
+ *
+ * The built-in worker loads the key from a file, or generates one and writes it there with
+ * owner-only permissions, so the key is never read into the agent's process. Requests and
+ * signatures travel over the Node IPC channel.
+ *
+ * A custom worker (e.g. one bridging to an HSM or KMS) can be run instead with `command` and
+ * `args`. It must answer IPC messages `{ id, op, ...args }`, where `op` is one of
+ * `getAddress`, `signMessage`, `signTypedData` or `signTransaction`, with `{ id, result }` or
+ * `{ id, error }`. Messages use Node's `advanced` serialization, so bigints and byte arrays
+ * arrive intact.
+ *
+ * @example
+ * ```typescript
+ * const signer = new ChildProcessSessionSigner({ keyFile: '/run/agent/session.key', generate: true });
+ * const agent = await createAgentWallet({ masterCredential, session, signerFactory: async () => signer });
+ * // ...
+ * await signer.close();
+ *
+ * // In a later process, reattach the key of the resumed session
+ * await agent.attachSessionSigner(new ChildProcessSessionSigner({ keyFile: '/run/agent/session.key' }));
+ * ```
+ */
+import type { ChildProcess } from 'child_process';
+import type { ethers } from 'ethers';
+import type { SessionSigner } from './SessionSigner';
+import { AgentPaymentError, AgentPaymentErrorCode } from '../types/errors';
+
+/**
+ * Source of the built-in worker, run with `node -e`. `ethers` is resolved from the worker's
+ * working directory.
+ */
+export const SESSION_SIGNER_WORKER_SOURCE = `
+const fs = require('fs');
+const { Wallet } = require('ethers');
+const keyFile = process.env.SESSION_SIGNER_KEY_FILE;
+let wallet;
+if (keyFile && fs.existsSync(keyFile)) {
+  wallet = new Wallet(fs.readFileSync(keyFile, 'utf8').trim());
+} else if (keyFile && process.env.SESSION_SIGNER_GENERATE === '1') {
+  wallet = Wallet.createRandom();
+  fs.writeFileSync(keyFile, wallet.privateKey, { mode: 0o600, flag: 'wx' });
+} else {
+  process.stderr.write('session signer: no key file at ' + keyFile + '\\n');
+  process.exit(1);
+}
+process.on('message', async (msg) => {
+  try {
+    let result;
+    switch (msg.op) {
+      case 'getAddress': result = wallet.address; break;
+      case 'signMessage': result = await wallet.signMessage(msg.message); break;
+      case 'signTypedData': result = await wallet.signTypedData(msg.domain, msg.types, msg.value); break;
+      case 'signTransaction': result = await wallet.signTransaction(msg.tx); break;
+      default: throw new Error('unknown operation ' + msg.op);
+    }
+    process.send({ id: msg.id, result });
+  } catch (error) {
+    process.send({ id: msg.id, error: error && error.message ? error.message : String(error) });
+  }
+});
+process.on('disconnect', () => process.exit(0));
+`;
+
+export interface ChildProcessSessionSignerConfig {
+  /** File holding the session private key; read only by the worker */
+  keyFile?: string;
+  /**
+   * Generate a key and write it to `keyFile` when none exists. Requires `keyFile`, so a
+   * restarted worker signs with the same key.
+   */
+  generate?: boolean;
+  /** Worker executable (default: the current Node.js binary) */
+  command?: string;
+  /** Worker arguments (default: runs the built-in worker) */
+  args?: string[];
+  /** Worker working directory (default: the current one) */
+  cwd?: string;
+  /** Extra environment variables for the worker */
+  env?: Record<string, string>;
+  /** Per-request timeout in milliseconds (default: 10000) */
+  timeoutMs?: number;
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface WorkerResponse {
+  id: number;
+  result?: unknown;
+  error?: string;
+}
+
+export class ChildProcessSessionSigner implements SessionSigner {
+  private child?: Promise<ChildProcess>;
+  private current?: ChildProcess;
+  private pending: Map<number, PendingRequest> = new Map();
+  private requestId = 0;
+  private address?: string;
+
+  /**
+   * @throws AgentPaymentError `SESSION_INVALID` if `generate` is set without a `keyFile`
+   */
+  constructor(private config: ChildProcessSessionSignerConfig = {}) {
+    if (config.generate && !config.keyFile) {
+      throw new AgentPaymentError(
+        AgentPaymentErrorCode.SESSION_INVALID,
+        'Session signer: generate requires a keyFile',
+        'Set keyFile, so the generated key survives a worker restart.',
+        false
+      );
+    }
+  }
+
+  async getAddress(): Promise<string> {
+    if (!this.address) {
+      this.address = await this.request<string>({ op: 'getAddress' });
+    }
+    return this.address;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    return await this.request({ op: 'signMessage', message });
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    return await this.request({ op: 'signTypedData', domain, types, value });
+  }
+
+  async signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    return await this.request({ op: 'signTransaction', tx });
+  }
+
+  /**
+   * Stop the worker. Pending requests are rejected; the next request starts a new worker.
+   */
+  async close(): Promise<void> {
+    const child = this.child;
+    this.child = undefined;
+    if (!child) return;
+
+    const worker = await child.catch(() => undefined);
+    if (worker && worker.exitCode === null) {
+      const exited = new Promise<void>((resolve) => worker.once('exit', () => resolve()));
+      worker.kill();
+      await exited;
+    }
+    this.failPending(new Error('Session signer worker closed'));
+  }
+
+  private async request<T>(message: Record<string, unknown>): Promise<T> {
+    const worker = await this.getWorker();
+    const id = ++this.requestId;
+
+    return await new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.settle(id);
+        reject(this.workerError(`${message.op} timed out`, true));
+      }, this.config.timeoutMs ?? 10000);
+
+      // The worker answers each operation with its result type
+      this.pending.set(id, { resolve: (result) => resolve(result as T), reject, timer });
+      // Keep the process alive only while a request is in flight
+      worker.channel?.ref();
+      worker.send({ id, ...message }, (error) => {
+        if (error) {
+          this.settle(id);
+          reject(this.workerError(error.message, true));
+        }
+      });
+    });
+  }
+
+  private async getWorker(): Promise<ChildProcess> {
+    if (!this.child) {
+      this.child = this.spawnWorker();
+      // A worker that failed to start is retried on the next request
+      this.child.catch(() => { this.child = undefined; });
+    }
+    return await this.child;
+  }
+
+  private async spawnWorker(): Promise<ChildProcess> {
+    const { spawn } = await import('child_process');
+    const worker = spawn(this.config.command ?? process.execPath, this.config.args ?? ['-e', SESSION_SIGNER_WORKER_SOURCE], {
+      cwd: this.config.cwd,
+      env: {
+        ...process.env,
+        ...this.config.env,
+        ...(this.config.keyFile ? { SESSION_SIGNER_KEY_FILE: this.config.keyFile } : {}),
+        ...(this.config.generate ? { SESSION_SIGNER_GENERATE: '1' } : {}),
+      },
+      stdio: ['ignore', 'inherit', 'inherit', 'ipc'],
+      serialization: 'advanced',
+    });
+
+    worker.on('message', (response: WorkerResponse) => {
+      const request = this.settle(response.id);
+      if (!request) return;
+      if (response.error !== undefined) {
+        request.reject(this.workerError(response.error, false));
+      } else {
+        request.resolve(response.result);
+      }
+    });
+    worker.on('exit', (code) => {
+      if (worker === this.current) {
+        this.current = undefined;
+        this.child = undefined;
+      }
+      this.failPending(this.workerError(`worker exited with code ${code}`, true));
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      worker.once('spawn', () => resolve());
+      worker.once('error', (error) => reject(this.workerError(error.message, false)));
+    });
+    this.current = worker;
+    worker.unref();
+    worker.channel?.unref();
+    return worker;
+  }
+
+  private settle(id: number): PendingRequest | undefined {
+    const request = this.pending.get(id);
+    if (!request) return undefined;
+    clearTimeout(request.timer);
+    this.pending.delete(id);
+    if (this.pending.size === 0) this.current?.channel?.unref();
+    return request;
+  }
+
+  private failPending(error: Error): void {
+    for (const id of [...this.pending.keys()]) {
+      this.settle(id)?.reject(error);
+    }
+  }
+
+  private workerError(message: string, retryable: boolean): AgentPaymentError {
+    return new AgentPaymentError(
+      AgentPaymentErrorCode.SESSION_INVALID,
+      `Session signer worker: ${message}`,
+      'Check that the key file exists and is readable by the worker, or start the signer with generate: true.',
+      retryable
+    );
+  }
+}
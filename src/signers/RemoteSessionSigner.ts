@@ -0,0 +1,141 @@
+/**
+ * @packageDocumentation
+ * @module RemoteSessionSigner
+ * @description
+ * Session signer backed by a remote signing service speaking the Web3Signer eth1 JSON-RPC
+ * API (`eth_accounts`, `eth_sign`, `eth_signTypedData`, `eth_signTransaction`).
+ *
+ * The session key is generated and held by the signer; the agent only knows its address.
+ *
+ * @example
+ * ```typescript
+ * const signer = new RemoteSessionSigner({
+ *   url: 'https://web3signer.internal:9000',
+ *   address: '0x...',
+ *   headers: { Authorization: `Bearer ${token}` },
+ * });
+ * ```
+ */
+import { ethers } from 'ethers';
+import type { SessionSigner } from './SessionSigner';
+import { AgentPaymentError, AgentPaymentErrorCode } from '../types/errors';
+
+export interface RemoteSessionSignerConfig {
+  /** JSON-RPC endpoint of the signer */
+  url: string;
+  /** Address of the key to sign with (default: the first of `eth_accounts`) */
+  address?: string;
+  /** Extra request headers, e.g. for authentication */
+  headers?: Record<string, string>;
+  /** Request timeout in milliseconds (default: 10000) */
+  timeoutMs?: number;
+}
+
+interface JsonRpcResponse {
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+export class RemoteSessionSigner implements SessionSigner {
+  private address?: string;
+  private requestId = 0;
+
+  constructor(private config: RemoteSessionSignerConfig) {
+    this.address = config.address ? ethers.getAddress(config.address) : undefined;
+  }
+
+  async getAddress(): Promise<string> {
+    if (!this.address) {
+      const accounts = await this.call('eth_accounts', []) as string[];
+      if (!accounts?.length) {
+        throw new AgentPaymentError(
+          AgentPaymentErrorCode.SESSION_INVALID,
+          `Remote signer at ${this.config.url} holds no keys`,
+          'Load a session key into the signer, or pass its address in the signer config.',
+          false
+        );
+      }
+      this.address = ethers.getAddress(accounts[0]);
+    }
+    return this.address;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const data = typeof message === 'string' ? ethers.hexlify(ethers.toUtf8Bytes(message)) : ethers.hexlify(message);
+    return await this.call('eth_sign', [await this.getAddress(), data]) as string;
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    const payload = ethers.TypedDataEncoder.getPayload(domain, types, value);
+    return await this.call('eth_signTypedData', [await this.getAddress(), payload]) as string;
+  }
+
+  async signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    const from = await this.getAddress();
+    const to = tx.to ? await ethers.resolveAddress(tx.to) : undefined;
+    return await this.call('eth_signTransaction', [toRpcTransaction({ ...tx, to }, from)]) as string;
+  }
+
+  private async call(method: string, params: unknown[]): Promise<unknown> {
+    let body: JsonRpcResponse;
+    try {
+      const response = await fetch(this.config.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.config.headers },
+        body: JSON.stringify({ jsonrpc: '2.0', id: ++this.requestId, method, params }),
+        signal: AbortSignal.timeout(this.config.timeoutMs ?? 10000),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      body = await response.json() as JsonRpcResponse;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new AgentPaymentError(
+        AgentPaymentErrorCode.NETWORK_ERROR,
+        `Remote signer ${method} request to ${this.config.url} failed: ${message}`,
+        'Check that the signer is reachable and the credentials in its headers are valid.',
+        true,
+        { method, url: this.config.url }
+      );
+    }
+
+    if (body.error) {
+      throw new AgentPaymentError(
+        AgentPaymentErrorCode.SESSION_INVALID,
+        `Remote signer rejected ${method}: ${body.error.message}`,
+        'Check that the signer holds the session key and allows this request.',
+        false,
+        { method, url: this.config.url, rpcCode: body.error.code }
+      );
+    }
+    return body.result;
+  }
+}
+
+/**
+ * Encode a transaction request as an `eth_signTransaction` parameter, quantities as hex.
+ */
+function toRpcTransaction(tx: ethers.TransactionRequest, from: string): Record<string, unknown> {
+  const quantity = (value: ethers.BigNumberish | null | undefined) =>
+    value === null || value === undefined ? undefined : ethers.toQuantity(value);
+
+  const rpcTx: Record<string, unknown> = {
+    from,
+    to: typeof tx.to === 'string' ? tx.to : undefined,
+    data: tx.data ?? undefined,
+    value: quantity(tx.value),
+    nonce: quantity(tx.nonce),
+    gas: quantity(tx.gasLimit),
+    gasPrice: quantity(tx.gasPrice),
+    maxFeePerGas: quantity(tx.maxFeePerGas),
+    maxPriorityFeePerGas: quantity(tx.maxPriorityFeePerGas),
+    chainId: quantity(tx.chainId),
+    type: quantity(tx.type),
+  };
+  return Object.fromEntries(Object.entries(rpcTx).filter(([, value]) => value !== undefined));
+}
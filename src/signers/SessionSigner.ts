@@ -0,0 +1,128 @@
+/**
+ * @packageDocumentation
+ * @module SessionSigner
+ * @description
+ * Signing abstraction for session keys.
+ *
+ * Every payment path signs through a {@link SessionSigner} instead of holding an
+ * `ethers.Wallet`, so the session key can live outside the agent process:
+ * - {@link LocalSessionSigner}: key decrypted in process (the default).
+ * - {@link RemoteSessionSigner}: a remote signer speaking the Web3Signer eth1 JSON-RPC API.
+ * - {@link ChildProcessSessionSigner}: a key isolated in a child process.
+ *
+ * {@link toEthersSigner} adapts any session signer to an ethers `Signer` for sending
+ * transactions and calling contracts.
+ */
+import { ethers } from 'ethers';
+
+export interface SessionSigner {
+  /** EVM address of the session key */
+  getAddress(): Promise<string>;
+  /** EIP-191 personal message signature */
+  signMessage(message: string | Uint8Array): Promise<string>;
+  /** EIP-712 typed data signature */
+  signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string>;
+  /**
+   * Sign a fully populated transaction (chain ID, nonce, gas and fees set).
+   *
+   * @returns Serialized signed transaction
+   */
+  signTransaction(tx: ethers.TransactionRequest): Promise<string>;
+}
+
+/**
+ * Session key held in process memory.
+ */
+export class LocalSessionSigner implements SessionSigner {
+  constructor(private wallet: ethers.BaseWallet) { }
+
+  static fromPrivateKey(privateKey: string): LocalSessionSigner {
+    return new LocalSessionSigner(new ethers.Wallet(privateKey));
+  }
+
+  async getAddress(): Promise<string> {
+    return this.wallet.address;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    return await this.wallet.signMessage(message);
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    return await this.wallet.signTypedData(domain, types, value);
+  }
+
+  async signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    return await this.wallet.signTransaction(tx);
+  }
+}
+
+/**
+ * ethers `Signer` backed by a {@link SessionSigner}. Transactions are populated through the
+ * provider, signed by the session signer and broadcast.
+ */
+export class SessionSignerAdapter extends ethers.AbstractSigner {
+  constructor(private signer: SessionSigner, provider: ethers.Provider | null = null) {
+    super(provider);
+  }
+
+  async getAddress(): Promise<string> {
+    return await this.signer.getAddress();
+  }
+
+  connect(provider: ethers.Provider | null): SessionSignerAdapter {
+    return new SessionSignerAdapter(this.signer, provider);
+  }
+
+  async signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    const populated = await this.populateTransaction(tx);
+    // The session signer receives plain addresses rather than ENS names or Addressables
+    const { from: _from, ...unsigned } = populated;
+    return await this.signer.signTransaction({
+      ...unsigned,
+      to: populated.to ? await ethers.resolveAddress(populated.to, this.provider) : populated.to,
+    });
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    return await this.signer.signMessage(message);
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    return await this.signer.signTypedData(domain, types, value);
+  }
+}
+
+/**
+ * Adapt a session signer to an ethers `Signer`, e.g. to send transactions or call contracts.
+ */
+export function toEthersSigner(signer: SessionSigner, provider?: ethers.Provider): ethers.Signer {
+  return new SessionSignerAdapter(signer, provider ?? null);
+}
+
+/**
+ * Recover a signer's uncompressed secp256k1 public key from a signature, for signers that
+ * only expose their address.
+ */
+export async function recoverSignerPublicKey(signer: SessionSigner): Promise<string> {
+  const message = 'veridex:session-signer:public-key';
+  const signature = await signer.signMessage(message);
+  const publicKey = ethers.SigningKey.recoverPublicKey(ethers.hashMessage(message), signature);
+
+  if (ethers.computeAddress(publicKey) !== ethers.getAddress(await signer.getAddress())) {
+    throw new Error('Session signer returned a signature that does not match its address');
+  }
+  return publicKey;
+}
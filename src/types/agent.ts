@@ -10,6 +10,17 @@
  * - {@link SessionStatus}: State of the active session key.
  */
 import { PasskeyCredential, TokenBalance, PortfolioBalance } from '@veridex/sdk';
+import type { SessionStorageAdapter, SessionKeyConfig } from '../session/SessionStorage';
+import type { BudgetStatus } from '../session/SpendingTracker';
+import type { VelocityLimit } from '../session/SessionStorage';
+import type { ChainFamily, NativeKeyFamily } from '../session/ChainKeys';
+import type { SessionEventOptions } from '../session/SessionEventEmitter';
+import type { OnChainSessionRegistry } from '../session/OnChainSessionRegistry';
+import type { SessionSigner } from '../signers/SessionSigner';
+import type { SessionKeyDerivation } from '../session/SessionKeyDerivation';
+import type { FxRateProvider } from '../oracle/FxRates';
+import type { FacilitatorRegistry } from '../x402/adapters/FacilitatorAdapter';
+import type { SpendingPolicy, PolicyDecision } from './policy';
 
 export interface AgentWalletConfig {
   // Master passkey credential (from @veridex/sdk)
@@ -17,10 +28,59 @@ export interface AgentWalletConfig {
 
   // Session key configuration
   session: {
+    currency?: string; // ISO 4217 budget currency (default: USD); every amount limit is in it
     dailyLimitUSD: number;
     perTransactionLimitUSD: number;
     expiryHours: number;
     allowedChains: number[]; // Wormhole chain IDs
+    allowedTokens?: string[];
+    tokenBudgets?: Record<string, number>; // Daily caps in token units, e.g. { USDC: 50, ETH: 0.01 }
+    chainBudgetsUSD?: Record<number, number>; // Daily caps in USD per Wormhole chain ID
+    keyFamilies?: NativeKeyFamily[]; // Native non-EVM session keys, e.g. ['solana', 'sui']
+    velocityLimits?: VelocityLimit[]; // Payment count caps, e.g. [{ maxCount: 10, windowMs: 60_000 }]
+    policy?: SpendingPolicy; // Declarative rules evaluated before every payment
+  };
+
+  // Optional persistent session storage (filesystem, SQLite, Redis, ...).
+  // When set, init() resumes the latest valid session for the master key instead of minting a new one.
+  sessionStorage?: SessionStorageAdapter;
+
+  // Optional automatic rotation to a fresh session key shortly before the current one expires.
+  // Limits, policy and rolling-window spend carry over to the new session.
+  rotation?: {
+    enabled: boolean;
+    rotateBeforeMinutes?: number; // How long before expiry to rotate (default: 10)
+    transferTokens?: string[]; // Balances to move to the new session wallet, e.g. ['usdc', 'eth']
+  };
+
+  // Optional hub registry: sessions are registered on-chain and the hub enforces their limits too
+  registry?: OnChainSessionRegistry;
+
+  // Optional signer for each new session key, e.g. a RemoteSessionSigner or ChildProcessSessionSigner,
+  // so key material never lives in the agent process
+  signerFactory?: (config: SessionKeyConfig) => Promise<SessionSigner>;
+
+  // Optional deterministic session keys derived from master-credential entropy, so session
+  // wallets can be recovered with recoverSessions() if storage is lost
+  derivation?: SessionKeyDerivation;
+
+  // Optional exchange rates for a non-USD session currency (default: Pyth FX feeds)
+  fxRates?: FxRateProvider;
+
+  // Optional lead time for session:expiring and thresholds for session:limit-threshold events
+  sessionEvents?: SessionEventOptions;
+
+  // How payments are executed: 'eoa' (default) sends from the session wallet; 'vault' has the
+  // session key sign Veridex hub messages so funds stay in the master vault (EVM chains only)
+  execution?: {
+    mode: 'eoa' | 'vault';
+  };
+
+  // Optional return of leftover session wallet balances to the master vault
+  sweep?: {
+    onRevoke?: boolean; // Sweep before revokeSession() revokes the key
+    onExpiry?: boolean; // Sweep when the current session expires
+    tokens?: string[]; // Balances to return (default: ['usdc', 'eth'])
   };
 
   // Optional relayer for gasless transactions
@@ -47,6 +107,7 @@ export interface AgentWalletConfig {
     paymentTimeoutMs?: number;
     maxRetries?: number;
     verifyBeforePay?: boolean;
+    facilitators?: FacilitatorRegistry;
   };
 }
 
@@ -57,6 +118,7 @@ export interface PaymentParams {
   chain: number;
   protocol?: 'x402' | 'ucp' | 'direct';
   metadata?: Record<string, any>;
+  approvalId?: string; // From an APPROVAL_REQUIRED error, after approvePayment()
 }
 
 export interface PaymentReceipt {
@@ -66,23 +128,56 @@ export interface PaymentReceipt {
   token: string;
   amount: bigint;
   amountUSD?: number;
+  budgetAmount?: number; // Amount in the session's budget currency, when that is not USD
+  budgetCurrency?: string;
   recipient: string;
   protocol?: 'x402' | 'ucp' | 'direct';
+  kind?: 'payment' | 'session-fund' | 'session-sweep'; // Unset for payments
   timestamp: number;
+  policy?: PolicyDecision; // Policy decision trace, for the audit log
 }
 
 export interface SessionStatus {
   isValid: boolean;
   keyHash: string;
   expiry: number;
+  currency?: string; // Budget currency (ISO 4217); remaining limit, limits and budgets are in it
   remainingDailyLimitUSD: number;
   totalSpentUSD: number;
+  totalSpent?: number; // Lifetime spend in the budget currency, when that is not USD
   masterKeyHash?: string;
+  parentKeyHash?: string; // Set for sub-sessions created with createSubSession()
   address?: string; // EVM address derived from session key
+  addresses?: Partial<Record<ChainFamily, string>>; // Session address per chain family
   limits?: {
     dailyLimitUSD: number;
     perTransactionLimitUSD: number;
   };
+  budgets?: BudgetStatus; // Remaining amount per token and per chain sub-budget
+}
+
+export interface SessionFundTransfer {
+  chain: number;
+  token: string;
+  amount: string; // Atomic units
+  txHash: string;
+}
+
+export interface SessionRotationEvent {
+  previousKeyHash: string;
+  keyHash: string;
+  expiry: number;
+  trigger: 'scheduled' | 'manual';
+  transfers: SessionFundTransfer[]; // Balances moved from the old session wallet
+  transferError?: string; // Set when moving funds failed; the old key is then kept
+  retired: boolean; // Whether the old key was revoked
+  timestamp: number;
+}
+
+export interface SessionSweepResult {
+  vaultAddresses: Record<number, string>; // Vault address on each swept chain (Wormhole chain ID)
+  transfers: SessionFundTransfer[]; // Balances returned to the vault
+  failures: { chain: number; token: string; error: string }[];
 }
 
 export interface HistoryOptions {
@@ -100,6 +195,7 @@ export interface SpendingAlert {
   sessionKeyHash: string;
   dailySpentUSD: number;
   dailyLimitUSD: number;
+  currency?: string; // Currency of dailySpentUSD/dailyLimitUSD when the session budgets in other than USD
   timestamp: number;
   data?: Record<string, any>;
 }
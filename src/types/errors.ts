@@ -7,6 +7,8 @@
  * Provides typed error codes and actionable remediation steps for common
  * failure scenarios (e.g., Session Expired, Limit Exceeded, Network Error).
  */
+import type { PolicyDecision } from './policy';
+
 export enum AgentPaymentErrorCode {
     // Session errors (1xxx)
     SESSION_EXPIRED = 1001,
@@ -17,6 +19,10 @@ export enum AgentPaymentErrorCode {
     LIMIT_EXCEEDED = 2001,
     DAILY_LIMIT_EXCEEDED = 2002,
     TRANSACTION_LIMIT_EXCEEDED = 2003,
+    TOKEN_LIMIT_EXCEEDED = 2004,
+    CHAIN_LIMIT_EXCEEDED = 2005,
+    WINDOW_LIMIT_EXCEEDED = 2006,
+    VELOCITY_LIMIT_EXCEEDED = 2007,
 
     // Balance errors (3xxx)
     INSUFFICIENT_BALANCE = 3001,
@@ -27,11 +33,17 @@ export enum AgentPaymentErrorCode {
     PAYMENT_TIMEOUT = 4002,
     INVALID_RECIPIENT = 4003,
     INVALID_AMOUNT = 4004,
+    RECIPIENT_NOT_ALLOWED = 4005,
+    MERCHANT_NOT_ALLOWED = 4006,
+    ORIGIN_NOT_ALLOWED = 4007,
+    POLICY_DENIED = 4008,
+    APPROVAL_REQUIRED = 4009,
 
     // Network errors (5xxx)
     NETWORK_ERROR = 5001,
     RPC_ERROR = 5002,
     RELAYER_ERROR = 5003,
+    FX_RATE_UNAVAILABLE = 5004,
 
     // Protocol errors (6xxx)
     X402_PARSE_ERROR = 6001,
@@ -82,6 +94,94 @@ export class AgentPaymentError extends Error {
         );
     }
 
+    /**
+     * Build an error from a failed session limit check, preserving the specific code
+     * (per-transaction, daily, counterparty list, ...) reported by the tracker.
+     */
+    static fromLimitCheck(
+        result: {
+            reason?: string;
+            code?: AgentPaymentErrorCode;
+            remainingDailyLimitUSD?: number;
+            resetsAt?: number;
+            retryAfterMs?: number;
+            policy?: PolicyDecision;
+        },
+        context?: Record<string, any>
+    ): AgentPaymentError {
+        const code = result.code ?? AgentPaymentErrorCode.LIMIT_EXCEEDED;
+        const reason = result.reason || 'Transaction exceeds session limits';
+        const fullContext = {
+            remainingDailyLimitUSD: result.remainingDailyLimitUSD,
+            resetsAt: result.resetsAt,
+            retryAfterMs: result.retryAfterMs,
+            policy: result.policy,
+            ...context
+        };
+
+        switch (code) {
+            case AgentPaymentErrorCode.RECIPIENT_NOT_ALLOWED:
+            case AgentPaymentErrorCode.MERCHANT_NOT_ALLOWED:
+            case AgentPaymentErrorCode.ORIGIN_NOT_ALLOWED:
+                return new AgentPaymentError(
+                    code,
+                    `Payment blocked by session policy: ${reason}`,
+                    'This session is restricted to specific counterparties. Ask the session owner to update the allowlist using the master passkey.',
+                    false,
+                    fullContext
+                );
+            case AgentPaymentErrorCode.TOKEN_NOT_SUPPORTED:
+            case AgentPaymentErrorCode.CHAIN_NOT_SUPPORTED:
+                return new AgentPaymentError(
+                    code,
+                    `Payment blocked by session policy: ${reason}`,
+                    'Pay with a token and chain allowed by this session, or ask the session owner to widen the session configuration.',
+                    false,
+                    fullContext
+                );
+            case AgentPaymentErrorCode.VELOCITY_LIMIT_EXCEEDED: {
+                const wait = result.retryAfterMs !== undefined
+                    ? `Wait ${Math.ceil(result.retryAfterMs / 1000)}s before retrying`
+                    : 'Wait before retrying';
+                return new AgentPaymentError(
+                    code,
+                    `Payment rate limit exceeded: ${reason}`,
+                    `${wait}. If the agent is looping on small payments, stop and check why it keeps paying.`,
+                    true,
+                    fullContext
+                );
+            }
+            case AgentPaymentErrorCode.POLICY_DENIED:
+                return new AgentPaymentError(
+                    code,
+                    `Payment blocked by session policy: ${reason}`,
+                    'A spending policy rule denies this payment. Choose a different payment or ask the session owner to update the policy.',
+                    false,
+                    fullContext
+                );
+            case AgentPaymentErrorCode.APPROVAL_REQUIRED:
+                return new AgentPaymentError(
+                    code,
+                    `Payment requires human approval: ${reason}`,
+                    'Ask the session owner to approve this payment, then retry it with the approval ID.',
+                    true,
+                    fullContext
+                );
+            case AgentPaymentErrorCode.SESSION_EXPIRED:
+                return AgentPaymentError.fromSessionExpired(fullContext);
+            case AgentPaymentErrorCode.SESSION_REVOKED:
+                return AgentPaymentError.fromSessionRevoked({ reason, ...fullContext });
+            default: {
+                const error = AgentPaymentError.fromLimitExceeded(reason, fullContext);
+                error.code = code;
+                if (result.resetsAt !== undefined) {
+                    error.remediation = `Enough budget frees up at ${new Date(result.resetsAt).toISOString()}. Wait until then or increase your session budget using your master passkey.`;
+                }
+                return error;
+            }
+        }
+    }
+
     static fromSessionExpired(context?: Record<string, any>): AgentPaymentError {
         return new AgentPaymentError(
             AgentPaymentErrorCode.SESSION_EXPIRED,
@@ -92,6 +192,17 @@ export class AgentPaymentError extends Error {
         );
     }
 
+    static fromSessionRevoked(context?: Record<string, any>): AgentPaymentError {
+        const reason = context?.reason ? ` Reason: ${context.reason}` : '';
+        return new AgentPaymentError(
+            AgentPaymentErrorCode.SESSION_REVOKED,
+            `Your agent session has been revoked.${reason}`,
+            'Revoked sessions cannot sign payments. Ask the session owner to create a new session using the master passkey.',
+            false,
+            context
+        );
+    }
+
     static fromNetworkError(message: string, context?: Record<string, any>): AgentPaymentError {
         return new AgentPaymentError(
             AgentPaymentErrorCode.NETWORK_ERROR,
@@ -0,0 +1,84 @@
+/**
+ * @packageDocumentation
+ * @module PolicyTypes
+ * @description
+ * Type definitions for declarative spending policies.
+ *
+ * A {@link SpendingPolicy} is a list of rules attached to a session. Each rule has an
+ * action and a set of conditions; every payment is evaluated against all rules and the
+ * result is a {@link PolicyDecision} with a trace of which rules matched and why.
+ *
+ * Policies are plain JSON, so they can be stored with the session or generated by tooling.
+ */
+
+/**
+ * What a matching rule does. When several rules match, `deny` wins over
+ * `require_approval`, which wins over `allow`.
+ */
+export type PolicyAction = 'allow' | 'deny' | 'require_approval';
+
+/**
+ * Conditions a payment must meet for a rule to match. All listed conditions must hold;
+ * list-valued conditions match if any entry matches. Conditions on details the payment
+ * path does not provide (e.g. `origin` for a direct transfer) do not match.
+ */
+export interface PolicyConditions {
+  /** USD amount bounds */
+  amountUSD?: { gt?: number; gte?: number; lt?: number; lte?: number };
+  /** Recipient / x402 `payTo` patterns, `*` wildcard, case-insensitive (e.g. `0xabc*`) */
+  recipients?: string[];
+  /** UCP business ID patterns */
+  merchants?: string[];
+  /** HTTP origin patterns (e.g. `https://*.example.com`) */
+  origins?: string[];
+  /** Token symbols or addresses, case-insensitive */
+  tokens?: string[];
+  /** Wormhole chain IDs */
+  chains?: number[];
+  /** UTC time-of-day range as `HH:MM`; `end` before `start` wraps past midnight */
+  timeOfDay?: { start: string; end: string };
+  /** UTC days of week, 0 = Sunday */
+  daysOfWeek?: number[];
+  /** Matches when this payment would exceed the count or USD total within the trailing window */
+  velocity?: { windowMs: number; maxCount?: number; maxAmountUSD?: number };
+}
+
+export interface PolicyRule {
+  id: string;
+  description?: string;
+  action: PolicyAction;
+  /** Omit to match every payment */
+  when?: PolicyConditions;
+}
+
+export interface SpendingPolicy {
+  version?: 1;
+  rules: PolicyRule[];
+  /** Action when no rule matches (default: `allow`) */
+  defaultAction?: 'allow' | 'deny';
+}
+
+export interface PolicyConditionResult {
+  condition: keyof PolicyConditions;
+  matched: boolean;
+  detail: string;
+}
+
+export interface PolicyTraceEntry {
+  ruleId: string;
+  action: PolicyAction;
+  matched: boolean;
+  conditions: PolicyConditionResult[];
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  /** IDs of every rule that matched */
+  matchedRules: string[];
+  /** Rule that determined the action, unset when the default action applied */
+  decidingRule?: string;
+  /** Per-rule evaluation, in policy order */
+  trace: PolicyTraceEntry[];
+  /** One-line human/LLM readable summary of the decision */
+  explanation: string;
+}
@@ -0,0 +1,103 @@
+/**
+ * @packageDocumentation
+ * @module PreflightTypes
+ * @description
+ * Type definitions for payment dry runs.
+ *
+ * A preflight runs the same decision pipeline as a real payment (valuation, token and chain
+ * resolution, limits and policy, balance, route and fees) without signing or sending
+ * anything, so planners can ask whether a payment would succeed and what it would cost.
+ */
+import type { PaymentRoute } from '../routing/CrossChainRouter';
+import type { AgentPaymentErrorCode } from './errors';
+import type { PolicyDecision } from './policy';
+import type { Payment402Request } from './x402';
+
+export type PreflightCheckName =
+  | 'valuation'
+  | 'chain'
+  | 'token'
+  | 'session'
+  | 'counterparty'
+  | 'limits'
+  | 'policy'
+  | 'balance'
+  | 'route'
+  | 'fees';
+
+/**
+ * `skip` means the check could not run (e.g. an RPC endpoint was unreachable, or an
+ * earlier check already failed) and says nothing about the outcome.
+ */
+export type PreflightCheckStatus = 'pass' | 'fail' | 'skip';
+
+export interface PreflightCheck {
+  name: PreflightCheckName;
+  status: PreflightCheckStatus;
+  detail: string;
+}
+
+/**
+ * The error the real payment would fail with.
+ */
+export interface PreflightError {
+  code: AgentPaymentErrorCode;
+  message: string;
+  remediation: string;
+  retryable: boolean;
+  context?: Record<string, any>;
+}
+
+export interface PreflightFees {
+  /** Gas cost in the chain's native unit (wei), when the payer pays gas */
+  native?: string;
+  /** Gas cost in USD, when a price was available */
+  usd?: number;
+  /** Who pays the network fee: the session wallet, or the x402 facilitator */
+  paidBy: 'payer' | 'facilitator';
+}
+
+/**
+ * Verdict for a single payment.
+ */
+export interface PaymentPreflight {
+  /** Every check passed or was skipped: the payment would be attempted */
+  wouldSucceed: boolean;
+  /** The only blocker is a policy rule requiring human approval */
+  requiresApproval: boolean;
+  amountUSD: number;
+  /** Amount in whole tokens */
+  tokenAmount: number;
+  token: { symbol?: string; address?: string; decimals: number };
+  chain: number;
+  recipient: string;
+  remainingDailyLimitUSD: number;
+  policy?: PolicyDecision;
+  /** Session wallet balance and the amount needed, in atomic units */
+  balance?: { available: string; required: string };
+  route?: PaymentRoute;
+  fees?: PreflightFees;
+  /** Payment plus payer-paid fees in USD */
+  totalCostUSD?: number;
+  checks: PreflightCheck[];
+  error?: PreflightError;
+}
+
+/**
+ * Verdict for fetching a URL that may answer with HTTP 402.
+ */
+export interface X402Preflight {
+  url: string;
+  /** HTTP status of the unpaid request */
+  status: number;
+  paymentRequired: boolean;
+  /** `ucp` when the server offers a UCP checkout, whose amount is only negotiated during checkout */
+  protocol?: 'x402' | 'ucp';
+  /** Nothing in the payment pipeline would block the request (also true when no payment is required) */
+  wouldSucceed: boolean;
+  requirements?: Payment402Request;
+  /** Verdict for the x402 payment, when the amount is known */
+  payment?: PaymentPreflight;
+  checks: PreflightCheck[];
+  error?: PreflightError;
+}
@@ -9,6 +9,7 @@
  * The x402 protocol uses the HTTP 402 "Payment Required" status code
  * to enable instant, automatic stablecoin payments over HTTP.
  */
+import type { FacilitatorRegistry } from '../x402/adapters/FacilitatorAdapter';
 
 /**
  * Payment scheme types supported by x402
@@ -17,6 +18,31 @@
  */
 export type X402Scheme = 'exact' | 'upto';
 
+/**
+ * x402 protocol versions, taken from the server's `x402Version` (or its layout when unset):
+ * - 1: requirements in the base64 `PAYMENT-REQUIRED` header (`paymentRequirements`)
+ * - 2: requirements in a JSON 402 body (`accepts`, with resource metadata)
+ */
+export type X402Version = 1 | 2;
+
+/**
+ * Where the server sent its payment requirements, which decides the headers of the exchange:
+ * - 'header': `PAYMENT-REQUIRED`, answered with `PAYMENT-SIGNATURE`, settled in `PAYMENT-RESPONSE`
+ * - 'body': JSON 402 body, answered with `X-PAYMENT`, settled in `X-PAYMENT-RESPONSE`
+ */
+export type X402Layout = 'header' | 'body';
+
+/**
+ * Resource metadata a server describes the paid resource with.
+ */
+export interface X402Resource {
+  /** URL of the paid resource */
+  url?: string;
+  description?: string;
+  /** MIME type of the response */
+  mimeType?: string;
+}
+
 /**
  * Payment requirement from a 402 response.
  * This is parsed from the PAYMENT-REQUIRED header (base64 encoded JSON).
@@ -30,6 +56,8 @@ export interface PaymentRequirement {
   network: string;
   /** Maximum amount required for payment (in smallest unit, e.g., wei or lamports) */
   maxAmountRequired: string;
+  /** Same as `maxAmountRequired`, as some servers name it */
+  amount?: string;
   /** Asset address (token contract) or 'native' for native currency */
   asset: string;
   /** Recipient address to receive payment */
@@ -40,6 +68,14 @@ export interface PaymentRequirement {
   description?: string;
   /** Optional extra data from the resource server */
   extra?: Record<string, unknown>;
+  /** URL of the paid resource */
+  resource?: string;
+  /** MIME type of the resource response */
+  mimeType?: string;
+  /** JSON schema of the resource response */
+  outputSchema?: Record<string, unknown>;
+  /** How long the server waits for settlement */
+  maxTimeoutSeconds?: number;
 }
 
 /**
@@ -47,12 +83,28 @@ export interface PaymentRequirement {
  * Returned in PAYMENT-REQUIRED header as base64 JSON
  */
 export interface PaymentRequiredResponse {
+  /** Protocol version the server speaks */
+  x402Version?: number;
   /** Array of acceptable payment options */
   paymentRequirements: PaymentRequirement[];
   /** Optional error message if previous payment failed */
   error?: string;
 }
 
+/**
+ * JSON 402 body of the v2 layout
+ */
+export interface PaymentRequiredBody {
+  /** Protocol version the server speaks */
+  x402Version: number;
+  /** Array of acceptable payment options */
+  accepts: PaymentRequirement[];
+  /** The paid resource, as a URL or full metadata */
+  resource?: string | X402Resource;
+  /** Optional error message if previous payment failed */
+  error?: string;
+}
+
 /**
  * Parsed payment request for internal use
  */
@@ -77,13 +129,19 @@ export interface Payment402Request {
   nonce?: string;
   /** Payment deadline timestamp */
   deadline?: number;
+  /** Protocol version to answer with (default: 1) */
+  version?: X402Version;
+  /** Where the requirements came from, which decides the payment headers (default: 'header') */
+  layout?: X402Layout;
+  /** The paid resource, when the server described it */
+  resource?: X402Resource;
   /** Original payment requirement */
   original: PaymentRequirement;
 }
 
 /**
  * ERC-3009 / EIP-712 Authorization for token transfers
- * Used for 'exact' scheme on EVM networks
+ * Used for 'exact' and 'upto' schemes on EVM networks; for 'upto' the value is the cap
  */
 export interface ERC3009Authorization {
   /** Address authorizing the transfer (session key) */
@@ -105,8 +163,8 @@ export interface ERC3009Authorization {
  * Sent in PAYMENT-SIGNATURE header as base64 JSON.
  */
 export interface PaymentPayload {
-  /** Signature scheme version */
-  x402Version: 1;
+  /** Protocol version, matching the server's */
+  x402Version: X402Version;
   /** Payment scheme used */
   scheme: X402Scheme;
   /** Network the payment is on */
@@ -131,7 +189,7 @@ export interface PaymentSettlementResponse {
   transactionHash?: string;
   /** Network where transaction was settled */
   network: string;
-  /** Amount settled */
+  /** Amount settled; for 'upto' payments, the metered amount actually charged (at most the cap) */
   amount: string;
   /** Facilitator that processed the payment */
   facilitator?: string;
@@ -155,6 +213,13 @@ export interface Payment402Response {
   txHash?: string;
 }
 
+/**
+ * Settles signed payments on behalf of a resource server (e.g. a facilitator adapter)
+ */
+export interface PaymentSettler {
+  settle(request: Payment402Request, response: Payment402Response): Promise<PaymentSettlementResponse>;
+}
+
 /**
  * x402 Client Configuration
  */
@@ -167,4 +232,6 @@ export interface X402ClientConfig {
   maxRetries?: number;
   /** Whether to verify payments before sending */
   verifyBeforePay?: boolean;
+  /** Facilitators used by `settleWithFacilitator()` (default: Cronos for Cronos networks, plus `defaultFacilitator` when it is a URL) */
+  facilitators?: FacilitatorRegistry;
 }
@@ -16,6 +16,7 @@
 import { UCPProfile, UCPCheckoutRequest, UCPCheckoutResponse } from '../types/ucp';
 import { StoredSession } from '../session/SessionStorage';
 import { SessionKeyManager } from '../session/SessionKeyManager';
+import { AgentPaymentError } from '../types/errors';
 
 export class UCPCredentialProvider {
   constructor(private sessionManager: SessionKeyManager) { }
@@ -51,17 +52,25 @@ export class UCPCredentialProvider {
   ): Promise<UCPCheckoutResponse> {
     // 1. Validate limits
     const amount = parseFloat(request.amount);
-    const limitResult = this.sessionManager.checkLimits(session, amount);
-    if (!limitResult.allowed) {
-      throw new Error(`Limits exceeded: ${limitResult.reason}`);
+    const limitResult = await this.sessionManager.reserveSpending(session, amount, {
+      businessId: request.businessId,
+    });
+    if (!limitResult.reservation) {
+      throw AgentPaymentError.fromLimitCheck(limitResult, { businessId: request.businessId });
     }
 
     // 2. Tokenize instrument
-    const token = await this.tokenizePayment(session);
+    let token: string;
+    try {
+      token = await this.tokenizePayment(session);
+    } catch (error) {
+      await this.sessionManager.releaseReservation(session, limitResult.reservation);
+      throw error;
+    }
 
     // 3. Record spending (if it's immediate)
     // Often checkout is just authorization, but for agents we might do it now
-    await this.sessionManager.recordSpending(session, amount);
+    await this.sessionManager.commitReservation(session, limitResult.reservation);
 
     return {
       checkoutId: `checkout_${Date.now()}`,
@@ -11,8 +11,9 @@
  * 4. Generating the required cryptographic payment credentials.
  * 5. Completing the checkout.
  */
-import { ethers } from 'ethers';
 import { StoredSession } from '../session/SessionStorage';
+import type { SessionKeyManager } from '../session/SessionKeyManager';
+import { LocalSessionSigner } from '../signers/SessionSigner';
 import { VeridexSDK } from '@veridex/sdk';
 import axios from 'axios';
 
@@ -35,7 +36,17 @@ interface UCPCheckoutResponse {
 }
 
 export class UCPClient {
-    constructor(private coreSDK: VeridexSDK) { }
+    /**
+     * @param sessionManager - When provided, revoked sessions are refused before signing and
+     *   credentials are signed by the manager's session signer
+     * @param masterCredentialId - Master credential ID, to decrypt keys of sessions the manager
+     *   loaded or imported rather than created
+     */
+    constructor(
+        private coreSDK: VeridexSDK,
+        private sessionManager?: SessionKeyManager,
+        private masterCredentialId?: string
+    ) { }
 
     /**
      * Initiates the UCP flow starting from a checkout URL found in a 402 response.
@@ -102,10 +113,14 @@ export class UCPClient {
         token: string,
         amount: string
     ): Promise<string> {
-        // This mocks the signing process using the session key
-        // We used ethers.Wallet in PaymentSigner.ts.
+        // Refuse to sign for revoked sessions
+        if (this.sessionManager) {
+            await this.sessionManager.assertNotRevoked(session);
+        }
 
-        const wallet = new ethers.Wallet(session.encryptedPrivateKey); // Decryption assumed handled or handled here
+        const signer = this.sessionManager
+            ? await this.sessionManager.getSessionSigner(session, this.masterCredentialId)
+            : LocalSessionSigner.fromPrivateKey(session.encryptedPrivateKey);
 
         // Payload for Veridex Relayer execution
         // Similar to PaymentSigner but specifically for the Veridex Handler Payload
@@ -120,12 +135,12 @@ export class UCPClient {
 
         // Sign the payload
         // In reality this should match the Relayer's expected typed data format
-        const signature = await wallet.signMessage(JSON.stringify(payload));
+        const signature = await signer.signMessage(JSON.stringify(payload));
 
         return JSON.stringify({
             payload,
             signature,
-            signer: wallet.address,
+            signer: await signer.getAddress(),
             key_hash: session.keyHash
         });
     }
@@ -0,0 +1,421 @@
+/**
+ * @packageDocumentation
+ * @module LocalFacilitator
+ * @description
+ * Self-hosted x402 facilitator for ERC-3009 (`transferWithAuthorization`) payments.
+ *
+ * Verification checks the signed authorization against the payment requirements (recipient,
+ * value, validity window, EIP-712 signature), then reads the payer's token balance and the
+ * token's `authorizationState` for the nonce over JSON-RPC. Settlement submits
+ * `transferWithAuthorization` from the relayer key and waits for the receipt; the relayer
+ * pays the gas, so it needs native tokens on every configured network.
+ *
+ * The facilitator runs in process as a {@link FacilitatorAdapter}, or as an HTTP server
+ * (Node.js only) speaking the Cronos facilitator protocol:
+ * - `POST /v2/x402/verify` and `POST /v2/x402/settle` with
+ *   `{ x402Version, paymentHeader, paymentRequirements }` (`paymentPayload` is accepted too)
+ * - `GET /v2/x402/supported`
+ *
+ * Only the `exact` scheme is settled.
+ *
+ * @example
+ * ```typescript
+ * const facilitator = new LocalFacilitator({
+ *   networks: { 'eip155:31337': { rpcUrl: 'http://127.0.0.1:8545' } },
+ *   relayerKey: process.env.RELAYER_KEY!,
+ * });
+ * const url = await facilitator.listen(4020);
+ * const client = new HttpFacilitatorClient({ url: `${url}/v2/x402` });
+ * // ...
+ * await facilitator.close();
+ * ```
+ */
+import type { Server, IncomingMessage, ServerResponse } from 'http';
+import { ethers } from 'ethers';
+import { PaymentParser } from './PaymentParser';
+import { PaymentSigner } from './PaymentSigner';
+import type { FacilitatorAdapter, FacilitatorKind } from './adapters/FacilitatorAdapter';
+import {
+  Payment402Request,
+  Payment402Response,
+  PaymentPayload,
+  PaymentRequirement,
+  PaymentSettlementResponse,
+} from '../types/x402';
+import { AgentPaymentError, AgentPaymentErrorCode } from '../types/errors';
+
+const API_PREFIX = '/v2/x402';
+const DEFAULT_MAX_BODY_BYTES = 64 * 1024;
+
+const ERC3009_ABI = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function authorizationState(address authorizer, bytes32 nonce) view returns (bool)',
+  'function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)',
+];
+
+export interface LocalFacilitatorNetwork {
+  /** JSON-RPC endpoint of the chain */
+  rpcUrl: string;
+}
+
+export interface LocalFacilitatorConfig {
+  /** Served networks by x402 network identifier, e.g. 'base-sepolia' or 'eip155:31337' */
+  networks: Record<string, LocalFacilitatorNetwork>;
+  /** Private key of the account that submits settlements and pays their gas */
+  relayerKey: string;
+  /** Confirmations to wait for before a settlement is reported (default: 1) */
+  confirmations?: number;
+  /** Largest request body the HTTP server accepts, in bytes (default: 65536) */
+  maxBodyBytes?: number;
+}
+
+/**
+ * Verification result, as the facilitator protocol reports it.
+ */
+export interface LocalVerifyResult {
+  isValid: boolean;
+  invalidReason: string | null;
+  /** Address that signed the authorization */
+  payer?: string;
+}
+
+/**
+ * Settlement result, as the facilitator protocol reports it.
+ */
+export interface LocalSettleResult {
+  x402Version: number;
+  event: 'payment.settled' | 'payment.failed';
+  txHash?: string;
+  from?: string;
+  to?: string;
+  value?: string;
+  blockNumber?: number;
+  network: string;
+  /** ISO 8601 time of the result */
+  timestamp: string;
+  error?: string;
+}
+
+export class LocalFacilitator implements FacilitatorAdapter {
+  private parser = new PaymentParser();
+  private signer = new PaymentSigner();
+  private relayers: Map<string, ethers.Wallet> = new Map();
+  /** Authorizations being settled, by token, payer and nonce */
+  private settling: Set<string> = new Set();
+  private server?: Server;
+
+  constructor(private config: LocalFacilitatorConfig) { }
+
+  /**
+   * Verify a signed payment against its requirements and the chain state.
+   *
+   * @param payment - Payment header (base64) or its decoded payload
+   * @throws AgentPaymentError `RPC_ERROR` if the chain cannot be read
+   */
+  async verifyPayment(payment: string | PaymentPayload, requirements: PaymentRequirement): Promise<LocalVerifyResult> {
+    const payload = decodePayment(payment);
+    if (!payload) {
+      return invalid('Invalid payment payload');
+    }
+    const problem = checkRequirements(requirements);
+    if (problem) {
+      return invalid(problem, payload.payload.authorization?.from);
+    }
+    const payer = payload.payload.authorization?.from;
+    if (!this.config.networks[requirements.network]) {
+      return invalid(`Network ${requirements.network} is not supported by this facilitator`, payer);
+    }
+    if ((requirements.scheme ?? 'exact') !== 'exact') {
+      return invalid(`Scheme ${requirements.scheme} is not supported by this facilitator`, payer);
+    }
+
+    const request = this.parser.requirementToRequest(requirements);
+    const rejection = this.signer.checkPayment(request, payload);
+    if (rejection) {
+      return invalid(rejection, payer);
+    }
+
+    const { authorization } = payload.payload;
+    const token = this.getToken(request);
+    try {
+      if (await token.authorizationState(authorization.from, authorization.nonce)) {
+        return invalid('Authorization nonce was already used', payer);
+      }
+      const balance: bigint = await token.balanceOf(authorization.from);
+      if (balance < BigInt(authorization.value)) {
+        return invalid(`Insufficient balance: ${balance} < ${authorization.value}`, payer);
+      }
+    } catch (error) {
+      throw this.rpcError(request.network, error);
+    }
+
+    return { isValid: true, invalidReason: null, payer };
+  }
+
+  /**
+   * Verify a signed payment, then submit it on chain from the relayer.
+   *
+   * @param payment - Payment header (base64) or its decoded payload
+   * @throws AgentPaymentError `RPC_ERROR` if the chain cannot be read
+   */
+  async settlePayment(payment: string | PaymentPayload, requirements: PaymentRequirement): Promise<LocalSettleResult> {
+    const base = { x402Version: 1, network: requirements.network };
+    const failed = (error: string): LocalSettleResult =>
+      ({ ...base, event: 'payment.failed', error, timestamp: new Date().toISOString() });
+
+    const verification = await this.verifyPayment(payment, requirements);
+    if (!verification.isValid) {
+      return failed(verification.invalidReason ?? 'Invalid payment');
+    }
+
+    const request = this.parser.requirementToRequest(requirements);
+    const { authorization, signature } = decodePayment(payment)!.payload;
+    const key = `${this.signer.getAuthorizationTerms(request).tokenAddress}:${authorization.from}:${authorization.nonce}`.toLowerCase();
+    if (this.settling.has(key)) {
+      return failed('Authorization is already being settled');
+    }
+
+    this.settling.add(key);
+    try {
+      const { v, r, s } = ethers.Signature.from(signature);
+      const tx = await this.getToken(request).transferWithAuthorization(
+        authorization.from,
+        authorization.to,
+        authorization.value,
+        authorization.validAfter,
+        authorization.validBefore,
+        authorization.nonce,
+        v,
+        r,
+        s
+      );
+      const receipt = await tx.wait(this.config.confirmations ?? 1);
+      if (!receipt || receipt.status !== 1) {
+        return { ...failed('Settlement transaction reverted'), txHash: tx.hash };
+      }
+      return {
+        ...base,
+        event: 'payment.settled',
+        txHash: receipt.hash,
+        from: authorization.from,
+        to: authorization.to,
+        value: String(authorization.value),
+        blockNumber: receipt.blockNumber,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return failed(`Settlement transaction failed: ${message}`);
+    } finally {
+      this.settling.delete(key);
+    }
+  }
+
+  /**
+   * Payment kinds this facilitator settles.
+   */
+  getSupported(): { kinds: FacilitatorKind[] } {
+    return {
+      kinds: Object.keys(this.config.networks).map((network) => ({ x402Version: 1, scheme: 'exact', network })),
+    };
+  }
+
+  async verify(request: Payment402Request, response: Payment402Response): Promise<boolean> {
+    return (await this.verifyPayment(response.paymentPayload, request.original)).isValid;
+  }
+
+  async settle(request: Payment402Request, response: Payment402Response): Promise<PaymentSettlementResponse> {
+    const result = await this.settlePayment(response.paymentPayload, request.original);
+    return {
+      success: result.event === 'payment.settled',
+      transactionHash: result.txHash,
+      network: result.network,
+      amount: result.value ?? request.amount,
+      error: result.error,
+    };
+  }
+
+  async supported(): Promise<FacilitatorKind[]> {
+    return this.getSupported().kinds;
+  }
+
+  /**
+   * Serve the facilitator protocol over HTTP.
+   *
+   * @param port - Port to listen on (default: any free port)
+   * @param host - Interface to listen on (default: 127.0.0.1)
+   * @returns Base URL of the server; the API is under `/v2/x402`
+   */
+  async listen(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+    if (this.server) {
+      throw new Error('Local facilitator is already listening');
+    }
+    const { createServer } = await import('http');
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        sendJson(res, error instanceof AgentPaymentError && error.retryable ? 502 : 500, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+    this.server = server;
+    const address = server.address();
+    const boundPort = typeof address === 'object' && address ? address.port : port;
+    return `http://${host.includes(':') ? `[${host}]` : host}:${boundPort}`;
+  }
+
+  /**
+   * Stop the HTTP server.
+   */
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (!server) return;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = (req.url ?? '/').split('?')[0];
+    if (req.method === 'GET' && path === `${API_PREFIX}/supported`) {
+      sendJson(res, 200, this.getSupported());
+      return;
+    }
+    if (req.method !== 'POST' || (path !== `${API_PREFIX}/verify` && path !== `${API_PREFIX}/settle`)) {
+      sendJson(res, 404, { error: `Not found: ${req.method} ${path}` });
+      return;
+    }
+
+    const maxBytes = this.config.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+    const raw = await readBody(req, maxBytes);
+    if (raw === undefined) {
+      sendJson(res, 413, { error: `Request body exceeds ${maxBytes} bytes` });
+      return;
+    }
+    let body: { paymentHeader?: string; paymentPayload?: PaymentPayload; paymentRequirements?: PaymentRequirement };
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      sendJson(res, 400, { error: 'Request body must be JSON' });
+      return;
+    }
+    const payment = body?.paymentHeader ?? body?.paymentPayload;
+    if (!payment || !body.paymentRequirements) {
+      sendJson(res, 400, { error: 'paymentHeader and paymentRequirements are required' });
+      return;
+    }
+    const problem = checkRequirements(body.paymentRequirements);
+    if (problem) {
+      sendJson(res, 400, invalid(problem));
+      return;
+    }
+
+    const result = path.endsWith('/verify')
+      ? await this.verifyPayment(payment, body.paymentRequirements)
+      : await this.settlePayment(payment, body.paymentRequirements);
+    sendJson(res, 200, result);
+  }
+
+  private getToken(request: Payment402Request): ethers.Contract {
+    const { tokenAddress } = this.signer.getAuthorizationTerms(request);
+    return new ethers.Contract(tokenAddress, ERC3009_ABI, this.getRelayer(request.network));
+  }
+
+  private getRelayer(network: string): ethers.Wallet {
+    let relayer = this.relayers.get(network);
+    if (!relayer) {
+      const provider = new ethers.JsonRpcProvider(this.config.networks[network].rpcUrl);
+      relayer = new ethers.Wallet(this.config.relayerKey, provider);
+      this.relayers.set(network, relayer);
+    }
+    return relayer;
+  }
+
+  private rpcError(network: string, error: unknown): AgentPaymentError {
+    const message = error instanceof Error ? error.message : String(error);
+    return new AgentPaymentError(
+      AgentPaymentErrorCode.RPC_ERROR,
+      `Failed to read payment state on ${network}: ${message}`,
+      'Check the RPC endpoint configured for this network.',
+      true,
+      { network }
+    );
+  }
+}
+
+function invalid(reason: string, payer?: string): LocalVerifyResult {
+  return { isValid: false, invalidReason: reason, payer };
+}
+
+/**
+ * Decode a payment header, accepting both the `{ signature, authorization }` payload and the
+ * Cronos payload with the authorization fields next to the signature.
+ */
+function decodePayment(payment: string | PaymentPayload): PaymentPayload | undefined {
+  let raw: unknown;
+  try {
+    raw = typeof payment === 'string' ? JSON.parse(Buffer.from(payment, 'base64').toString('utf-8')) : payment;
+  } catch {
+    return undefined;
+  }
+  if (!isRecord(raw) || !isRecord(raw.payload)) return undefined;
+  const inner = raw.payload;
+  if (!inner.authorization && inner.signature && inner.from) {
+    const { signature, asset: _asset, ...authorization } = inner;
+    return { ...raw, payload: { signature, authorization } } as unknown as PaymentPayload;
+  }
+  if (!isRecord(inner.authorization)) return undefined;
+  return raw as unknown as PaymentPayload;
+}
+
+/**
+ * Why payment requirements cannot be checked, or `undefined` if they are well-formed.
+ */
+function checkRequirements(requirements: unknown): string | undefined {
+  if (!isRecord(requirements)) {
+    return 'paymentRequirements must be an object';
+  }
+  if (typeof requirements.network !== 'string' || !requirements.network) {
+    return 'paymentRequirements.network is required';
+  }
+  if (typeof requirements.asset !== 'string' || !requirements.asset) {
+    return 'paymentRequirements.asset is required';
+  }
+  if (typeof requirements.payTo !== 'string' || !ethers.isAddress(requirements.payTo)) {
+    return 'paymentRequirements.payTo must be an address';
+  }
+  const amount = requirements.maxAmountRequired ?? requirements.amount;
+  if (typeof amount !== 'string' || !/^\d+(\.\d+)?$/.test(amount)) {
+    return 'paymentRequirements.maxAmountRequired must be an amount';
+  }
+  return undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read a request body, or `undefined` if it is larger than `maxBytes`. The rest of an
+ * oversized body is drained without being kept, so the response can still be sent.
+ */
+async function readBody(req: IncomingMessage, maxBytes: number): Promise<string | undefined> {
+  const declared = Number(req.headers['content-length']);
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size <= maxBytes && !(declared > maxBytes)) chunks.push(chunk as Buffer);
+  }
+  return size > maxBytes || declared > maxBytes ? undefined : Buffer.concat(chunks).toString('utf-8');
+}
+
+function sendJson(res: ServerResponse, status: number, body: object): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
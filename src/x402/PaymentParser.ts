@@ -4,9 +4,14 @@
  * @description
  * Parses and validates x402 Payment Headers.
  * 
- * This module is responsible for decoding the `PAYMENT-REQUIRED` (HTTP 402) header.
- * It handles the mapping of various network identifiers (e.g., "base-mainnet", "chain-1")
- * to the internal Wormhole Chain ID format used by the SDK.
+ * This module is responsible for decoding HTTP 402 payment requirements in both layouts:
+ * - v1: base64 JSON in the `PAYMENT-REQUIRED` header ({@link PaymentParser.parseHeaders}).
+ * - v2: a JSON 402 body with an `accepts` array and resource metadata
+ *   ({@link PaymentParser.parseBody}).
+ *
+ * The parsed request records the server's `x402Version` and layout, so the client answers
+ * in the same dialect. It handles the mapping of various network identifiers (e.g.,
+ * "base-mainnet", "8453", "eip155:8453") to the internal Wormhole Chain ID format used by the SDK.
  * 
  * Supports:
  * - Parsing Base64 encoded JSON payment requirements.
@@ -15,10 +20,14 @@
  */
 
 import {
+  PaymentRequiredBody,
   PaymentRequiredResponse,
   PaymentRequirement,
   Payment402Request,
+  X402Layout,
+  X402Resource,
   X402Scheme,
+  X402Version,
 } from '../types/x402';
 
 // Network to Wormhole Chain ID mapping
@@ -77,6 +86,7 @@ export class PaymentParser {
 
       // Handle both array format and single requirement
       let requirement: PaymentRequirement;
+      let version: X402Version = 1;
 
       if ('paymentRequirements' in data && Array.isArray(data.paymentRequirements)) {
         // Standard x402 format with array of requirements
@@ -87,18 +97,63 @@ export class PaymentParser {
           return null;
         }
         requirement = validRequirement;
+        version = this.toVersion(data.x402Version, 1);
       } else {
         // Legacy/simplified format with single requirement
         requirement = data as PaymentRequirement;
       }
 
-      return this.requirementToRequest(requirement);
+      return this.requirementToRequest(requirement, version, 'header');
     } catch (e) {
       console.error('[x402] Failed to parse PAYMENT-REQUIRED header:', e);
       return null;
     }
   }
 
+  /**
+   * Parse the JSON body of a 402 response (v2 layout).
+   *
+   * The body lists payment options in `accepts` (`paymentRequirements` is accepted too) and
+   * may describe the paid resource.
+   *
+   * @param body - Parsed JSON body of the 402 response
+   * @returns Parsed payment request or null if the body carries no payment requirements
+   */
+  parseBody(body: unknown): Payment402Request | null {
+    if (!body || typeof body !== 'object') {
+      return null;
+    }
+
+    const data = body as Partial<PaymentRequiredBody> & Partial<PaymentRequiredResponse>;
+    const requirements = Array.isArray(data.accepts) ? data.accepts : data.paymentRequirements;
+    if (!Array.isArray(requirements)) {
+      return null;
+    }
+
+    const requirement = this.selectBestRequirement(requirements);
+    if (!requirement) {
+      console.error('[x402] No supported payment requirement found');
+      return null;
+    }
+
+    const request = this.requirementToRequest(requirement, this.toVersion(data.x402Version, 2), 'body');
+    const resource: X402Resource = typeof data.resource === 'string' ? { url: data.resource } : { ...data.resource };
+    if (requirement.resource) resource.url ??= requirement.resource;
+    if (requirement.description) resource.description ??= requirement.description;
+    if (requirement.mimeType) resource.mimeType ??= requirement.mimeType;
+    if (Object.keys(resource).length > 0) {
+      request.resource = resource;
+    }
+    return request;
+  }
+
+  /**
+   * The server's protocol version, or the layout's default when unset or unknown.
+   */
+  private toVersion(version: unknown, fallback: X402Version): X402Version {
+    return version === 1 || version === 2 ? version : fallback;
+  }
+
   /**
    * Select the best payment requirement based on supported schemes/networks.
    * Prefers 'exact' scheme on supported networks.
@@ -122,15 +177,19 @@ export class PaymentParser {
    * Check if a network is supported.
    */
   private isNetworkSupported(network: string): boolean {
-    return network in NETWORK_TO_CHAIN_ID || /^\d+$/.test(network);
+    return network in NETWORK_TO_CHAIN_ID || /^(eip155:)?\d+$/.test(network);
   }
 
   /**
    * Convert a PaymentRequirement to internal Payment402Request format.
+   *
+   * @param req - Payment requirement, as a server offers it
+   * @param version - Protocol version of the exchange (default: 1)
+   * @param layout - Where the requirement was sent (default: 'header')
    */
-  private requirementToRequest(req: PaymentRequirement): Payment402Request {
+  requirementToRequest(req: PaymentRequirement, version: X402Version = 1, layout: X402Layout = 'header'): Payment402Request {
     return {
-      amount: req.maxAmountRequired,
+      amount: req.maxAmountRequired ?? req.amount,
       token: req.asset,
       recipient: req.payTo,
       chain: this.mapNetworkToChainId(req.network),
@@ -139,6 +198,8 @@ export class PaymentParser {
       facilitator: req.facilitator,
       nonce: undefined, // Will be generated by signer
       deadline: undefined, // Will be calculated by signer
+      version,
+      layout,
       original: req,
     };
   }
@@ -146,7 +207,8 @@ export class PaymentParser {
   /**
    * Map network identifier to Wormhole chain ID.
    * 
-   * @param network - Network identifier (e.g., 'base-mainnet', 'ethereum', or numeric string)
+   * @param network - Network identifier (e.g., 'base-mainnet', 'ethereum', numeric string or
+   *   CAIP-2 'eip155:<chainId>')
    * @returns Wormhole chain ID
    */
   private mapNetworkToChainId(network: string): number {
@@ -155,6 +217,11 @@ export class PaymentParser {
       return NETWORK_TO_CHAIN_ID[network];
     }
 
+    // CAIP-2 EVM networks carry the EVM chain ID
+    if (network.startsWith('eip155:')) {
+      network = network.slice('eip155:'.length);
+    }
+
     // Handle numeric network IDs (EVM chain IDs or Wormhole IDs)
     const numericId = parseInt(network, 10);
     if (!isNaN(numericId)) {
@@ -21,6 +21,8 @@ import {
   ERC3009Authorization,
 } from '../types/x402';
 import { StoredSession } from '../session/SessionStorage';
+import type { SessionKeyManager } from '../session/SessionKeyManager';
+import { SessionSigner, LocalSessionSigner } from '../signers/SessionSigner';
 
 // ERC-3009 type hash for transferWithAuthorization
 const TRANSFER_WITH_AUTHORIZATION_TYPEHASH = ethers.keccak256(
@@ -71,11 +73,20 @@ const TOKEN_METADATA: Record<string, { name: string; version: string }> = {
 const DEFAULT_VALIDITY_WINDOW_SECONDS = 5 * 60;
 
 export class PaymentSigner {
+  /**
+   * @param sessionManager - When provided, revoked sessions are refused before signing and
+   *   signatures come from the manager's session signer (which may hold the key out of process)
+   * @param masterCredentialId - Master credential ID, to decrypt keys of sessions the manager
+   *   loaded or imported rather than created
+   */
+  constructor(private sessionManager?: SessionKeyManager, private masterCredentialId?: string) { }
+
   /**
    * Sign a payment authorization for an x402 request.
    * 
    * This creates an EIP-712 typed signature that authorizes the recipient
-   * (or facilitator) to pull funds from the session key's vault.
+   * (or facilitator) to pull funds from the session key's vault. For `upto` requests
+   * the authorization covers the maximum; the server settles what was consumed.
    * 
    * @param request - Parsed 402 payment request
    * @param session - Active session with signing key
@@ -85,40 +96,28 @@ export class PaymentSigner {
     request: Payment402Request,
     session: StoredSession
   ): Promise<Payment402Response> {
-    // Create wallet from session key
-    // Note: In production, the private key should be decrypted here
-    const wallet = new ethers.Wallet(session.encryptedPrivateKey);
+    // Refuse to sign for revoked sessions
+    if (this.sessionManager) {
+      await this.sessionManager.assertNotRevoked(session);
+    }
+
+    const signer = await this.getSigner(session);
+    const from = await signer.getAddress();
 
     // Generate cryptographically secure nonce
     const nonce = ethers.hexlify(ethers.randomBytes(32));
 
-    // Calculate deadline with buffer
+    // Calculate deadline, no later than the server's maxTimeoutSeconds allows
     const now = Math.floor(Date.now() / 1000);
-    const deadline = request.deadline || (now + DEFAULT_VALIDITY_WINDOW_SECONDS);
-
-    // Resolve token address from symbol if needed
-    const tokenAddress = this.resolveTokenAddress(request.token, request.chain);
+    const validitySeconds = Math.min(DEFAULT_VALIDITY_WINDOW_SECONDS, request.original?.maxTimeoutSeconds ?? Infinity);
+    const deadline = request.deadline || (now + validitySeconds);
 
-    // Get token decimals
-    const decimals = this.getTokenDecimals(request.token);
-
-    // Parse amount - handle both raw and formatted amounts
-    let valueInSmallestUnit: bigint;
-    try {
-      // Check if amount already looks like smallest unit (large number without decimal)
-      if (request.amount.includes('.') || BigInt(request.amount) < BigInt(1e9)) {
-        valueInSmallestUnit = ethers.parseUnits(request.amount, decimals);
-      } else {
-        valueInSmallestUnit = BigInt(request.amount);
-      }
-    } catch {
-      // Fallback to parsing as formatted amount
-      valueInSmallestUnit = ethers.parseUnits(request.amount, decimals);
-    }
+    // Resolve token address, EVM chain and amount in smallest unit
+    const { tokenAddress, chainId: evmChainId, value: valueInSmallestUnit } = this.getAuthorizationTerms(request);
 
     // Build ERC-3009 authorization
     const authorization: ERC3009Authorization = {
-      from: wallet.address,
+      from,
       to: request.recipient,
       value: valueInSmallestUnit.toString(),
       validAfter: 0, // Valid immediately
@@ -128,7 +127,6 @@ export class PaymentSigner {
 
     // EIP-712 domain - for x402 exact scheme on EVM
     const tokenMetadata = TOKEN_METADATA[tokenAddress.toLowerCase()] || { name: 'x402', version: '1' };
-    const evmChainId = this.wormholeToEvmChainId(request.chain);
 
     const domain: ethers.TypedDataDomain = {
       name: tokenMetadata.name,
@@ -160,11 +158,11 @@ export class PaymentSigner {
     };
 
     // Sign with EIP-712
-    const signature = await wallet.signTypedData(domain, types, value);
+    const signature = await signer.signTypedData(domain, types, value);
 
     // Build x402 payment payload
     const paymentPayload: PaymentPayload = {
-      x402Version: 1,
+      x402Version: request.version ?? 1,
       scheme: request.scheme,
       network: request.network,
       payload: {
@@ -231,6 +229,101 @@ export class PaymentSigner {
     }
   }
 
+  /**
+   * Why a signed payment does not pay for `request`, or `undefined` if it does: checks the
+   * scheme, network, recipient, value, validity window (which may not outlast the requirement's
+   * `maxTimeoutSeconds`) and EIP-712 signature. Used by resource servers and facilitators.
+   */
+  checkPayment(request: Payment402Request, payload: PaymentPayload): string | undefined {
+    const { authorization, signature } = payload.payload ?? {};
+    if (!authorization || !signature) {
+      return 'Payment payload has no signed authorization';
+    }
+    if (payload.scheme !== request.scheme || payload.network !== request.network) {
+      return `Payment is for ${payload.scheme} on ${payload.network}, expected ${request.scheme} on ${request.network}`;
+    }
+    if (String(authorization.to).toLowerCase() !== request.recipient.toLowerCase()) {
+      return `Payment is addressed to ${authorization.to}, expected ${request.recipient}`;
+    }
+
+    const terms = this.getAuthorizationTerms(request);
+    let value: bigint;
+    try {
+      value = BigInt(authorization.value);
+    } catch {
+      return `Invalid payment value ${authorization.value}`;
+    }
+    // `upto` authorizes at most the cap; `exact` the price itself
+    const valueOk = request.scheme === 'upto' ? value > 0n && value <= terms.value : value === terms.value;
+    if (!valueOk) {
+      return `Payment authorizes ${authorization.value}, expected ${request.scheme === 'upto' ? 'at most ' : ''}${terms.value}`;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (Number(authorization.validAfter) > now) {
+      return 'Payment authorization is not valid yet';
+    }
+    if (Number(authorization.validBefore) <= now) {
+      return 'Payment authorization has expired';
+    }
+    const maxTimeoutSeconds = request.original?.maxTimeoutSeconds;
+    if (maxTimeoutSeconds !== undefined && Number(authorization.validBefore) - now > maxTimeoutSeconds) {
+      return `Payment authorization is valid for more than ${maxTimeoutSeconds} seconds`;
+    }
+
+    if (!this.verifySignature(signature, authorization, authorization.from, terms.chainId, terms.tokenAddress)) {
+      return 'Invalid payment signature';
+    }
+    return undefined;
+  }
+
+  /**
+   * Token address, EVM chain ID and value (in smallest unit) that an authorization for
+   * `request` carries, as `sign()` computes them. Resource servers use it to check that an
+   * incoming payment authorizes what they asked for.
+   */
+  getAuthorizationTerms(request: Payment402Request): { tokenAddress: string; chainId: number; value: bigint } {
+    const tokenAddress = this.resolveTokenAddress(request.token, request.chain);
+    const decimals = this.getTokenDecimals(request.token);
+
+    // Integer amounts are in the token's smallest unit (as x402 specifies); decimals are formatted
+    const value = /^\d+$/.test(request.amount)
+      ? BigInt(request.amount)
+      : ethers.parseUnits(request.amount, decimals);
+
+    return { tokenAddress, chainId: this.wormholeToEvmChainId(request.chain), value };
+  }
+
+  /**
+   * Resolve address, symbol (when known) and decimals for a token on a chain.
+   * Used by callers that need to value or budget a payment before signing it.
+   */
+  getTokenInfo(token: string, wormholeChainId: number): { address: string; symbol?: string; decimals: number } {
+    const address = this.resolveTokenAddress(token, wormholeChainId);
+    let symbol: string | undefined = token.startsWith('0x') ? undefined : token.toUpperCase();
+
+    if (!symbol) {
+      for (const [candidate, addresses] of Object.entries(TOKEN_SYMBOL_TO_ADDRESS)) {
+        if (Object.values(addresses).some((a) => a.toLowerCase() === address.toLowerCase())) {
+          symbol = candidate;
+          break;
+        }
+      }
+    }
+
+    return { address, symbol, decimals: this.getTokenDecimals(token) };
+  }
+
+  /**
+   * Signer for a session: the manager's session signer, or the session's unencrypted key.
+   */
+  private async getSigner(session: StoredSession): Promise<SessionSigner> {
+    if (this.sessionManager) {
+      return await this.sessionManager.getSessionSigner(session, this.masterCredentialId);
+    }
+    return LocalSessionSigner.fromPrivateKey(session.encryptedPrivateKey);
+  }
+
   /**
    * Get token decimals by address or symbol.
    */
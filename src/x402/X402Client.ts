@@ -17,6 +17,16 @@
  * 6. Client retries request with `PAYMENT-SIGNATURE` header.
  * 7. Server verifies/settles payment and returns resource.
  * 
+ * Both protocol layouts are understood, and the client answers in the one the server used:
+ * - v1: requirements in the `PAYMENT-REQUIRED` header, payment in `PAYMENT-SIGNATURE`,
+ *   settlement in `PAYMENT-RESPONSE`.
+ * - v2: requirements in a JSON 402 body (`accepts`), payment in `X-PAYMENT`, settlement in
+ *   `X-PAYMENT-RESPONSE`.
+ * 
+ * For the `upto` scheme (metered resources such as LLM APIs) the authorization covers the
+ * maximum and the budget is reserved for it; once the server reports the settled amount in
+ * `PAYMENT-RESPONSE`, only that amount is recorded as spent.
+ * 
  * Reference: https://github.com/coinbase/x402
  */
 
@@ -24,8 +34,11 @@ import { PaymentParser } from './PaymentParser';
 import { PaymentSigner } from './PaymentSigner';
 import { NonceManager } from './NonceManager';
 import { CronosFacilitatorAdapter } from './adapters/CronosFacilitatorAdapter';
+import { FacilitatorRegistry } from './adapters/FacilitatorAdapter';
+import { HttpFacilitatorClient } from './adapters/HttpFacilitatorClient';
 import { SessionKeyManager } from '../session/SessionKeyManager';
-import { VeridexSDK } from '@veridex/sdk';
+import { PaymentContext } from '../session/SpendingTracker';
+import { VeridexSDK, TokenBalance } from '@veridex/sdk';
 import { StoredSession } from '../session/SessionStorage';
 import { UCPClient } from '../ucp/UCPClient';
 import {
@@ -33,17 +46,23 @@ import {
   Payment402Response,
   PaymentSettlementResponse,
   X402ClientConfig,
+  X402Layout,
 } from '../types/x402';
 import { AgentPaymentError, AgentPaymentErrorCode } from '../types/errors';
+import { PaymentPreflight, X402Preflight } from '../types/preflight';
+import { PreflightReport } from '../preflight/PreflightReport';
+import { ethers } from 'ethers';
 
 // Header names as per x402 spec
 const HEADER_PAYMENT_REQUIRED = 'PAYMENT-REQUIRED';
 const HEADER_PAYMENT_SIGNATURE = 'PAYMENT-SIGNATURE';
 const HEADER_PAYMENT_RESPONSE = 'PAYMENT-RESPONSE';
+const HEADER_X_PAYMENT = 'X-PAYMENT';
+const HEADER_X_PAYMENT_RESPONSE = 'X-PAYMENT-RESPONSE';
 const HEADER_UCP_INITIATION = 'x-ucp-initiation-url';
 
 // Default configuration
-const DEFAULT_CONFIG: Required<X402ClientConfig> = {
+const DEFAULT_CONFIG: Required<Omit<X402ClientConfig, 'facilitators'>> = {
   defaultFacilitator: '',
   paymentTimeoutMs: 30000,
   maxRetries: 1,
@@ -55,26 +74,49 @@ export class X402Client {
   private signer: PaymentSigner;
   private nonceManager: NonceManager;
   private ucpClient: UCPClient;
-  private cronosAdapter?: CronosFacilitatorAdapter;
-  private config: Required<X402ClientConfig>;
+  private config: Required<Omit<X402ClientConfig, 'facilitators'>>;
+  /** Facilitators that settle payments, by network and server-named URL */
+  readonly facilitators: FacilitatorRegistry;
 
+  /**
+   * @param masterCredentialId - Master credential ID, to decrypt keys of sessions the manager
+   *   loaded or imported rather than created
+   */
   constructor(
     private sessionManager: SessionKeyManager,
     public coreSDK: VeridexSDK,
-    config: X402ClientConfig = {}
+    config: X402ClientConfig = {},
+    masterCredentialId?: string
   ) {
     this.parser = new PaymentParser();
-    this.signer = new PaymentSigner();
+    this.signer = new PaymentSigner(sessionManager, masterCredentialId);
     this.nonceManager = new NonceManager();
-    this.ucpClient = new UCPClient(coreSDK);
-    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.ucpClient = new UCPClient(coreSDK, sessionManager, masterCredentialId);
+    const { facilitators, ...rest } = config;
+    this.config = { ...DEFAULT_CONFIG, ...rest };
+    this.facilitators = facilitators ?? this.createFacilitators();
+  }
 
-    // Initialize Cronos adapter if default facilitator is set or for on-demand use
-    if (this.config.defaultFacilitator.includes('cronos')) {
-        this.cronosAdapter = new CronosFacilitatorAdapter(
-            this.config.defaultFacilitator.includes('mainnet') ? 'cronos-mainnet' : 'cronos-testnet'
-        );
-    }
+  /**
+   * Default registry: the Cronos Facilitator for Cronos networks, and `defaultFacilitator`
+   * (when it is a URL) for every other network.
+   */
+  private createFacilitators(): FacilitatorRegistry {
+    const { defaultFacilitator } = this.config;
+    const registry = new FacilitatorRegistry({
+      defaultAdapter: /^https?:\/\//.test(defaultFacilitator)
+        ? new HttpFacilitatorClient({ url: defaultFacilitator, timeoutMs: this.config.paymentTimeoutMs })
+        : undefined,
+      http: { timeoutMs: this.config.paymentTimeoutMs },
+    });
+    const mainnet = new CronosFacilitatorAdapter('cronos-mainnet');
+    const testnet = new CronosFacilitatorAdapter('cronos-testnet');
+    return registry
+      .register('cronos', mainnet)
+      .register('cronos-mainnet', mainnet)
+      .register('eip155:25', mainnet)
+      .register('cronos-testnet', testnet)
+      .register('eip155:338', testnet);
   }
 
   /**
@@ -113,11 +155,176 @@ export class X402Client {
       headers['x-ucp-initiation-url'];
 
     if (ucpCheckoutUrl) {
+      // Amount is negotiated inside the checkout, so only the origin can be checked here
+      const originCheck = this.sessionManager.checkCounterparty(session, { origin: this.getOrigin(url) });
+      if (!originCheck.allowed) {
+        throw AgentPaymentError.fromLimitCheck(originCheck, { url });
+      }
       return await this.handleUCPFlow(ucpCheckoutUrl, url, options, session);
     }
 
     // Standard x402 flow
-    return await this.handleX402Flow(url, options, session, headers);
+    return await this.handleX402Flow(url, options, session, initialResponse, headers);
+  }
+
+  /**
+   * Dry-run {@link handleFetch}: make the unpaid request and, if it answers 402, run the
+   * payment decision pipeline (valuation, token resolution, limits and policy, balance,
+   * route and fees) without reserving budget, signing or retrying.
+   *
+   * @param url - Request URL
+   * @param options - Standard fetch options
+   * @param session - Session that would pay
+   * @returns Structured verdict; `payment` holds the x402 payment details
+   */
+  async preflight(
+    url: string,
+    options: RequestInit = {},
+    session: StoredSession
+  ): Promise<X402Preflight> {
+    const initialResponse = await this.performFetch(url, options);
+    if (initialResponse.status !== 402) {
+      return { url, status: initialResponse.status, paymentRequired: false, wouldSucceed: true, checks: [] };
+    }
+
+    const headers = this.extractHeaders(initialResponse);
+    const report = new PreflightReport();
+
+    if (headers[HEADER_UCP_INITIATION.toLowerCase()]) {
+      report.skip('valuation', 'Amount is negotiated during the UCP checkout');
+      const originCheck = this.sessionManager.checkCounterparty(session, { origin: this.getOrigin(url) });
+      if (originCheck.allowed) {
+        report.pass('counterparty', 'Origin is allowed');
+      } else {
+        report.fail('counterparty', AgentPaymentError.fromLimitCheck(originCheck, { url }));
+      }
+      return this.toX402Preflight(url, report, { protocol: 'ucp' });
+    }
+
+    const paymentRequest = await this.parsePaymentRequired(initialResponse, headers);
+    if (!paymentRequest) {
+      report.fail('valuation', new AgentPaymentError(
+        AgentPaymentErrorCode.X402_PARSE_ERROR,
+        'Failed to parse x402 payment requirements from 402 response',
+        'The server returned a 402 but neither the PAYMENT-REQUIRED header nor the JSON body held valid payment requirements.',
+        false
+      ));
+      return this.toX402Preflight(url, report, { protocol: 'x402' });
+    }
+
+    const payment = await this.preflightPayment(paymentRequest, url, session, report);
+    return this.toX402Preflight(url, report, { protocol: 'x402', requirements: paymentRequest, payment });
+  }
+
+  /**
+   * Run the x402 payment checks for a parsed payment request.
+   */
+  private async preflightPayment(
+    request: Payment402Request,
+    url: string,
+    session: StoredSession,
+    report: PreflightReport
+  ): Promise<PaymentPreflight> {
+    const amountUSD = this.estimateUSDValue(request);
+    const paymentContext = this.buildPaymentContext(url, request);
+    const tokenInfo = this.signer.getTokenInfo(request.token, request.chain);
+    const atomicAmount = this.signer.getAuthorizationTerms(request).value;
+
+    report.pass('valuation', request.scheme === 'upto'
+      ? `Up to ${paymentContext.tokenAmount} ${tokenInfo.symbol ?? request.token}, valued at up to $${amountUSD}`
+      : `${paymentContext.tokenAmount} ${tokenInfo.symbol ?? request.token} valued at $${amountUSD}`);
+    report.pass('chain', `${request.network} (Wormhole chain ${request.chain})`);
+    report.pass('token', `${tokenInfo.symbol ?? 'token'} at ${tokenInfo.address} (${tokenInfo.decimals} decimals)`);
+
+    // Without a fresh rate, checkLimits falls back to the cached one or fails the check
+    paymentContext.budgetAmount = await this.sessionManager.toBudgetCurrency(session, amountUSD).catch(() => undefined);
+    const limitResult = this.sessionManager.checkLimits(session, amountUSD, paymentContext);
+    report.recordLimits(limitResult, {
+      requestedAmount: request.amount,
+      requestedAmountUSD: amountUSD,
+      remainingDailyLimit: limitResult.remainingDailyLimitUSD,
+    });
+
+    // The facilitator submits the ERC-3009 authorization, so the payer only needs the token
+    let balance: PaymentPreflight['balance'];
+    if (this.coreSDK) {
+      try {
+        const address = session.walletAddress ?? ethers.computeAddress(session.publicKey);
+        const portfolio = await this.coreSDK.balance.getPortfolioBalance(request.chain, address);
+        const held = portfolio.tokens.find((t: TokenBalance) =>
+          t.token.address.toLowerCase() === tokenInfo.address.toLowerCase()
+        );
+        balance = { available: (held?.balance ?? 0n).toString(), required: atomicAmount.toString() };
+        if ((held?.balance ?? 0n) >= atomicAmount) {
+          report.pass('balance', `Session wallet holds ${balance.available} of the ${balance.required} needed`);
+        } else {
+          report.fail('balance', new AgentPaymentError(
+            AgentPaymentErrorCode.INSUFFICIENT_BALANCE,
+            `Insufficient ${tokenInfo.symbol ?? 'token'} balance: have ${balance.available}, need ${balance.required}`,
+            `Fund the session wallet ${address} on ${request.network}.`,
+            false
+          ));
+        }
+      } catch (error) {
+        report.skip('balance', `Balance unavailable: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    } else {
+      report.skip('balance', 'No balance provider configured');
+    }
+
+    report.pass('route', `x402 ${request.scheme} payment on ${request.network}, settled by the facilitator`);
+    report.pass('fees', 'Gas is paid by the facilitator');
+
+    return {
+      wouldSucceed: report.ok,
+      requiresApproval: report.requiresApproval,
+      amountUSD,
+      tokenAmount: paymentContext.tokenAmount ?? 0,
+      token: { symbol: tokenInfo.symbol, address: tokenInfo.address, decimals: tokenInfo.decimals },
+      chain: request.chain,
+      recipient: request.recipient,
+      remainingDailyLimitUSD: limitResult.remainingDailyLimitUSD,
+      policy: limitResult.policy,
+      balance,
+      route: {
+        success: true,
+        sourceChain: request.chain,
+        targetChain: request.chain,
+        totalAmount: atomicAmount,
+        totalFees: 0n,
+        estimatedTimeSeconds: 2,
+        steps: [{
+          action: 'transfer',
+          sourceChain: request.chain,
+          targetChain: request.chain,
+          token: tokenInfo.address,
+          amount: atomicAmount,
+          protocol: 'x402',
+          estimatedTimeSeconds: 2,
+          estimatedFeeUSD: 0,
+        }],
+      },
+      fees: { paidBy: 'facilitator', usd: 0 },
+      totalCostUSD: amountUSD,
+      checks: report.checks,
+      error: report.error,
+    };
+  }
+
+  private toX402Preflight(
+    url: string,
+    report: PreflightReport,
+    details: Pick<X402Preflight, 'protocol' | 'requirements' | 'payment'>
+  ): X402Preflight {
+    return {
+      url,
+      status: 402,
+      paymentRequired: true,
+      ...details,
+      wouldSucceed: report.ok,
+      checks: report.checks,
+      error: report.error,
+    };
   }
 
   /**
@@ -127,16 +334,17 @@ export class X402Client {
     url: string,
     options: RequestInit,
     session: StoredSession,
+    initialResponse: Response,
     headers: Record<string, string>
   ): Promise<Response> {
     // Parse payment requirements
-    const paymentRequest = this.parser.parseHeaders(headers);
+    const paymentRequest = await this.parsePaymentRequired(initialResponse, headers);
 
     if (!paymentRequest) {
       throw new AgentPaymentError(
         AgentPaymentErrorCode.X402_PARSE_ERROR,
         'Failed to parse x402 payment requirements from 402 response',
-        'The server returned a 402 but the PAYMENT-REQUIRED header was missing or invalid.',
+        'The server returned a 402 but neither the PAYMENT-REQUIRED header nor the JSON body held valid payment requirements.',
         false
       );
     }
@@ -145,45 +353,87 @@ export class X402Client {
     // Note: In production, query price oracle for accurate conversion
     const amountUSD = this.estimateUSDValue(paymentRequest);
 
-    // Check session spending limits
-    const limitResult = this.sessionManager.checkLimits(session, amountUSD);
-    if (!limitResult.allowed) {
-      throw AgentPaymentError.fromLimitExceeded(
-        limitResult.reason || 'Transaction exceeds session limits',
-        {
-          requestedAmount: paymentRequest.amount,
-          requestedAmountUSD: amountUSD,
-          remainingDailyLimit: limitResult.remainingDailyLimitUSD,
-        }
-      );
+    // Check session spending limits, sub-budgets and payTo/origin allow lists
+    const paymentContext = this.buildPaymentContext(url, paymentRequest);
+    // Reserve the amount BEFORE signing so concurrent requests cannot both pass the limits
+    const limitResult = await this.sessionManager.reserveSpending(session, amountUSD, paymentContext);
+    if (!limitResult.reservation) {
+      throw AgentPaymentError.fromLimitCheck(limitResult, {
+        requestedAmount: paymentRequest.amount,
+        requestedAmountUSD: amountUSD,
+        remainingDailyLimit: limitResult.remainingDailyLimitUSD,
+      });
     }
+    const reservation = limitResult.reservation;
 
     // Sign the payment authorization
-    const paymentResponse = await this.signer.sign(paymentRequest, session);
-
-    // Record spending BEFORE making the payment
-    // This prevents double-spending if the retry succeeds
-    await this.sessionManager.recordSpending(session, amountUSD);
+    let paymentResponse;
+    try {
+      paymentResponse = await this.signer.sign(paymentRequest, session);
+    } catch (error) {
+      await this.sessionManager.releaseReservation(session, reservation);
+      throw error;
+    }
 
     // Retry request with payment proof
+    let response: Response;
     try {
-      const response = await this.retryWithPayment(url, options, paymentResponse.paymentPayload);
-
-      // Parse settlement response if present
-      const settlementHeader = response.headers.get(HEADER_PAYMENT_RESPONSE);
-      if (settlementHeader) {
-        const settlement = this.parseSettlementResponse(settlementHeader);
-        if (!settlement.success) {
-          console.warn('[x402] Payment settlement reported failure:', settlement.error);
-        }
-      }
-
-      return response;
+      response = await this.retryWithPayment(url, options, paymentResponse.paymentPayload, paymentRequest.layout);
     } catch (error) {
-      // If payment failed, we should ideally refund the spending record
-      // But for safety, we leave it recorded (conservative approach)
+      if (error instanceof AgentPaymentError && error.code === AgentPaymentErrorCode.PAYMENT_FAILED) {
+        // The server rejected the payment, nothing was spent
+        await this.sessionManager.releaseReservation(session, reservation);
+      } else {
+        // The signed payment may have reached the server, so treat it as spent (conservative approach)
+        await this.sessionManager.commitReservation(session, reservation);
+      }
       throw error;
     }
+
+    // Parse settlement response if present
+    const settlementHeader =
+      response.headers.get(HEADER_PAYMENT_RESPONSE) ?? response.headers.get(HEADER_X_PAYMENT_RESPONSE);
+    let settledAmountUSD: number | undefined;
+    if (settlementHeader) {
+      const settlement = this.parseSettlementResponse(settlementHeader);
+      if (!settlement.success) {
+        console.warn('[x402] Payment settlement reported failure:', settlement.error);
+        await this.sessionManager.releaseReservation(session, reservation);
+        return response;
+      }
+      if (paymentRequest.scheme === 'upto') {
+        settledAmountUSD = this.getSettledAmountUSD(paymentRequest, amountUSD, settlement);
+      }
+    }
+
+    // Metered payments without a usable settled amount are charged the full cap
+    await this.sessionManager.commitReservation(session, reservation, settledAmountUSD);
+    return response;
+  }
+
+  /**
+   * USD value of what an `upto` payment actually settled, in proportion to the authorized cap.
+   * Both amounts are compared in the token's smallest unit, as signed in the authorization.
+   *
+   * @returns `undefined` if the settlement reports no usable amount or more than the cap
+   */
+  private getSettledAmountUSD(
+    request: Payment402Request,
+    capUSD: number,
+    settlement: PaymentSettlementResponse
+  ): number | undefined {
+    const cap = this.signer.getAuthorizationTerms(request).value;
+    const settledAmount = String(settlement.amount ?? '').trim();
+    if (!/^\d+$/.test(settledAmount) || cap <= 0n) {
+      console.warn('[x402] Metered settlement did not report a usable amount:', settlement.amount);
+      return undefined;
+    }
+    const settled = BigInt(settledAmount);
+    if (settled > cap) {
+      console.warn(`[x402] Settled amount ${settlement.amount} exceeds the authorized ${cap}`);
+      return undefined;
+    }
+    return capUSD * (Number(settled) / Number(cap));
   }
 
   /**
@@ -214,15 +464,31 @@ export class X402Client {
   }
 
   /**
-   * Retry a request with payment signature attached.
+   * Parse the payment requirements of a 402 response, from the `PAYMENT-REQUIRED` header (v1)
+   * or else the JSON body (v2).
+   */
+  private async parsePaymentRequired(
+    response: Response,
+    headers: Record<string, string>
+  ): Promise<Payment402Request | null> {
+    if (headers[HEADER_PAYMENT_REQUIRED.toLowerCase()]) {
+      return this.parser.parseHeaders(headers);
+    }
+    const body = await response.json().catch(() => undefined);
+    return this.parser.parseBody(body);
+  }
+
+  /**
+   * Retry a request with payment signature attached, in the header of the server's layout.
    */
   private async retryWithPayment(
     url: string,
     options: RequestInit,
-    paymentPayload: string
+    paymentPayload: string,
+    layout: X402Layout = 'header'
   ): Promise<Response> {
     const headers = new Headers(options.headers);
-    headers.set(HEADER_PAYMENT_SIGNATURE, paymentPayload);
+    headers.set(layout === 'body' ? HEADER_X_PAYMENT : HEADER_PAYMENT_SIGNATURE, paymentPayload);
 
     const retryOptions: RequestInit = {
       ...options,
@@ -241,6 +507,9 @@ export class X402Client {
         if (paymentRequired) {
           const decoded = JSON.parse(Buffer.from(paymentRequired, 'base64').toString());
           errorMessage = decoded.error || errorMessage;
+        } else {
+          const body = await response.json();
+          errorMessage = body?.error || errorMessage;
         }
       } catch {
         // Ignore parse errors
@@ -275,6 +544,34 @@ export class X402Client {
     }
   }
 
+  /**
+   * Describe a payment request for session limit checks.
+   */
+  private buildPaymentContext(url: string, request: Payment402Request): PaymentContext {
+    const tokenInfo = this.signer.getTokenInfo(request.token, request.chain);
+    const tokenAmount = this.getTokenAmount(request);
+
+    return {
+      recipient: request.recipient,
+      origin: this.getOrigin(url),
+      token: request.token,
+      tokenSymbol: tokenInfo.symbol,
+      tokenAmount,
+      chain: request.chain,
+    };
+  }
+
+  /**
+   * Resolve the origin of a request URL for origin allow/deny checks.
+   */
+  private getOrigin(url: string): string {
+    try {
+      return new URL(url).origin;
+    } catch {
+      return url;
+    }
+  }
+
   /**
    * Extract headers from response as plain object.
    */
@@ -287,7 +584,7 @@ export class X402Client {
   }
 
   /**
-   * Parse the settlement response from PAYMENT-RESPONSE header.
+   * Parse the settlement response from the PAYMENT-RESPONSE (or X-PAYMENT-RESPONSE) header.
    */
   private parseSettlementResponse(headerValue: string): PaymentSettlementResponse {
     try {
@@ -303,6 +600,15 @@ export class X402Client {
     }
   }
 
+  /**
+   * Amount of a payment request in whole tokens, read with the same unit rule the signer
+   * uses for the authorization: integer amounts are in the token's smallest unit.
+   */
+  private getTokenAmount(request: Payment402Request): number {
+    const { decimals } = this.signer.getTokenInfo(request.token, request.chain);
+    return Number(ethers.formatUnits(this.signer.getAuthorizationTerms(request).value, decimals));
+  }
+
   /**
    * Estimate USD value of a payment request.
    * 
@@ -310,7 +616,7 @@ export class X402Client {
    * For now, we assume stablecoins are 1:1 with USD.
    */
   private estimateUSDValue(request: Payment402Request): number {
-    const amount = parseFloat(request.amount);
+    const amount = this.getTokenAmount(request);
 
     // Check if token is a known stablecoin
     const stablecoins = ['USDC', 'USDT', 'DAI', 'BUSD', 'TUSD'];
@@ -318,47 +624,25 @@ export class X402Client {
       (s) => request.token.toUpperCase().includes(s)
     );
 
-    if (isStablecoin) {
-      // Amount might be in smallest unit (e.g., 1000000 = 1 USDC)
-      // If amount is very large, divide by decimals
-      if (amount > 1_000_000) {
-        return amount / 1_000_000; // Assuming 6 decimals
-      }
-      return amount;
+    if (!isStablecoin) {
+      // For non-stablecoins, we'd need a price oracle
+      console.warn('[x402] Non-stablecoin payment detected, using 1:1 USD estimate');
     }
-
-    // For non-stablecoins, we'd need a price oracle
-    // For safety, reject or use a conservative estimate
-    console.warn('[x402] Non-stablecoin payment detected, using 1:1 USD estimate');
-    return amount > 1_000_000 ? amount / 1_000_000 : amount;
+    return amount;
   }
 
   /**
-   * Settle a payment using a facilitator.
+   * Settle a payment using a facilitator: the one the server named in its requirement,
+   * otherwise the one registered for the payment's network.
    * 
    * @param request - Payment request
    * @param response - Signed payment response
+   * @throws AgentPaymentError `NETWORK_ERROR` if no facilitator handles the network
    */
   async settleWithFacilitator(
     request: Payment402Request,
     response: Payment402Response
   ): Promise<PaymentSettlementResponse> {
-    const network = request.network.toLowerCase();
-    
-    // Use specialized Cronos adapter if applicable
-    if (network.includes('cronos')) {
-        const adapter = this.cronosAdapter || new CronosFacilitatorAdapter(
-            network.includes('mainnet') ? 'cronos-mainnet' : 'cronos-testnet'
-        );
-        return adapter.settle(request, response);
-    }
-
-    // Default generic settlement (e.g. via direct RPC or generic facilitator)
-    throw new AgentPaymentError(
-        AgentPaymentErrorCode.NETWORK_ERROR,
-        `No settlement adapter available for network: ${network}`,
-        'Ensure the SDK is configured with an adapter for this network.',
-        false
-    );
+    return await this.facilitators.settle(request, response);
   }
 }
@@ -0,0 +1,290 @@
+/**
+ * @packageDocumentation
+ * @module X402Middleware
+ * @description
+ * Server-side x402: charges for HTTP resources (Node.js `http` and Connect/Express-style frameworks).
+ *
+ * For each priced route the middleware:
+ * 1. Answers requests without payment with 402 and a `PAYMENT-REQUIRED` header.
+ * 2. Checks the `PAYMENT-SIGNATURE` payload (`X-PAYMENT` from v2 clients) against the route's
+ *    price: scheme, network, recipient, value, the `validAfter`/`validBefore` window (at most
+ *    the route's `maxTimeoutSeconds`) and the EIP-712 signature (via
+ *    {@link PaymentSigner.checkPayment}).
+ * 3. Rejects nonces it has seen before from the same payer.
+ * 4. Settles through a {@link PaymentSettler} (e.g. a facilitator adapter), sets
+ *    `PAYMENT-RESPONSE` (`X-PAYMENT-RESPONSE` for `X-PAYMENT`) and passes the request on.
+ *
+ * Rejected payments get another 402 whose `PAYMENT-REQUIRED` header carries the reason in
+ * `error`. Requests to routes without a price pass through untouched. `upto` routes settle
+ * the authorized amount.
+ *
+ * @example
+ * ```typescript
+ * const paywall = createX402Middleware({
+ *   payTo: '0xYourAddress',
+ *   facilitator: new CronosFacilitatorAdapter('cronos-mainnet'),
+ *   routes: { 'GET /reports/*': { amount: '0.05', asset: 'USDC', network: 'cronos-mainnet' } },
+ * });
+ *
+ * app.use(paywall);
+ * // or: http.createServer((req, res) => paywall(req, res, () => serve(req, res)));
+ * ```
+ */
+import type { IncomingMessage, ServerResponse } from 'http';
+import { PaymentParser } from './PaymentParser';
+import { PaymentSigner } from './PaymentSigner';
+import {
+  PaymentPayload,
+  PaymentRequiredResponse,
+  PaymentRequirement,
+  PaymentSettlementResponse,
+  PaymentSettler,
+  X402Scheme,
+} from '../types/x402';
+
+const HEADER_PAYMENT_REQUIRED = 'PAYMENT-REQUIRED';
+const HEADER_PAYMENT_SIGNATURE = 'PAYMENT-SIGNATURE';
+const HEADER_PAYMENT_RESPONSE = 'PAYMENT-RESPONSE';
+const HEADER_X_PAYMENT = 'X-PAYMENT';
+const HEADER_X_PAYMENT_RESPONSE = 'X-PAYMENT-RESPONSE';
+
+const DEFAULT_MAX_TIMEOUT_SECONDS = 300;
+
+/**
+ * Price of a route.
+ */
+export interface X402RoutePrice {
+  /** Amount, as clients read `maxAmountRequired` */
+  amount: string;
+  /** Token address or symbol (default: USDC) */
+  asset?: string;
+  /** Network identifier, e.g. 'base' or 'eip155:8453' */
+  network: string;
+  /** Recipient (default: the middleware's `payTo`) */
+  payTo?: string;
+  /** Payment scheme (default: 'exact') */
+  scheme?: X402Scheme;
+  description?: string;
+  /** MIME type of the response */
+  mimeType?: string;
+  /** How long a payment stays acceptable (default: 300) */
+  maxTimeoutSeconds?: number;
+}
+
+/**
+ * Tracks used authorization nonces, so a payment cannot be replayed.
+ */
+export interface X402NonceStore {
+  /**
+   * Mark a payer's nonce as used.
+   *
+   * @param validBefore - Expiry of the authorization (Unix seconds); the nonce need not be
+   *   remembered after it, as expired authorizations are rejected anyway
+   * @returns `false` if the nonce was used before
+   */
+  consume(payer: string, nonce: string, validBefore: number): Promise<boolean>;
+}
+
+/**
+ * In-memory nonce store. Use a shared store when several server instances take payments.
+ */
+export class MemoryNonceStore implements X402NonceStore {
+  /** Expiry by payer and nonce */
+  private used: Map<string, number> = new Map();
+
+  async consume(payer: string, nonce: string, validBefore: number): Promise<boolean> {
+    const now = Math.floor(Date.now() / 1000);
+    for (const [key, expiry] of this.used) {
+      if (expiry <= now) this.used.delete(key);
+    }
+
+    const key = `${payer.toLowerCase()}:${nonce.toLowerCase()}`;
+    if (this.used.has(key)) return false;
+    this.used.set(key, validBefore);
+    return true;
+  }
+}
+
+export interface X402MiddlewareConfig {
+  /** Default recipient of payments */
+  payTo: string;
+  /**
+   * Prices by route, keyed `'<METHOD> <path>'` or `'<path>'` (any method). A path ending in
+   * `*` matches every path with that prefix; the first matching route wins.
+   */
+  routes: Record<string, X402RoutePrice>;
+  /** Settles verified payments */
+  facilitator: PaymentSettler;
+  /** Used-nonce store (default: in memory) */
+  nonceStore?: X402NonceStore;
+}
+
+/**
+ * Payment details of a paid request, set on the request as `x402`.
+ */
+export interface X402PaymentInfo {
+  /** Address that paid */
+  payer: string;
+  requirement: PaymentRequirement;
+  settlement: PaymentSettlementResponse;
+}
+
+/**
+ * Request as seen by the middleware; Express adds `originalUrl`.
+ */
+export interface X402HttpRequest extends IncomingMessage {
+  originalUrl?: string;
+  /** Set once the request was paid */
+  x402?: X402PaymentInfo;
+}
+
+export type X402Middleware = (
+  req: X402HttpRequest,
+  res: ServerResponse,
+  next?: (error?: unknown) => void
+) => Promise<void>;
+
+interface CompiledRoute {
+  method?: string;
+  path: string;
+  prefix: boolean;
+  price: X402RoutePrice;
+}
+
+/**
+ * Create middleware that charges for the configured routes.
+ */
+export function createX402Middleware(config: X402MiddlewareConfig): X402Middleware {
+  const parser = new PaymentParser();
+  const verifier = new PaymentSigner();
+  const nonceStore = config.nonceStore ?? new MemoryNonceStore();
+  const routes = compileRoutes(config.routes);
+
+  return async (req, res, next) => {
+    try {
+      const url = req.originalUrl ?? req.url ?? '/';
+      const route = findRoute(routes, req.method ?? 'GET', url.split('?')[0]);
+      if (!route) {
+        next?.();
+        return;
+      }
+
+      const requirement = toRequirement(route.price, config.payTo, resourceUrl(req, url));
+      const signatureHeader = firstHeader(req, HEADER_PAYMENT_SIGNATURE);
+      const paymentHeader = signatureHeader ?? firstHeader(req, HEADER_X_PAYMENT);
+      if (!paymentHeader) {
+        sendPaymentRequired(res, requirement, 'Payment required');
+        return;
+      }
+
+      const payload = decodePayload(paymentHeader);
+      if (!payload) {
+        sendPaymentRequired(res, requirement, 'Invalid PAYMENT-SIGNATURE payload');
+        return;
+      }
+      const request = parser.requirementToRequest(requirement);
+      const rejection = verifier.checkPayment(request, payload);
+      if (rejection) {
+        sendPaymentRequired(res, requirement, rejection);
+        return;
+      }
+
+      const { authorization, signature } = payload.payload;
+      if (!(await nonceStore.consume(authorization.from, authorization.nonce, authorization.validBefore))) {
+        sendPaymentRequired(res, requirement, 'Payment authorization nonce was already used');
+        return;
+      }
+
+      let settlement: PaymentSettlementResponse;
+      try {
+        settlement = await config.facilitator.settle(request, {
+          signature,
+          nonce: authorization.nonce,
+          deadline: authorization.validBefore,
+          paymentPayload: paymentHeader,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        sendPaymentRequired(res, requirement, `Settlement failed: ${message}`);
+        return;
+      }
+      if (!settlement.success) {
+        sendPaymentRequired(res, requirement, `Settlement failed: ${settlement.error ?? 'unknown error'}`);
+        return;
+      }
+
+      req.x402 = { payer: authorization.from, requirement, settlement };
+      res.setHeader(signatureHeader ? HEADER_PAYMENT_RESPONSE : HEADER_X_PAYMENT_RESPONSE, encode(settlement));
+      next?.();
+    } catch (error) {
+      if (next) {
+        next(error);
+      } else {
+        res.statusCode = 500;
+        res.end();
+      }
+    }
+  };
+}
+
+function compileRoutes(routes: Record<string, X402RoutePrice>): CompiledRoute[] {
+  return Object.entries(routes).map(([key, price]) => {
+    const [first, ...rest] = key.trim().split(/\s+/);
+    const method = rest.length > 0 ? first.toUpperCase() : undefined;
+    const path = rest.length > 0 ? rest.join(' ') : first;
+    const prefix = path.endsWith('*');
+    return { method, path: prefix ? path.slice(0, -1) : path, prefix, price };
+  });
+}
+
+function findRoute(routes: CompiledRoute[], method: string, path: string): CompiledRoute | undefined {
+  return routes.find((route) =>
+    (!route.method || route.method === method.toUpperCase()) &&
+    (route.prefix ? path.startsWith(route.path) : path === route.path)
+  );
+}
+
+function toRequirement(price: X402RoutePrice, payTo: string, resource: string): PaymentRequirement {
+  return {
+    scheme: price.scheme ?? 'exact',
+    network: price.network,
+    maxAmountRequired: price.amount,
+    asset: price.asset ?? 'USDC',
+    payTo: price.payTo ?? payTo,
+    description: price.description,
+    resource,
+    mimeType: price.mimeType,
+    maxTimeoutSeconds: price.maxTimeoutSeconds ?? DEFAULT_MAX_TIMEOUT_SECONDS,
+  };
+}
+
+function resourceUrl(req: IncomingMessage, url: string): string {
+  const encrypted = (req.socket as { encrypted?: boolean } | undefined)?.encrypted;
+  return `${encrypted ? 'https' : 'http'}://${req.headers.host ?? 'localhost'}${url}`;
+}
+
+function firstHeader(req: IncomingMessage, name: string): string | undefined {
+  const header = req.headers[name.toLowerCase()];
+  return Array.isArray(header) ? header[0] : header;
+}
+
+function decodePayload(header: string): PaymentPayload | undefined {
+  try {
+    const payload = JSON.parse(Buffer.from(header, 'base64').toString('utf-8'));
+    return payload && typeof payload === 'object' ? payload as PaymentPayload : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function sendPaymentRequired(res: ServerResponse, requirement: PaymentRequirement, error: string): void {
+  const body: PaymentRequiredResponse = { x402Version: 1, paymentRequirements: [requirement], error };
+  res.statusCode = 402;
+  res.setHeader(HEADER_PAYMENT_REQUIRED, encode(body));
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify({ error }));
+}
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64');
+}
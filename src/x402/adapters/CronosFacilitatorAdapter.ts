@@ -5,6 +5,7 @@ import {
   PaymentSettlementResponse 
 } from '../../types/x402';
 import { AgentPaymentError, AgentPaymentErrorCode } from '../../types/errors';
+import type { FacilitatorAdapter, FacilitatorKind } from './FacilitatorAdapter';
 
 /**
  * Adapter for the Cronos x402 Facilitator.
@@ -12,7 +13,7 @@ import { AgentPaymentError, AgentPaymentErrorCode } from '../../types/errors';
  * This adapter allows Veridex agents to use the official Cronos Facilitator
  * for verifying and settling x402 payments on Cronos EVM.
  */
-export class CronosFacilitatorAdapter {
+export class CronosFacilitatorAdapter implements FacilitatorAdapter {
   private facilitator: Facilitator;
 
   constructor(network: 'cronos-mainnet' | 'cronos-testnet' = 'cronos-testnet') {
@@ -100,6 +101,14 @@ export class CronosFacilitatorAdapter {
     }
   }
 
+  /**
+   * Payment kinds the Cronos Facilitator handles.
+   */
+  async supported(): Promise<FacilitatorKind[]> {
+    const { kinds } = await this.facilitator.getSupported();
+    return kinds;
+  }
+
   /**
    * Get supported capabilities from the facilitator.
    */
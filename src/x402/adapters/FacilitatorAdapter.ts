@@ -0,0 +1,150 @@
+/**
+ * @packageDocumentation
+ * @module FacilitatorAdapter
+ * @description
+ * Facilitators verify and settle signed x402 payments. {@link FacilitatorAdapter} is the
+ * common interface of the adapters, and {@link FacilitatorRegistry} picks one per payment:
+ * 1. The facilitator URL the server named in its requirement (`PaymentRequirement.facilitator`),
+ *    through an {@link HttpFacilitatorClient}.
+ * 2. The adapter registered for the payment's network.
+ * 3. The registry's default adapter.
+ *
+ * The registry is a facilitator adapter itself, so it can be passed wherever one is expected,
+ * e.g. to `createX402Middleware`.
+ *
+ * @example
+ * ```typescript
+ * const facilitators = new FacilitatorRegistry({ defaultAdapter: new HttpFacilitatorClient({ url: 'https://x402.org/facilitator' }) })
+ *   .register('cronos-mainnet', new CronosFacilitatorAdapter('cronos-mainnet'));
+ * const agent = new AgentWallet({ ..., x402: { facilitators } });
+ * ```
+ */
+import {
+  Payment402Request,
+  Payment402Response,
+  PaymentSettlementResponse,
+  PaymentSettler,
+} from '../../types/x402';
+import { AgentPaymentError, AgentPaymentErrorCode } from '../../types/errors';
+import { HttpFacilitatorClient, HttpFacilitatorClientConfig } from './HttpFacilitatorClient';
+
+/**
+ * A payment kind a facilitator handles.
+ */
+export interface FacilitatorKind {
+  x402Version: number;
+  scheme: string;
+  network: string;
+}
+
+export interface FacilitatorAdapter extends PaymentSettler {
+  /**
+   * Check a signed payment without settling it.
+   *
+   * @returns Whether the facilitator would settle the payment
+   */
+  verify(request: Payment402Request, response: Payment402Response): Promise<boolean>;
+
+  /**
+   * Settle a signed payment on chain.
+   */
+  settle(request: Payment402Request, response: Payment402Response): Promise<PaymentSettlementResponse>;
+
+  /**
+   * Payment kinds the facilitator handles.
+   */
+  supported(): Promise<FacilitatorKind[]>;
+}
+
+export interface FacilitatorRegistryConfig {
+  /** Adapter for networks without a registered one */
+  defaultAdapter?: FacilitatorAdapter;
+  /** Options for the clients of facilitator URLs named by servers, e.g. request timeouts */
+  http?: Omit<HttpFacilitatorClientConfig, 'url'>;
+  /** Use the facilitator URLs servers name in their requirements (default: true) */
+  useRequirementFacilitators?: boolean;
+}
+
+export class FacilitatorRegistry implements FacilitatorAdapter {
+  /** Adapters by lower-case network */
+  private adapters: Map<string, FacilitatorAdapter> = new Map();
+  /** Clients of server-named facilitators by URL */
+  private clients: Map<string, HttpFacilitatorClient> = new Map();
+
+  constructor(private config: FacilitatorRegistryConfig = {}) { }
+
+  /**
+   * Use an adapter for a network, replacing any registered before.
+   */
+  register(network: string, adapter: FacilitatorAdapter): this {
+    this.adapters.set(network.toLowerCase(), adapter);
+    return this;
+  }
+
+  unregister(network: string): boolean {
+    return this.adapters.delete(network.toLowerCase());
+  }
+
+  /**
+   * The adapter registered for a network, if any.
+   */
+  get(network: string): FacilitatorAdapter | undefined {
+    return this.adapters.get(network.toLowerCase());
+  }
+
+  /**
+   * The adapter that handles a payment.
+   *
+   * @throws AgentPaymentError `NETWORK_ERROR` if no adapter handles the payment's network
+   */
+  resolve(request: Payment402Request): FacilitatorAdapter {
+    const url = request.facilitator;
+    if (url && this.config.useRequirementFacilitators !== false) {
+      let client = this.clients.get(url);
+      if (!client) {
+        client = new HttpFacilitatorClient({ ...this.config.http, url });
+        this.clients.set(url, client);
+      }
+      return client;
+    }
+
+    const adapter = this.get(request.network) ?? this.config.defaultAdapter;
+    if (!adapter) {
+      throw new AgentPaymentError(
+        AgentPaymentErrorCode.NETWORK_ERROR,
+        `No settlement adapter available for network: ${request.network}`,
+        'Register a facilitator adapter for this network, or configure a default adapter.',
+        false,
+        { network: request.network }
+      );
+    }
+    return adapter;
+  }
+
+  async verify(request: Payment402Request, response: Payment402Response): Promise<boolean> {
+    return await this.resolve(request).verify(request, response);
+  }
+
+  async settle(request: Payment402Request, response: Payment402Response): Promise<PaymentSettlementResponse> {
+    return await this.resolve(request).settle(request, response);
+  }
+
+  /**
+   * Payment kinds of the registered and default adapters.
+   */
+  async supported(): Promise<FacilitatorKind[]> {
+    const adapters = new Set(this.adapters.values());
+    if (this.config.defaultAdapter) adapters.add(this.config.defaultAdapter);
+
+    const kinds: FacilitatorKind[] = [];
+    for (const adapter of adapters) {
+      for (const kind of await adapter.supported()) {
+        const known = kinds.some((k) =>
+          k.x402Version === kind.x402Version && k.scheme === kind.scheme && k.network === kind.network
+        );
+        if (!known) kinds.push(kind);
+      }
+    }
+    return kinds;
+  }
+}
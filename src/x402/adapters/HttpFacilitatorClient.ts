@@ -0,0 +1,144 @@
+/**
+ * @packageDocumentation
+ * @module HttpFacilitatorClient
+ * @description
+ * Facilitator adapter for any facilitator exposing the standard x402 REST endpoints:
+ * - `POST /verify` and `POST /settle` with `{ x402Version, paymentPayload, paymentRequirements }`
+ * - `GET /supported` returning `{ kinds }`
+ *
+ * Requests also carry the base64 payment as `paymentHeader`, and settlement responses are read
+ * in both the standard (`success`, `transaction`, `errorReason`) and the Cronos (`event`,
+ * `txHash`, `error`) form, so the client works with facilitators speaking either dialect.
+ *
+ * @example
+ * ```typescript
+ * const facilitator = new HttpFacilitatorClient({ url: 'https://x402.org/facilitator' });
+ * const settlement = await facilitator.settle(request, payment);
+ * ```
+ */
+import {
+  Payment402Request,
+  Payment402Response,
+  PaymentSettlementResponse,
+} from '../../types/x402';
+import { AgentPaymentError, AgentPaymentErrorCode } from '../../types/errors';
+import type { FacilitatorAdapter, FacilitatorKind } from './FacilitatorAdapter';
+
+export interface HttpFacilitatorClientConfig {
+  /** Base URL of the facilitator; endpoints are appended to it */
+  url: string;
+  /** Extra request headers, e.g. for authentication */
+  headers?: Record<string, string>;
+  /** Request timeout in milliseconds (default: 30000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Settlement response in the standard or the Cronos form.
+ */
+interface SettleResponseBody {
+  success?: boolean;
+  transaction?: string;
+  errorReason?: string;
+  event?: string;
+  txHash?: string;
+  error?: string;
+  network?: string;
+  amount?: string;
+  value?: string;
+}
+
+export class HttpFacilitatorClient implements FacilitatorAdapter {
+  private baseUrl: string;
+
+  constructor(private config: HttpFacilitatorClientConfig) {
+    this.baseUrl = config.url.replace(/\/+$/, '');
+  }
+
+  async verify(request: Payment402Request, response: Payment402Response): Promise<boolean> {
+    const body = await this.call<{ isValid?: boolean; invalidReason?: string | null }>(
+      'verify',
+      this.toRequestBody(request, response)
+    );
+    if (!body.isValid && body.invalidReason) {
+      console.warn(`[x402] Facilitator ${this.baseUrl} rejected the payment: ${body.invalidReason}`);
+    }
+    return body.isValid === true;
+  }
+
+  async settle(request: Payment402Request, response: Payment402Response): Promise<PaymentSettlementResponse> {
+    const body = await this.call<SettleResponseBody>('settle', this.toRequestBody(request, response));
+    const success = body.success ?? body.event === 'payment.settled';
+
+    return {
+      success,
+      transactionHash: body.transaction ?? body.txHash,
+      network: body.network ?? request.network,
+      amount: body.amount ?? body.value ?? request.amount,
+      facilitator: this.baseUrl,
+      ...(success ? {} : { error: body.errorReason ?? body.error ?? 'Settlement failed' }),
+    };
+  }
+
+  async supported(): Promise<FacilitatorKind[]> {
+    const body = await this.call<{ kinds?: FacilitatorKind[] }>('supported');
+    return Array.isArray(body.kinds) ? body.kinds : [];
+  }
+
+  private toRequestBody(request: Payment402Request, response: Payment402Response): Record<string, unknown> {
+    let paymentPayload: unknown;
+    try {
+      paymentPayload = JSON.parse(Buffer.from(response.paymentPayload, 'base64').toString('utf-8'));
+    } catch {
+      paymentPayload = undefined;
+    }
+    return {
+      x402Version: request.version ?? 1,
+      paymentPayload,
+      paymentHeader: response.paymentPayload,
+      paymentRequirements: request.original,
+    };
+  }
+
+  private async call<T>(endpoint: 'verify' | 'settle' | 'supported', body?: Record<string, unknown>): Promise<T> {
+    const url = `${this.baseUrl}/${endpoint}`;
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: body ? 'POST' : 'GET',
+        headers: { 'Content-Type': 'application/json', ...this.config.headers },
+        body: body ? JSON.stringify(body) : undefined,
+        signal: AbortSignal.timeout(this.config.timeoutMs ?? 30000),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new AgentPaymentError(
+        AgentPaymentErrorCode.NETWORK_ERROR,
+        `Facilitator ${endpoint} request to ${url} failed: ${message}`,
+        'Check that the facilitator is reachable, then retry.',
+        true,
+        { url }
+      );
+    }
+
+    const text = await response.text();
+    let parsed: unknown;
+    try {
+      parsed = text ? JSON.parse(text) : {};
+    } catch {
+      parsed = undefined;
+    }
+    if (!response.ok || !parsed || typeof parsed !== 'object') {
+      throw new AgentPaymentError(
+        AgentPaymentErrorCode.NETWORK_ERROR,
+        `Facilitator ${endpoint} request to ${url} failed: HTTP ${response.status} ${text.slice(0, 200)}`,
+        response.status >= 500
+          ? 'The facilitator had an internal error; retry shortly.'
+          : 'Check the facilitator URL and credentials.',
+        response.status >= 500,
+        { url, status: response.status }
+      );
+    }
+    return parsed as T;
+  }
+}
@@ -120,6 +120,25 @@ describe('AlertManager', () => {
             expect(status.approved).toBe(false);
             expect(status.expired).toBe(false);
         });
+
+        it('should consume an approval once for up to the approved amount', () => {
+            manager.requestApproval('tx-123', 60, "Human approval required by rule 'large'");
+            expect(manager.consumeApproval('tx-123', 60)).toBe(false);
+
+            manager.approveTransaction('tx-123', 'master-key-hash');
+            expect(manager.consumeApproval('tx-123', 80)).toBe(false);
+            expect(manager.consumeApproval('tx-123', 60)).toBe(true);
+            expect(manager.consumeApproval('tx-123', 60)).toBe(false);
+        });
+
+        it('should check an approval without consuming it', () => {
+            manager.requestApproval('tx-123', 60);
+            manager.approveTransaction('tx-123', 'master-key-hash');
+
+            expect(manager.canUseApproval('tx-123', 80)).toBe(false);
+            expect(manager.canUseApproval('tx-123', 60)).toBe(true);
+            expect(manager.consumeApproval('tx-123', 60)).toBe(true);
+        });
     });
 
     describe('Anomaly Detection', () => {
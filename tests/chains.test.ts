@@ -7,6 +7,10 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { ChainClientFactory } from '../src/chains/ChainClientFactory';
 import { AgentChainClient } from '../src/chains/ChainClient';
+import { VaultExecutor } from '../src/chains/VaultExecutor';
+import { LocalSessionSigner } from '../src/signers/SessionSigner';
+import { AgentPaymentErrorCode } from '../src/types/errors';
+import { ethers } from 'ethers';
 
 // Mock the @veridex/sdk modules
 vi.mock('@veridex/sdk', async () => {
@@ -240,3 +244,68 @@ describe('AgentChainClient Interface', () => {
         expect(typeof client.getTokenPriceUSD).toBe('function');
     });
 });
+
+describe('VaultExecutor', () => {
+    const userKeyHash = '0x' + 'd'.repeat(64);
+    const recipient = '0x0000000000000000000000000000000000000001';
+    let client: AgentChainClient;
+    let executor: VaultExecutor;
+
+    beforeEach(() => {
+        client = ChainClientFactory.createClient('base', 'testnet');
+        vi.spyOn(client, 'buildTransferPayload').mockResolvedValue('0xabcdef');
+        vi.spyOn(client, 'getNonce').mockResolvedValue(7n);
+        vi.spyOn(client, 'computeVaultAddress').mockReturnValue('0x00000000000000000000000000000000000000aa');
+        executor = new VaultExecutor(() => client);
+    });
+
+    it('should dispatch a hub message signed by the session key', async () => {
+        const dispatch = vi.spyOn(client, 'dispatch').mockResolvedValue({ transactionHash: '0xfeed' });
+        const session = ethers.Wallet.createRandom();
+
+        const result = await executor.transfer(new LocalSessionSigner(session), { userKeyHash, chain: 10004, recipient, amount: 5_000_000n });
+
+        expect(result.transactionHash).toBe('0xfeed');
+        expect(client.buildTransferPayload).toHaveBeenCalledWith({
+            targetChain: 10004,
+            token: ethers.ZeroAddress,
+            recipient,
+            amount: 5_000_000n,
+        });
+        const [signature, x, y, targetChain, payload, nonce] = dispatch.mock.calls[0];
+        const messageHash = ethers.solidityPackedKeccak256(
+            ['uint16', 'bytes', 'uint256', 'bytes32'],
+            [10004, '0xabcdef', 7n, userKeyHash]
+        );
+        expect(ethers.verifyMessage(ethers.getBytes(messageHash), signature)).toBe(session.address);
+        expect('0x04' + x.toString(16).padStart(64, '0') + y.toString(16).padStart(64, '0')).toBe(session.signingKey.publicKey);
+        expect([targetChain, payload, nonce]).toEqual([10004, '0xabcdef', 7n]);
+    });
+
+    it('should report the vault address for the master key', () => {
+        expect(executor.getVaultAddress(10004, userKeyHash)).toBe('0x00000000000000000000000000000000000000aa');
+        expect(client.computeVaultAddress).toHaveBeenCalledWith(userKeyHash);
+    });
+
+    it('should wrap dispatch failures as retryable payment errors', async () => {
+        vi.spyOn(client, 'dispatch').mockRejectedValue(new Error('nonce too low'));
+
+        const error = await executor
+            .transfer(new LocalSessionSigner(ethers.Wallet.createRandom()), { userKeyHash, chain: 10004, recipient, amount: 1n })
+            .catch((e) => e);
+
+        expect(error.code).toBe(AgentPaymentErrorCode.PAYMENT_FAILED);
+        expect(error.retryable).toBe(true);
+        expect(error.context.vault).toBe('0x00000000000000000000000000000000000000aa');
+    });
+
+    it('should refuse non-EVM chains', () => {
+        const solana = new VaultExecutor(() => ChainClientFactory.createClient('solana', 'testnet'));
+        expect(() => solana.getVaultAddress(1, userKeyHash)).toThrow(
+            expect.objectContaining({ code: AgentPaymentErrorCode.CHAIN_NOT_SUPPORTED })
+        );
+        expect(() => new VaultExecutor().getVaultAddress(1, userKeyHash)).toThrow(
+            expect.objectContaining({ code: AgentPaymentErrorCode.CHAIN_NOT_SUPPORTED })
+        );
+    });
+});
@@ -11,6 +11,11 @@ import { StoredSession, SessionKeyConfig } from '../src/session/SessionStorage';
 import { PaymentTokenizer } from '../src/ucp/PaymentTokenizer';
 import { AlertManager } from '../src/monitoring/AlertManager';
 import { AuditLogger } from '../src/monitoring/AuditLogger';
+import { AgentWallet } from '../src/AgentWallet';
+import { AgentWalletConfig } from '../src/types/agent';
+import { AgentPaymentErrorCode } from '../src/types/errors';
+import { createSDK } from '@veridex/sdk';
+import { ethers } from 'ethers';
 
 // Mock the crypto functions from @veridex/sdk
 vi.mock('@veridex/sdk', async () => {
@@ -38,6 +43,13 @@ vi.mock('@veridex/sdk', async () => {
     };
 });
 
+// AgentWallet pulls in the chain clients
+vi.mock('@veridex/sdk/chains/evm', () => ({ EVMClient: vi.fn() }));
+vi.mock('@veridex/sdk/chains/solana', () => ({ SolanaClient: vi.fn() }));
+vi.mock('@veridex/sdk/chains/aptos', () => ({ AptosClient: vi.fn() }));
+vi.mock('@veridex/sdk/chains/sui', () => ({ SuiClient: vi.fn() }));
+vi.mock('@veridex/sdk/chains/starknet', () => ({ StarknetClient: vi.fn() }));
+
 // Helper to create mock sessions
 function createMockSession(overrides: Partial<{
     keyHash: string;
@@ -312,4 +324,186 @@ describe('Integration Tests', () => {
             expect(result.allowed).toBe(true);
         });
     });
+
+    describe('17.7: Session wallet funding and sweeping', () => {
+        const VAULT = '0x000000000000000000000000000000000000dEaD';
+        // Vault addresses on each chain the sessions sweep (10004 is the Base hub)
+        const VAULTS: Record<number, string> = {
+            10004: '0x0000000000000000000000000000000000000B05',
+            10005: '0x0000000000000000000000000000000000000095',
+        };
+        const ONE_ETH = 10n ** 18n;
+        // 21000 gas for each of the two native transfers the sweep keeps back, at 1 gwei
+        const KEPT_GAS = 21_000n * 1_000_000_000n * 2n;
+        let vaultSDK: {
+            setCredential: ReturnType<typeof vi.fn>;
+            getVaultAddress: ReturnType<typeof vi.fn>;
+            transferViaRelayer: ReturnType<typeof vi.fn>;
+        };
+        let providerSpies: { mockRestore(): void }[];
+
+        const createWallet = (overrides: Partial<AgentWalletConfig> = {}) => new AgentWallet({
+            masterCredential: {
+                credentialId: 'test-credential',
+                publicKeyX: BigInt('0x' + '1'.repeat(64)),
+                publicKeyY: BigInt('0x' + '2'.repeat(64)),
+                keyHash: '0x' + 'd'.repeat(64),
+            } as any,
+            session: {
+                dailyLimitUSD: 100,
+                perTransactionLimitUSD: 25,
+                expiryHours: 1,
+                allowedChains: [10004, 10005],
+            },
+            ...overrides,
+        });
+
+        // Stands in for the session wallet's transfers; the provider below serves its balances
+        const stubTransfers = (wallet: AgentWallet) => {
+            vi.spyOn((wallet as any).vaultExecutor, 'getVaultAddress').mockImplementation((chain: any) => {
+                if (!VAULTS[chain]) throw new Error(`No vault on chain ${chain}`);
+                return VAULTS[chain];
+            });
+            return vi.spyOn(wallet as any, 'executeDirectTransfer').mockImplementation(
+                async (_session: any, _signer: any, params: any) => ({
+                    transactionHash: `0x${params.chain}-${params.token}`,
+                })
+            );
+        };
+
+        beforeEach(() => {
+            vaultSDK = {
+                setCredential: vi.fn(),
+                getVaultAddress: vi.fn().mockReturnValue(VAULT),
+                transferViaRelayer: vi.fn(),
+            };
+            vi.mocked(createSDK).mockReturnValue(vaultSDK as any);
+            providerSpies = [
+                vi.spyOn(ethers.JsonRpcProvider.prototype, 'getFeeData').mockResolvedValue(
+                    new ethers.FeeData(1_000_000_000n, 1_000_000_000n, 1_000_000_000n)
+                ),
+                vi.spyOn(ethers.JsonRpcProvider.prototype, 'getBalance').mockResolvedValue(ONE_ETH),
+                // USDC balanceOf
+                vi.spyOn(ethers.JsonRpcProvider.prototype, 'call').mockResolvedValue(
+                    ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [5_000_000n])
+                ),
+            ];
+        });
+
+        afterEach(() => {
+            providerSpies.forEach((spy) => spy.mockRestore());
+            vi.useRealTimers();
+        });
+
+        it('should fund the session wallet from the vault and audit the transfer', async () => {
+            const wallet = createWallet();
+            await wallet.init();
+            vaultSDK.transferViaRelayer.mockResolvedValue({ transactionHash: '0xfund' });
+
+            const receipt = await wallet.fundSession('5000000', 'usdc', 10004);
+
+            const address = wallet.getSessionStatus().addresses.evm;
+            expect(vaultSDK.transferViaRelayer).toHaveBeenCalledWith({
+                targetChain: 10004,
+                token: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+                recipient: address,
+                amount: 5_000_000n,
+            });
+            expect(receipt).toMatchObject({ txHash: '0xfund', status: 'confirmed', kind: 'session-fund' });
+            const [record] = await wallet.getPaymentHistory();
+            expect(record).toMatchObject({
+                txHash: '0xfund',
+                status: 'confirmed',
+                kind: 'session-fund',
+                recipient: address,
+                amount: 5_000_000n,
+                sessionKeyHash: wallet.getSessionStatus().keyHash,
+            });
+        });
+
+        it('should audit a failed funding and throw a retryable relayer error', async () => {
+            const wallet = createWallet();
+            await wallet.init();
+            vaultSDK.transferViaRelayer.mockRejectedValue(new Error('relayer down'));
+
+            const error = await wallet.fundSession('5000000', 'usdc', 10004).catch((e) => e);
+
+            expect(error.code).toBe(AgentPaymentErrorCode.RELAYER_ERROR);
+            expect(error.retryable).toBe(true);
+            expect(error.message).toContain('relayer down');
+            const [record] = await wallet.getPaymentHistory();
+            expect(record).toMatchObject({ txHash: '', status: 'failed', kind: 'session-fund' });
+        });
+
+        it('should sweep balances to the vault, keeping back gas for the native transfer', async () => {
+            const wallet = createWallet();
+            await wallet.init();
+            const transfer = stubTransfers(wallet);
+
+            const result = await wallet.sweepSession({ tokens: ['eth', 'usdc'] });
+
+            expect(result.vaultAddresses).toEqual(VAULTS);
+            expect(result.failures).toEqual([]);
+            // Tokens go first, while the wallet still has gas
+            expect(result.transfers.map((t) => `${t.chain}:${t.token}`)).toEqual([
+                '10004:usdc', '10004:eth', '10005:usdc', '10005:eth',
+            ]);
+            expect(result.transfers[0].amount).toBe('5000000');
+            expect(result.transfers[1].amount).toBe((ONE_ETH - KEPT_GAS).toString());
+            for (const [, , params] of transfer.mock.calls as any[]) {
+                expect(params.recipient).toBe(VAULTS[params.chain]);
+            }
+
+            const records = await wallet.getPaymentHistory();
+            expect(records).toHaveLength(4);
+            expect(records.every((r) => r.kind === 'session-sweep' && r.recipient === VAULTS[r.chain])).toBe(true);
+        });
+
+        it('should sweep a non-hub chain to the vault on that chain', async () => {
+            const wallet = createWallet({
+                session: { dailyLimitUSD: 100, perTransactionLimitUSD: 25, expiryHours: 1, allowedChains: [10005, 10003] },
+            });
+            await wallet.init();
+            const transfer = stubTransfers(wallet);
+
+            const result = await wallet.sweepSession({ tokens: ['usdc'] });
+
+            expect(transfer).toHaveBeenCalledTimes(1);
+            expect((transfer.mock.calls[0] as any[])[2]).toMatchObject({ chain: 10005, recipient: VAULTS[10005] });
+            expect(vaultSDK.getVaultAddress).not.toHaveBeenCalled();
+            // A chain without a known vault is reported instead of swept to another chain's vault
+            expect(result.failures).toEqual([{ chain: 10003, token: 'usdc', error: 'No vault on chain 10003' }]);
+        });
+
+        it('should keep sweeping after a chain or token fails', async () => {
+            const wallet = createWallet();
+            await wallet.init();
+            const transfer = stubTransfers(wallet);
+            transfer.mockImplementationOnce(async () => {
+                throw new Error('nonce too low');
+            });
+
+            const result = await wallet.sweepSession();
+
+            expect(result.failures).toEqual([{ chain: 10004, token: 'usdc', error: 'nonce too low' }]);
+            expect(result.transfers.map((t) => `${t.chain}:${t.token}`)).toEqual([
+                '10004:eth', '10005:usdc', '10005:eth',
+            ]);
+            expect(await wallet.getPaymentHistory()).toHaveLength(3);
+        });
+
+        it('should sweep the current session when it expires', async () => {
+            vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+            const wallet = createWallet({ sweep: { onExpiry: true, tokens: ['usdc'] } });
+            await wallet.init();
+            const transfer = stubTransfers(wallet);
+
+            await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+            vi.useRealTimers();
+
+            await vi.waitFor(() => expect(transfer).toHaveBeenCalledTimes(2));
+            const [session] = transfer.mock.calls[0] as any[];
+            expect(session.keyHash).toBe(wallet.getSessionStatus().keyHash);
+        });
+    });
 });
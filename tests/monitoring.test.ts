@@ -54,6 +54,14 @@ describe('AlertManager', () => {
             expect(alert100.type).toBe('CRITICAL');
         });
 
+        it('should report the budget currency of the spend', () => {
+            alertManager.checkSpending('session-1', 50, 100);
+            alertManager.checkSpending('session-2', 80, 100, 'EUR');
+
+            expect(triggeredAlerts[0].currency).toBe('USD');
+            expect(triggeredAlerts[1]).toMatchObject({ dailySpentUSD: 80, dailyLimitUSD: 100, currency: 'EUR' });
+        });
+
         it('should not trigger same alert twice for same session', () => {
             alertManager.checkSpending('session-1', 50, 100);
             alertManager.checkSpending('session-1', 55, 100);
@@ -200,6 +208,30 @@ describe('ComplianceExporter', () => {
             // Should be properly quoted
             expect(csv).toContain('"0x123,456"');
         });
+
+        it('should export both the USD and the budget-currency amount', () => {
+            const csv = exporter.exportToCSV([
+                sampleRecords[0],
+                { ...sampleRecords[1], budgetAmount: 40, budgetCurrency: 'EUR' },
+            ]);
+
+            const [header, usd, eur] = csv.split('\n').map((line) => line.split(','));
+            const column = (name: string) => header.indexOf(name);
+            expect([usd[column('amountUSD')], usd[column('budgetAmount')], usd[column('budgetCurrency')]]).toEqual(['100', '', '']);
+            expect([eur[column('amountUSD')], eur[column('budgetAmount')], eur[column('budgetCurrency')]]).toEqual(['50', '40', 'EUR']);
+        });
+
+        it('should mark session funding and sweeps apart from payments', () => {
+            const csv = exporter.exportToCSV([
+                sampleRecords[0],
+                { ...sampleRecords[1], kind: 'session-sweep' },
+            ]);
+
+            const [header, payment, sweep] = csv.split('\n');
+            const kindColumn = header.split(',').indexOf('kind');
+            expect(payment.split(',')[kindColumn]).toBe('payment');
+            expect(sweep.split(',')[kindColumn]).toBe('session-sweep');
+        });
     });
 });
 
@@ -0,0 +1,163 @@
+/**
+ * PolicyEngine Unit Tests
+ *
+ * Tests for declarative spending policy evaluation, rule precedence and decision traces.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PolicyEngine } from '../src/policy/PolicyEngine';
+import { SpendingPolicy } from '../src/types/policy';
+
+describe('PolicyEngine', () => {
+    let engine: PolicyEngine;
+    // Tuesday 2026-03-10 12:00 UTC
+    const noon = Date.UTC(2026, 2, 10, 12, 0, 0);
+
+    beforeEach(() => {
+        engine = new PolicyEngine();
+    });
+
+    describe('Rule Matching', () => {
+        it('should apply the default action when no rule matches', () => {
+            const policy: SpendingPolicy = {
+                rules: [{ id: 'big', action: 'deny', when: { amountUSD: { gt: 100 } } }],
+            };
+
+            expect(engine.evaluate(policy, { amountUSD: 5, context: {}, now: noon }).action).toBe('allow');
+            const strict = engine.evaluate({ ...policy, defaultAction: 'deny' }, { amountUSD: 5, context: {}, now: noon });
+            expect(strict.action).toBe('deny');
+            expect(strict.decidingRule).toBeUndefined();
+        });
+
+        it('should match recipient and origin patterns case-insensitively', () => {
+            const policy: SpendingPolicy = {
+                rules: [
+                    { id: 'vendor', action: 'deny', when: { recipients: ['0xABC*'] } },
+                    { id: 'api', action: 'deny', when: { origins: ['https://*.example.com'] } },
+                ],
+            };
+
+            const byRecipient = engine.evaluate(policy, { amountUSD: 1, context: { recipient: '0xabc123' }, now: noon });
+            expect(byRecipient.matchedRules).toEqual(['vendor']);
+
+            const byOrigin = engine.evaluate(policy, { amountUSD: 1, context: { origin: 'https://api.example.com' }, now: noon });
+            expect(byOrigin.matchedRules).toEqual(['api']);
+
+            const none = engine.evaluate(policy, { amountUSD: 1, context: { origin: 'https://example.org' }, now: noon });
+            expect(none.matchedRules).toEqual([]);
+        });
+
+        it('should not match conditions on details the payment does not provide', () => {
+            const policy: SpendingPolicy = {
+                rules: [{ id: 'usdc-only', action: 'allow', when: { tokens: ['USDC'], chains: [30] } }],
+                defaultAction: 'deny',
+            };
+
+            expect(engine.evaluate(policy, { amountUSD: 1, context: { tokenSymbol: 'usdc', chain: 30 }, now: noon }).action).toBe('allow');
+            expect(engine.evaluate(policy, { amountUSD: 1, context: { chain: 30 }, now: noon }).action).toBe('deny');
+        });
+
+        it('should support time-of-day windows that wrap past midnight', () => {
+            const policy: SpendingPolicy = {
+                rules: [{ id: 'night', action: 'deny', when: { timeOfDay: { start: '22:00', end: '06:00' } } }],
+            };
+
+            expect(engine.evaluate(policy, { amountUSD: 1, context: {}, now: noon }).action).toBe('allow');
+            expect(engine.evaluate(policy, { amountUSD: 1, context: {}, now: Date.UTC(2026, 2, 10, 23, 30) }).action).toBe('deny');
+            expect(engine.evaluate(policy, { amountUSD: 1, context: {}, now: Date.UTC(2026, 2, 11, 5, 59) }).action).toBe('deny');
+        });
+
+        it('should match days of the week in UTC', () => {
+            const policy: SpendingPolicy = {
+                rules: [{ id: 'weekend', action: 'require_approval', when: { daysOfWeek: [0, 6] } }],
+            };
+
+            expect(engine.evaluate(policy, { amountUSD: 1, context: {}, now: noon }).action).toBe('allow');
+            expect(engine.evaluate(policy, { amountUSD: 1, context: {}, now: Date.UTC(2026, 2, 14, 12) }).action).toBe('require_approval');
+        });
+
+        it('should count the current payment toward velocity conditions', () => {
+            const policy: SpendingPolicy = {
+                rules: [{ id: 'burst', action: 'deny', when: { velocity: { windowMs: 60_000, maxCount: 2 } } }],
+            };
+            const history = [
+                { timestamp: noon - 120_000, amountUSD: 1 },
+                { timestamp: noon - 30_000, amountUSD: 1 },
+            ];
+
+            expect(engine.evaluate(policy, { amountUSD: 1, context: {}, history, now: noon }).action).toBe('allow');
+            const decision = engine.evaluate(policy, {
+                amountUSD: 1,
+                context: {},
+                history: [...history, { timestamp: noon - 10_000, amountUSD: 1 }],
+                now: noon,
+            });
+            expect(decision.action).toBe('deny');
+            expect(decision.explanation).toContain('3 payments > 2');
+        });
+    });
+
+    describe('Decisions', () => {
+        const policy: SpendingPolicy = {
+            rules: [
+                { id: 'trusted', action: 'allow', when: { recipients: ['0xaaa*'] } },
+                { id: 'large', action: 'require_approval', when: { amountUSD: { gt: 50 } } },
+                { id: 'huge', action: 'deny', when: { amountUSD: { gte: 500 } } },
+            ],
+        };
+
+        it('should let deny win over require_approval and allow', () => {
+            const decision = engine.evaluate(policy, { amountUSD: 600, context: { recipient: '0xaaa1' }, now: noon });
+
+            expect(decision.action).toBe('deny');
+            expect(decision.matchedRules).toEqual(['trusted', 'large', 'huge']);
+            expect(decision.decidingRule).toBe('huge');
+        });
+
+        it('should let require_approval win over allow', () => {
+            const decision = engine.evaluate(policy, { amountUSD: 60, context: { recipient: '0xaaa1' }, now: noon });
+
+            expect(decision.action).toBe('require_approval');
+            expect(decision.decidingRule).toBe('large');
+            expect(decision.explanation).toBe("Human approval required by rule 'large' (amount $60 is > $50)");
+        });
+
+        it('should trace every rule with per-condition details', () => {
+            const decision = engine.evaluate(policy, { amountUSD: 10, context: { recipient: '0xbbb1' }, now: noon });
+
+            expect(decision.trace.map((t) => [t.ruleId, t.matched])).toEqual([
+                ['trusted', false],
+                ['large', false],
+                ['huge', false],
+            ]);
+            expect(decision.trace[0].conditions[0]).toEqual({
+                condition: 'recipients',
+                matched: false,
+                detail: 'recipient 0xbbb1 matches none of [0xaaa*]',
+            });
+        });
+    });
+
+    describe('Validation', () => {
+        it('should accept a well-formed policy', () => {
+            expect(engine.validate({
+                rules: [{ id: 'night', action: 'deny', when: { timeOfDay: { start: '22:00', end: '06:00' } } }],
+            })).toEqual([]);
+        });
+
+        it('should report malformed rules', () => {
+            const problems = engine.validate({
+                rules: [
+                    { id: 'a', action: 'deny', when: { timeOfDay: { start: '25:00', end: '06:00' } } },
+                    { id: 'a', action: 'allow', when: { velocity: { windowMs: 1000 } } },
+                ],
+            });
+
+            expect(problems).toEqual([
+                'Rule a: timeOfDay must use HH:MM (UTC)',
+                'Duplicate policy rule id: a',
+                'Rule a: velocity needs maxCount or maxAmountUSD',
+            ]);
+        });
+    });
+});
@@ -85,6 +85,33 @@ describe('React Hooks Logic Tests', () => {
             expect(getStatus(null)).toBeNull();
         });
 
+        it('should refresh on session events and unsubscribe on cleanup', () => {
+            const listeners = new Map<string, () => void>();
+            const off = vi.fn();
+            const mockWallet = {
+                getSessionStatus: vi.fn().mockReturnValue({ keyHash: '0x123', expiry: Date.now() + 1000 }),
+                onSessionEvent: vi.fn().mockImplementation((event: string, listener: () => void) => {
+                    listeners.set(event, listener);
+                    return off;
+                }),
+            };
+
+            // Simulate the hook's subscription effect
+            const subscribe = (wallet: any, refresh: () => void) => {
+                const offs = ['session:expired', 'session:revoked', 'session:rotated']
+                    .map((event) => wallet.onSessionEvent(event, refresh));
+                return () => offs.forEach((o: () => void) => o());
+            };
+
+            const refresh = vi.fn(() => mockWallet.getSessionStatus());
+            const cleanup = subscribe(mockWallet, refresh);
+            listeners.get('session:rotated')!();
+            expect(refresh).toHaveBeenCalledTimes(1);
+
+            cleanup();
+            expect(off).toHaveBeenCalledTimes(3);
+        });
+
         it('should detect expired session', () => {
             const mockStatus = {
                 isValid: false,
@@ -4,11 +4,25 @@
  * Tests for session key creation, validation, and spending limit enforcement.
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import * as fc from 'fast-check';
 import { SessionKeyManager } from '../src/session/SessionKeyManager';
+import { OnChainSessionRegistry, SessionRegistryContract } from '../src/session/OnChainSessionRegistry';
+import { LocalSessionSigner } from '../src/signers/SessionSigner';
+import { SessionKeyDerivation } from '../src/session/SessionKeyDerivation';
+import { SessionRecovery } from '../src/session/SessionRecovery';
+import { StaticFxRateProvider } from '../src/oracle/FxRates';
 import { StoredSession, SessionKeyConfig } from '../src/session/SessionStorage';
-import { AgentPaymentError } from '../src/types/errors';
+import { FileStorageAdapter } from '../src/session/adapters/FileStorageAdapter';
+import { MemoryStorageAdapter } from '../src/session/adapters/MemoryStorageAdapter';
+import { RedisStorageAdapter, RedisLikeClient } from '../src/session/adapters/RedisStorageAdapter';
+import { AgentPaymentError, AgentPaymentErrorCode } from '../src/types/errors';
+import { SpendingPolicy } from '../src/types/policy';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ethers } from 'ethers';
+import { generateKeyPairSync, createHash, sign, KeyObject } from 'crypto';
 
 // Mock the crypto functions from @veridex/sdk
 vi.mock('@veridex/sdk', async () => {
@@ -203,6 +217,1396 @@ describe('SessionKeyManager', () => {
         });
     });
 
+    describe('Counterparty Allow/Deny Lists', () => {
+        it('should reject recipients outside the allowlist (case-insensitive)', () => {
+            const session = createMockSession();
+            session.config.recipients = { allow: ['0xAbC0000000000000000000000000000000000001'] };
+
+            expect(manager.checkLimits(session, 5, { recipient: '0xabc0000000000000000000000000000000000001' }).allowed).toBe(true);
+
+            const result = manager.checkLimits(session, 5, { recipient: '0x0000000000000000000000000000000000000bad' });
+            expect(result.allowed).toBe(false);
+            expect(result.code).toBe(AgentPaymentErrorCode.RECIPIENT_NOT_ALLOWED);
+        });
+
+        it('should let deny entries win over allow entries', () => {
+            const session = createMockSession();
+            session.config.merchants = { allow: ['shop-1', 'shop-2'], deny: ['shop-2'] };
+
+            expect(manager.checkLimits(session, 5, { businessId: 'shop-1' }).allowed).toBe(true);
+            expect(manager.checkLimits(session, 5, { businessId: 'shop-2' }).code)
+                .toBe(AgentPaymentErrorCode.MERCHANT_NOT_ALLOWED);
+        });
+
+        it('should normalize origins before comparing', () => {
+            const session = createMockSession();
+            session.config.origins = { allow: ['https://API.example.com/'] };
+
+            expect(manager.checkLimits(session, 5, { origin: 'https://api.example.com' }).allowed).toBe(true);
+            expect(manager.checkLimits(session, 5, { origin: 'https://api.example.com.evil.io' }).allowed).toBe(false);
+        });
+
+        it('should map list violations to a policy error', () => {
+            const session = createMockSession();
+            session.config.recipients = { deny: ['0x0000000000000000000000000000000000000bad'] };
+
+            const result = manager.checkLimits(session, 5, { recipient: '0x0000000000000000000000000000000000000BAD' });
+            const error = AgentPaymentError.fromLimitCheck(result);
+
+            expect(error.code).toBe(AgentPaymentErrorCode.RECIPIENT_NOT_ALLOWED);
+            expect(error.retryable).toBe(false);
+        });
+    });
+
+    describe('Token and Chain Budgets', () => {
+        it('should enforce per-token budgets in token units', async () => {
+            const session = createMockSession();
+            session.config.tokenBudgets = { ETH: 0.01 };
+
+            const context = { token: 'ETH', tokenAmount: 0.006, chain: 30 };
+            expect(manager.checkLimits(session, 15, context).allowed).toBe(true);
+            await manager.recordSpending(session, 15, context);
+
+            const result = manager.checkLimits(session, 15, context);
+            expect(result.allowed).toBe(false);
+            expect(result.code).toBe(AgentPaymentErrorCode.TOKEN_LIMIT_EXCEEDED);
+
+            // Other tokens are only bound by the USD limits
+            expect(manager.checkLimits(session, 15, { token: 'USDC', tokenAmount: 15 }).allowed).toBe(true);
+        });
+
+        it('should match symbol-keyed budgets when paying by token address', async () => {
+            const session = createMockSession();
+            session.config.tokenBudgets = { USDC: 10 };
+
+            const context = { token: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', tokenSymbol: 'USDC', tokenAmount: 8 };
+            await manager.recordSpending(session, 8, context);
+
+            expect(manager.checkLimits(session, 5, { ...context, tokenAmount: 5 }).code)
+                .toBe(AgentPaymentErrorCode.TOKEN_LIMIT_EXCEEDED);
+        });
+
+        it('should enforce per-chain USD budgets', async () => {
+            const session = createMockSession();
+            session.config.allowedChains = [30, 24];
+            session.config.chainBudgetsUSD = { 30: 20 };
+
+            await manager.recordSpending(session, 15, { chain: 30 });
+
+            const result = manager.checkLimits(session, 10, { chain: 30 });
+            expect(result.allowed).toBe(false);
+            expect(result.code).toBe(AgentPaymentErrorCode.CHAIN_LIMIT_EXCEEDED);
+            expect(manager.checkLimits(session, 10, { chain: 24 }).allowed).toBe(true);
+        });
+
+        it('should reject tokens and chains outside the allowed lists', () => {
+            const session = createMockSession();
+            session.config.allowedTokens = ['USDC'];
+
+            expect(manager.checkLimits(session, 5, { token: 'usdc' }).allowed).toBe(true);
+            expect(manager.checkLimits(session, 5, { token: 'ETH' }).code)
+                .toBe(AgentPaymentErrorCode.TOKEN_NOT_SUPPORTED);
+            expect(manager.checkLimits(session, 5, { chain: 1 }).code)
+                .toBe(AgentPaymentErrorCode.CHAIN_NOT_SUPPORTED);
+        });
+
+        it('should report remaining budgets', async () => {
+            const session = createMockSession();
+            session.config.tokenBudgets = { USDC: 50 };
+            session.config.chainBudgetsUSD = { 30: 40 };
+
+            await manager.recordSpending(session, 12, { token: 'USDC', tokenAmount: 12, chain: 30 });
+
+            const status = manager.getBudgetStatus(session);
+            expect(status.tokens.USDC).toEqual({ limit: 50, spent: 12, remaining: 38 });
+            expect(status.chains[30]).toEqual({ limitUSD: 40, spentUSD: 12, remainingUSD: 28 });
+        });
+
+        it('should reject chain budgets for chains the session cannot use', async () => {
+            const masterKey = {
+                credentialId: 'test-credential-123',
+                publicKeyX: BigInt('0x' + '1'.repeat(64)),
+                publicKeyY: BigInt('0x' + '2'.repeat(64)),
+                keyHash: '0x' + 'a'.repeat(64),
+            };
+
+            await expect(manager.createSession(masterKey, {
+                dailyLimitUSD: 100,
+                perTransactionLimitUSD: 25,
+                expiryTimestamp: Date.now() + 3600000,
+                allowedChains: [30],
+                chainBudgetsUSD: { 24: 10 },
+            })).rejects.toThrow();
+        });
+    });
+
+    describe('Spending Windows', () => {
+        const HOUR = 60 * 60 * 1000;
+        const start = Date.UTC(2026, 2, 10, 12, 0, 0);
+
+        beforeEach(() => {
+            vi.useFakeTimers();
+            vi.setSystemTime(start);
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it('should not allow the daily limit to be spent twice around a reset', async () => {
+            const session = createMockSession({
+                dailyLimitUSD: 100,
+                perTransactionLimitUSD: 50,
+                expiryTimestamp: start + 48 * HOUR,
+            });
+
+            await manager.recordSpending(session, 50);
+            vi.setSystemTime(start + 23 * HOUR);
+            await manager.recordSpending(session, 50);
+
+            // Just past the old fixed reset point, the full limit is still in the window
+            vi.setSystemTime(start + 23.5 * HOUR);
+            const blocked = manager.checkLimits(session, 10);
+            expect(blocked.allowed).toBe(false);
+            expect(blocked.code).toBe(AgentPaymentErrorCode.DAILY_LIMIT_EXCEEDED);
+            expect(blocked.resetsAt).toBe(start + 24 * HOUR);
+            expect(AgentPaymentError.fromLimitCheck(blocked).remediation)
+                .toContain(new Date(start + 24 * HOUR).toISOString());
+
+            vi.setSystemTime(start + 24 * HOUR);
+            const result = manager.checkLimits(session, 50);
+            expect(result.allowed).toBe(true);
+            expect(result.remainingDailyLimitUSD).toBe(0);
+        });
+
+        it('should report when enough budget frees up for larger amounts', async () => {
+            const session = createMockSession({
+                dailyLimitUSD: 100,
+                perTransactionLimitUSD: 50,
+                expiryTimestamp: start + 48 * HOUR,
+            });
+
+            for (let i = 0; i < 4; i++) {
+                vi.setSystemTime(start + i * HOUR);
+                await manager.recordSpending(session, 25);
+            }
+
+            // $25 frees up when the first payment ages out, but $40 needs the second one gone too
+            expect(manager.checkLimits(session, 25).resetsAt).toBe(start + 24 * HOUR);
+            expect(manager.checkLimits(session, 40).resetsAt).toBe(start + 25 * HOUR);
+        });
+
+        it('should enforce rolling windows shorter than a day', async () => {
+            const session = createMockSession({ expiryTimestamp: start + 48 * HOUR });
+            session.config.windows = [{ type: 'rolling', durationMs: HOUR, limitUSD: 20 }];
+
+            await manager.recordSpending(session, 15);
+            vi.setSystemTime(start + 10 * 60 * 1000);
+
+            const result = manager.checkLimits(session, 10);
+            expect(result.allowed).toBe(false);
+            expect(result.code).toBe(AgentPaymentErrorCode.WINDOW_LIMIT_EXCEEDED);
+            expect(result.resetsAt).toBe(start + HOUR);
+
+            vi.setSystemTime(start + HOUR);
+            expect(manager.checkLimits(session, 10).allowed).toBe(true);
+        });
+
+        it('should enforce UTC calendar windows', async () => {
+            vi.setSystemTime(Date.UTC(2026, 2, 10, 23, 0, 0));
+            const session = createMockSession({ expiryTimestamp: start + 48 * HOUR });
+            session.config.windows = [{ type: 'calendar', period: 'day', limitUSD: 20 }];
+
+            await manager.recordSpending(session, 15);
+
+            const result = manager.checkLimits(session, 10);
+            expect(result.code).toBe(AgentPaymentErrorCode.WINDOW_LIMIT_EXCEEDED);
+            expect(result.resetsAt).toBe(Date.UTC(2026, 2, 11));
+
+            vi.setSystemTime(Date.UTC(2026, 2, 11, 0, 0, 1));
+            expect(manager.checkLimits(session, 10).allowed).toBe(true);
+        });
+
+        it('should treat sessions without a ledger as spent until the old reset time', async () => {
+            const session = createMockSession({ dailySpentUSD: 90 });
+            session.metadata.dailyResetAt = start + 5 * HOUR;
+
+            const result = manager.checkLimits(session, 20);
+            expect(result.allowed).toBe(false);
+            expect(result.resetsAt).toBe(start + 5 * HOUR);
+
+            // The legacy total carries over into the ledger on the next payment
+            await manager.recordSpending(session, 5);
+            expect(session.metadata.ledger).toHaveLength(2);
+            expect(manager.getDailySpentUSD(session)).toBe(95);
+        });
+
+        it('should report window status', async () => {
+            const session = createMockSession({ expiryTimestamp: start + 48 * HOUR });
+            session.config.windows = [
+                { type: 'rolling', durationMs: HOUR, limitUSD: 20 },
+                { type: 'calendar', period: 'month', limitUSD: 500 },
+            ];
+
+            await manager.recordSpending(session, 12);
+
+            const [hourly, monthly] = manager.getBudgetStatus(session).windows;
+            expect(hourly).toMatchObject({ spentUSD: 12, remainingUSD: 8, resetsAt: start + HOUR });
+            expect(monthly).toMatchObject({ spentUSD: 12, remainingUSD: 488, resetsAt: Date.UTC(2026, 3, 1) });
+        });
+    });
+
+    describe('Spend Reservations', () => {
+        it('should count pending reservations against the limits', async () => {
+            const session = createMockSession({ dailyLimitUSD: 40, perTransactionLimitUSD: 25 });
+
+            const first = await manager.reserveSpending(session, 25);
+            const second = await manager.reserveSpending(session, 25);
+
+            expect(first.reservation).toBeDefined();
+            expect(second.allowed).toBe(false);
+            expect(second.reservation).toBeUndefined();
+            expect(second.code).toBe(AgentPaymentErrorCode.DAILY_LIMIT_EXCEEDED);
+            expect(manager.checkLimits(session, 20).allowed).toBe(false);
+        });
+
+        it('should only record spending on commit', async () => {
+            const session = createMockSession();
+
+            const { reservation } = await manager.reserveSpending(session, 20, { token: 'USDC', tokenAmount: 20 });
+            expect(session.metadata.dailySpentUSD).toBe(0);
+
+            await manager.commitReservation(session, reservation!, 15);
+
+            expect(session.metadata.dailySpentUSD).toBe(15);
+            expect(session.metadata.ledger![0].tokenAmount).toBe(15);
+            expect(session.metadata.reservations).toEqual([]);
+        });
+
+        it('should return budget on release', async () => {
+            const session = createMockSession({ dailyLimitUSD: 40, perTransactionLimitUSD: 25 });
+
+            const { reservation } = await manager.reserveSpending(session, 25);
+            await manager.releaseReservation(session, reservation!);
+
+            expect(manager.checkLimits(session, 25).allowed).toBe(true);
+            expect(session.metadata.transactionCount).toBe(0);
+        });
+
+        it('should stop counting reservations once they expire', async () => {
+            const session = createMockSession({ dailyLimitUSD: 40, perTransactionLimitUSD: 25 });
+
+            await manager.reserveSpending(session, 25, {}, 1000);
+            session.metadata.reservations![0].expiresAt = Date.now() - 1;
+
+            expect((await manager.reserveSpending(session, 25)).allowed).toBe(true);
+            expect(session.metadata.reservations).toHaveLength(1);
+        });
+    });
+
+    describe('Budget Currency', () => {
+        const masterKey = {
+            credentialId: 'test-credential-123',
+            publicKeyX: BigInt('0x' + '1'.repeat(64)),
+            publicKeyY: BigInt('0x' + '2'.repeat(64)),
+            keyHash: '0x' + 'a'.repeat(64),
+        };
+        // 1 EUR = 1.25 USD
+        const fxRates = new StaticFxRateProvider({ EUR: 1.25 });
+
+        const eurSession = (overrides: Parameters<typeof createMockSession>[0] = {}) => {
+            const session = createMockSession({ dailyLimitUSD: 100, perTransactionLimitUSD: 40, ...overrides });
+            session.config.currency = 'EUR';
+            return session;
+        };
+
+        beforeEach(() => {
+            manager = new SessionKeyManager({ fxRates });
+        });
+
+        it('should check limits in the session currency and keep both amounts in the ledger', async () => {
+            const session = eurSession();
+
+            const tooLarge = await manager.reserveSpending(session, 55);
+            expect(tooLarge.code).toBe(AgentPaymentErrorCode.TRANSACTION_LIMIT_EXCEEDED);
+            expect(tooLarge.reason).toBe('Transaction amount 44 EUR exceeds per-transaction limit 40 EUR');
+
+            const { reservation } = await manager.reserveSpending(session, 50);
+            expect(reservation).toMatchObject({ amountUSD: 50, amount: 40 });
+
+            await manager.commitReservation(session, reservation!, 25);
+
+            expect(session.metadata.ledger![0]).toMatchObject({ amountUSD: 25, amount: 20 });
+            expect(manager.getDailySpentUSD(session)).toBe(20);
+            expect(session.metadata.totalSpentUSD).toBe(25);
+            expect(session.metadata.totalSpent).toBe(20);
+            expect(manager.checkLimits(session, 50).remainingDailyLimitUSD).toBe(40);
+        });
+
+        it('should fail synchronous checks until a rate is known', async () => {
+            const session = eurSession();
+
+            const result = manager.checkLimits(session, 10);
+            expect(result.allowed).toBe(false);
+            expect(result.code).toBe(AgentPaymentErrorCode.FX_RATE_UNAVAILABLE);
+
+            expect(await manager.toBudgetCurrency(session, 10)).toBe(8);
+            expect(manager.checkLimits(session, 10).allowed).toBe(true);
+        });
+
+        it('should reject payments in a currency without a rate', async () => {
+            const session = eurSession();
+            session.config.currency = 'GBP';
+
+            const error = await manager.reserveSpending(session, 10).catch((e) => e);
+            expect(error).toBeInstanceOf(AgentPaymentError);
+            expect(error.code).toBe(AgentPaymentErrorCode.FX_RATE_UNAVAILABLE);
+            expect(session.metadata.reservations ?? []).toEqual([]);
+        });
+
+        it('should report spending thresholds in the session currency', async () => {
+            const session = eurSession();
+            const events: { dailySpentUSD: number; currency: string }[] = [];
+            manager.events.on('session:limit-threshold', (event) => events.push(event));
+
+            await manager.recordSpending(session, 62.5);
+
+            expect(events[0]).toMatchObject({ threshold: 0.5, dailySpentUSD: 50, dailyLimitUSD: 100, currency: 'EUR' });
+        });
+
+        it('should validate the currency and require sub-sessions to share it', async () => {
+            const config: SessionKeyConfig = {
+                currency: 'EUR',
+                dailyLimitUSD: 100,
+                perTransactionLimitUSD: 40,
+                expiryTimestamp: Date.now() + 3600000,
+                allowedChains: [30],
+            };
+            await expect(manager.createSession(masterKey, { ...config, currency: 'EURO' }))
+                .rejects.toThrow('Invalid session currency');
+
+            const parent = await manager.createSession(masterKey, config);
+            await expect(manager.createSubSession(parent, masterKey, { ...config, currency: 'USD', dailyLimitUSD: 50 }))
+                .rejects.toThrow('Sub-session currency USD differs');
+            const child = await manager.createSubSession(parent, masterKey, { ...config, dailyLimitUSD: 50 });
+            expect(child.config.currency).toBe('EUR');
+        });
+    });
+
+    describe('Sub-Sessions', () => {
+        const masterKey = {
+            credentialId: 'test-credential-123',
+            publicKeyX: BigInt('0x' + '1'.repeat(64)),
+            publicKeyY: BigInt('0x' + '2'.repeat(64)),
+            keyHash: '0x' + 'a'.repeat(64),
+        };
+        const parentConfig = (): SessionKeyConfig => ({
+            dailyLimitUSD: 100,
+            perTransactionLimitUSD: 25,
+            expiryTimestamp: Date.now() + 2 * 3600000,
+            allowedChains: [30, 24],
+        });
+        const childConfig = (overrides: Partial<SessionKeyConfig> = {}): SessionKeyConfig => ({
+            dailyLimitUSD: 40,
+            perTransactionLimitUSD: 10,
+            expiryTimestamp: Date.now() + 3600000,
+            allowedChains: [30],
+            ...overrides,
+        });
+
+        it('should create a child linked to its parent', async () => {
+            const parent = await manager.createSession(masterKey, parentConfig());
+            const child = await manager.createSubSession(parent, masterKey, childConfig());
+
+            expect(child.parentKeyHash).toBe(parent.keyHash);
+            expect(child.keyHash).not.toBe(parent.keyHash);
+            expect((await manager.getSubSessions(parent.keyHash)).map((s) => s.keyHash)).toEqual([child.keyHash]);
+        });
+
+        it('should reject children that exceed the parent limits', async () => {
+            const parent = await manager.createSession(masterKey, parentConfig());
+            await manager.recordSpending(parent, 70);
+
+            await expect(manager.createSubSession(parent, masterKey, childConfig()))
+                .rejects.toThrow(/remaining daily budget/);
+            await expect(manager.createSubSession(parent, masterKey, childConfig({ dailyLimitUSD: 20, allowedChains: [1] })))
+                .rejects.toThrow(/not allowed by the parent/);
+            await expect(manager.createSubSession(parent, masterKey, childConfig({
+                dailyLimitUSD: 20,
+                expiryTimestamp: parent.config.expiryTimestamp + 1000,
+            }))).rejects.toThrow(/outlive/);
+        });
+
+        it('should roll child spend up into the parent', async () => {
+            const parent = await manager.createSession(masterKey, parentConfig());
+            const child = await manager.createSubSession(parent, masterKey, childConfig());
+
+            const { reservation } = await manager.reserveSpending(child, 10);
+            expect(manager.checkLimits(parent, 95).allowed).toBe(false);
+
+            await manager.commitReservation(child, reservation!);
+
+            expect(manager.getDailySpentUSD(child)).toBe(10);
+            expect(manager.getDailySpentUSD(parent)).toBe(10);
+            expect(parent.metadata.reservations).toEqual([]);
+        });
+
+        it('should enforce the parent limits on child payments', async () => {
+            const parent = await manager.createSession(masterKey, parentConfig());
+            const child = await manager.createSubSession(parent, masterKey, childConfig());
+            await manager.recordSpending(parent, 25);
+            await manager.recordSpending(parent, 25);
+            await manager.recordSpending(parent, 25);
+            await manager.recordSpending(parent, 20);
+
+            const result = await manager.reserveSpending(child, 10);
+            expect(result.allowed).toBe(false);
+            expect(result.code).toBe(AgentPaymentErrorCode.DAILY_LIMIT_EXCEEDED);
+            expect(result.reason).toContain('Parent session');
+            expect(child.metadata.reservations).toEqual([]);
+        });
+
+        it('should cascade revocation to all descendants', async () => {
+            const parent = await manager.createSession(masterKey, parentConfig());
+            const child = await manager.createSubSession(parent, masterKey, childConfig());
+            const grandchild = await manager.createSubSession(child, masterKey, childConfig({
+                dailyLimitUSD: 10,
+                expiryTimestamp: child.config.expiryTimestamp,
+            }));
+
+            await manager.revokeSession(parent.keyHash);
+
+            expect(await manager.loadSession(child.keyHash)).toBeNull();
+            expect(await manager.loadSession(grandchild.keyHash)).toBeNull();
+            expect((await manager.reserveSpending(grandchild, 5)).code).toBe(AgentPaymentErrorCode.SESSION_REVOKED);
+        });
+    });
+
+    describe('Revocation', () => {
+        const masterKey = {
+            credentialId: 'test-credential-123',
+            publicKeyX: BigInt('0x' + '1'.repeat(64)),
+            publicKeyY: BigInt('0x' + '2'.repeat(64)),
+            keyHash: '0x' + 'a'.repeat(64),
+        };
+        const config = (): SessionKeyConfig => ({
+            dailyLimitUSD: 100,
+            perTransactionLimitUSD: 25,
+            expiryTimestamp: Date.now() + 3600000,
+            allowedChains: [30],
+        });
+
+        it('should persist a tombstone with actor and reason', async () => {
+            const session = await manager.createSession(masterKey, config());
+
+            await manager.revokeSession(session.keyHash, { actor: 'ops@example.com', reason: 'prompt injection' });
+
+            const [record] = await manager.listRevokedSessions();
+            expect(record).toMatchObject({
+                keyHash: session.keyHash,
+                actor: 'ops@example.com',
+                reason: 'prompt injection',
+                masterKeyHash: masterKey.keyHash,
+            });
+            expect(record.revokedAt).toBeLessThanOrEqual(Date.now());
+        });
+
+        it('should reject in-memory copies of a revoked session', async () => {
+            const session = await manager.createSession(masterKey, config());
+            await manager.revokeSession(session.keyHash, { reason: 'compromised' });
+
+            const result = manager.checkLimits(session, 5);
+            expect(result.allowed).toBe(false);
+            expect(result.code).toBe(AgentPaymentErrorCode.SESSION_REVOKED);
+
+            const error = AgentPaymentError.fromLimitCheck(result);
+            expect(error.code).toBe(AgentPaymentErrorCode.SESSION_REVOKED);
+            expect(error.message).toContain('compromised');
+        });
+
+        it('should enforce revocations made by another process sharing storage', async () => {
+            const storage = new MemoryStorageAdapter();
+            const agentProcess = new SessionKeyManager({ storage });
+            const adminProcess = new SessionKeyManager({ storage });
+
+            const session = await agentProcess.createSession(masterKey, config());
+            await adminProcess.revokeSession(session.keyHash, { actor: 'admin' });
+
+            expect((await agentProcess.reserveSpending(session, 5)).code).toBe(AgentPaymentErrorCode.SESSION_REVOKED);
+            await expect(agentProcess.assertNotRevoked(session)).rejects.toMatchObject({
+                code: AgentPaymentErrorCode.SESSION_REVOKED,
+            });
+        });
+
+        it('should record cascaded revocations for sub-sessions', async () => {
+            const parent = await manager.createSession(masterKey, config());
+            const child = await manager.createSubSession(parent, masterKey, {
+                ...config(),
+                dailyLimitUSD: 10,
+                perTransactionLimitUSD: 5,
+                expiryTimestamp: parent.config.expiryTimestamp,
+            });
+
+            await manager.revokeSession(parent.keyHash, { reason: 'done' });
+
+            const childRecord = await manager.getRevocation(child.keyHash);
+            expect(childRecord?.reason).toContain(parent.keyHash);
+            expect(childRecord?.parentKeyHash).toBe(parent.keyHash);
+            expect(await manager.listRevokedSessions(masterKey.keyHash)).toHaveLength(2);
+        });
+    });
+
+    describe('Rotation', () => {
+        const masterKey = {
+            credentialId: 'test-credential-123',
+            publicKeyX: BigInt('0x' + '1'.repeat(64)),
+            publicKeyY: BigInt('0x' + '2'.repeat(64)),
+            keyHash: '0x' + 'a'.repeat(64),
+        };
+        const config = (): SessionKeyConfig => ({
+            dailyLimitUSD: 100,
+            perTransactionLimitUSD: 50,
+            expiryTimestamp: Date.now() + 3600000,
+            allowedChains: [30],
+            velocityLimits: [{ maxCount: 3, windowMs: 60_000 }],
+        });
+
+        it('should mint a successor with the same config and carried-over spend', async () => {
+            const session = await manager.createSession(masterKey, config());
+            await manager.recordSpending(session, 40);
+            await manager.recordSpending(session, 30);
+
+            const successor = await manager.rotateSession(session, masterKey, { actor: 'scheduler' });
+
+            expect(successor.keyHash).not.toBe(session.keyHash);
+            expect(successor.predecessorKeyHash).toBe(session.keyHash);
+            expect(successor.config.dailyLimitUSD).toBe(100);
+            expect(successor.config.expiryTimestamp).toBeGreaterThanOrEqual(session.config.expiryTimestamp);
+            expect(manager.getDailySpentUSD(successor)).toBe(70);
+            expect(successor.metadata.transactionCount).toBe(2);
+            expect(manager.checkLimits(successor, 40).allowed).toBe(false);
+
+            // Velocity windows carry over too: two payments so far, one more allowed
+            expect(manager.checkLimits(successor, 10).allowed).toBe(true);
+            await manager.recordSpending(successor, 10);
+            expect(manager.checkLimits(successor, 1).code).toBe(AgentPaymentErrorCode.VELOCITY_LIMIT_EXCEEDED);
+        });
+
+        it('should retire the old key with a rotation tombstone', async () => {
+            const session = await manager.createSession(masterKey, config());
+            const successor = await manager.rotateSession(session, masterKey, { actor: 'scheduler' });
+
+            const record = await manager.getRevocation(session.keyHash);
+            expect(record).toMatchObject({ actor: 'scheduler', reason: `Rotated to ${successor.keyHash}` });
+            expect(await manager.loadSession(session.keyHash)).toBeNull();
+            await expect(manager.rotateSession(session, masterKey)).rejects.toMatchObject({
+                code: AgentPaymentErrorCode.SESSION_REVOKED,
+            });
+        });
+
+        it('should keep the old key when retire is false', async () => {
+            const session = await manager.createSession(masterKey, config());
+            const successor = await manager.rotateSession(session, masterKey, { retire: false });
+
+            expect(await manager.getRevocation(session.keyHash)).toBeNull();
+            expect(session.successorKeyHash).toBe(successor.keyHash);
+            await expect(manager.rotateSession(session, masterKey)).rejects.toMatchObject({
+                code: AgentPaymentErrorCode.SESSION_INVALID,
+            });
+        });
+
+        it('should forward in-flight reservations on the old session to the successor', async () => {
+            const session = await manager.createSession(masterKey, config());
+            const { reservation } = await manager.reserveSpending(session, 45);
+
+            const successor = await manager.rotateSession(session, masterKey);
+            expect(successor.metadata.reservations?.map((r) => r.id)).toEqual([reservation!.id]);
+
+            await manager.commitReservation(session, reservation!);
+
+            expect(manager.getDailySpentUSD(successor)).toBe(45);
+            expect(successor.metadata.reservations).toEqual([]);
+        });
+
+        it('should re-parent sub-sessions to the successor', async () => {
+            const parent = await manager.createSession(masterKey, config());
+            const child = await manager.createSubSession(parent, masterKey, {
+                dailyLimitUSD: 20,
+                perTransactionLimitUSD: 10,
+                expiryTimestamp: parent.config.expiryTimestamp,
+                allowedChains: [30],
+            });
+
+            const successor = await manager.rotateSession(parent, masterKey);
+
+            expect(child.parentKeyHash).toBe(successor.keyHash);
+            expect(await manager.getRevocation(child.keyHash)).toBeNull();
+            await manager.recordSpending(child, 5);
+            expect(manager.getDailySpentUSD(successor)).toBe(5);
+        });
+    });
+
+    describe('Lifecycle Events', () => {
+        const masterKey = {
+            credentialId: 'test-credential-123',
+            publicKeyX: BigInt('0x' + '1'.repeat(64)),
+            publicKeyY: BigInt('0x' + '2'.repeat(64)),
+            keyHash: '0x' + 'a'.repeat(64),
+        };
+        const HOUR = 60 * 60 * 1000;
+        const config = (): SessionKeyConfig => ({
+            dailyLimitUSD: 100,
+            perTransactionLimitUSD: 50,
+            expiryTimestamp: Date.now() + HOUR,
+            allowedChains: [30],
+        });
+
+        beforeEach(() => {
+            vi.useFakeTimers();
+        });
+
+        afterEach(() => {
+            manager.events.dispose();
+            vi.useRealTimers();
+        });
+
+        it('should emit created, expiring and expired on schedule', async () => {
+            manager = new SessionKeyManager({ events: { expiryWarningMs: 5 * 60 * 1000 } });
+            const seen: string[] = [];
+            manager.events.on('session:created', () => seen.push('created'));
+            manager.events.on('session:expiring', ({ remainingMs }) => seen.push(`expiring:${remainingMs}`));
+            manager.events.on('session:expired', () => seen.push('expired'));
+
+            await manager.createSession(masterKey, config());
+            expect(seen).toEqual(['created']);
+
+            vi.advanceTimersByTime(55 * 60 * 1000);
+            expect(seen).toEqual(['created', `expiring:${5 * 60 * 1000}`]);
+
+            vi.advanceTimersByTime(5 * 60 * 1000);
+            expect(seen).toEqual(['created', `expiring:${5 * 60 * 1000}`, 'expired']);
+        });
+
+        it('should emit each spending threshold once until spend drops below it', async () => {
+            const thresholds: number[] = [];
+            manager.events.on('session:limit-threshold', ({ threshold }) => thresholds.push(threshold));
+            const session = await manager.createSession(masterKey, config());
+
+            await manager.recordSpending(session, 45);
+            await manager.recordSpending(session, 40);
+            await manager.recordSpending(session, 1);
+            expect(thresholds).toEqual([0.5, 0.8]);
+
+            await manager.recordSpending(session, 4);
+            expect(thresholds).toEqual([0.5, 0.8, 0.9]);
+
+            // Rolling spend fell back (older payments aged out), so the thresholds re-arm
+            manager.events.checkSpending(session, 60);
+            manager.events.checkSpending(session, 85);
+            expect(thresholds).toEqual([0.5, 0.8, 0.9, 0.8]);
+        });
+
+        it('should stop expiry timers and emit revoked and rotated', async () => {
+            const seen: string[] = [];
+            manager.events.on('session:revoked', ({ reason }) => seen.push(`revoked:${reason}`));
+            manager.events.on('session:rotated', ({ previousKeyHash }) => seen.push(`rotated:${previousKeyHash}`));
+            manager.events.on('session:expired', ({ keyHash }) => seen.push(`expired:${keyHash}`));
+
+            const session = await manager.createSession(masterKey, config());
+            const successor = await manager.rotateSession(session, masterKey);
+            await manager.revokeSession(successor.keyHash, { reason: 'done' });
+            vi.advanceTimersByTime(2 * HOUR);
+
+            expect(seen).toEqual([
+                `rotated:${session.keyHash}`,
+                `revoked:Rotated to ${successor.keyHash}`,
+                'revoked:done',
+            ]);
+        });
+
+        it('should unsubscribe listeners and isolate listener errors', async () => {
+            const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => { });
+            const listener = vi.fn();
+            manager.events.on('session:created', () => {
+                throw new Error('boom');
+            });
+            const off = manager.events.on('session:created', listener);
+            const once = vi.fn();
+            manager.events.once('session:created', once);
+
+            await manager.createSession(masterKey, config());
+            off();
+            await manager.createSession(masterKey, config());
+
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(once).toHaveBeenCalledTimes(1);
+            expect(errorSpy).toHaveBeenCalledTimes(2);
+            errorSpy.mockRestore();
+        });
+    });
+
+    describe('On-chain Registry', () => {
+        const masterKey = {
+            credentialId: 'test-credential-123',
+            publicKeyX: BigInt('0x' + '1'.repeat(64)),
+            publicKeyY: BigInt('0x' + '2'.repeat(64)),
+            keyHash: '0x' + 'a'.repeat(64),
+        };
+        const config = (): SessionKeyConfig => ({
+            dailyLimitUSD: 100,
+            perTransactionLimitUSD: 25.5,
+            expiryTimestamp: Date.now() + 3600000,
+            allowedChains: [30, 10004],
+        });
+
+        type HubRecord = Awaited<ReturnType<SessionRegistryContract['getSession']>>;
+
+        // In-memory stand-in for the hub contract
+        const createHub = () => {
+            const records = new Map<string, HubRecord>();
+            const authorizations: string[] = [];
+            let txCount = 0;
+            const tx = () => ({ hash: '0x' + (++txCount).toString(16).padStart(64, '0'), wait: async () => ({}) });
+            const contract: SessionRegistryContract = {
+                registerSession: vi.fn(async (userKeyHash, sessionKeyHash, sessionAddress, dailyLimit, perTransactionLimit, expiry, allowedChains, authorization) => {
+                    authorizations.push(authorization);
+                    records.set(sessionKeyHash, {
+                        userKeyHash, sessionAddress, dailyLimit, perTransactionLimit, expiry,
+                        allowedChains: allowedChains.map(BigInt), dailySpent: 0n, totalSpent: 0n, revoked: false,
+                    });
+                    return tx();
+                }),
+                revokeSession: vi.fn(async (_userKeyHash, sessionKeyHash) => {
+                    records.get(sessionKeyHash)!.revoked = true;
+                    return tx();
+                }),
+                getSession: vi.fn(async (sessionKeyHash) => records.get(sessionKeyHash) ?? {
+                    userKeyHash: ethers.ZeroHash, sessionAddress: ethers.ZeroAddress, dailyLimit: 0n,
+                    perTransactionLimit: 0n, expiry: 0n, allowedChains: [], dailySpent: 0n, totalSpent: 0n, revoked: false,
+                }),
+            };
+            return { contract, records, authorizations };
+        };
+
+        let hub: ReturnType<typeof createHub>;
+        let authorize: ReturnType<typeof vi.fn>;
+
+        beforeEach(() => {
+            hub = createHub();
+            authorize = vi.fn(async (hash: string) => `0xsigned${hash.slice(2, 10)}`);
+            manager = new SessionKeyManager({
+                registry: new OnChainSessionRegistry({
+                    hubAddress: '0x00000000000000000000000000000000000000cc',
+                    chainId: 31337n,
+                    authorize,
+                    contract: hub.contract,
+                }),
+            });
+        });
+
+        it('should register new sessions with their limits, expiry and chains', async () => {
+            const session = await manager.createSession(masterKey, config());
+
+            const record = hub.records.get(session.keyHash)!;
+            expect(record.userKeyHash).toBe(masterKey.keyHash);
+            expect(record.sessionAddress).toBe(ethers.computeAddress(session.publicKey));
+            expect(record.dailyLimit).toBe(100_000_000n);
+            expect(record.perTransactionLimit).toBe(25_500_000n);
+            expect(record.expiry).toBe(BigInt(Math.floor(session.config.expiryTimestamp / 1000)));
+            expect(record.allowedChains).toEqual([30n, 10004n]);
+            expect(authorize).toHaveBeenCalledTimes(1);
+            expect(hub.authorizations[0]).toMatch(/^0xsigned/);
+            expect(session.onChain).toMatchObject({ chainId: '31337', txHash: expect.stringMatching(/^0x/) });
+        });
+
+        it('should not store a session the hub failed to register', async () => {
+            vi.mocked(hub.contract.registerSession).mockRejectedValueOnce(new Error('execution reverted'));
+
+            const error = await manager.createSession(masterKey, config()).catch((e) => e);
+
+            expect(error.code).toBe(AgentPaymentErrorCode.RPC_ERROR);
+            expect(error.retryable).toBe(true);
+            expect(await manager.getSessionsForMasterKey(masterKey.keyHash)).toEqual([]);
+        });
+
+        it('should revoke registered sessions on the hub and keep the local revocation if that fails', async () => {
+            const session = await manager.createSession(masterKey, config());
+            await manager.revokeSession(session.keyHash);
+
+            expect(hub.records.get(session.keyHash)!.revoked).toBe(true);
+            expect((await manager.getRevocation(session.keyHash))!.onChainTxHash).toMatch(/^0x/);
+
+            const other = await manager.createSession(masterKey, config());
+            vi.mocked(hub.contract.revokeSession).mockRejectedValueOnce(new Error('rpc down'));
+            const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => { });
+
+            await manager.revokeSession(other.keyHash);
+
+            const tombstone = await manager.getRevocation(other.keyHash);
+            expect(tombstone!.onChainError).toContain('rpc down');
+            await expect(manager.assertNotRevoked(other)).rejects.toMatchObject({ code: AgentPaymentErrorCode.SESSION_REVOKED });
+            errorSpy.mockRestore();
+        });
+
+        it('should raise local spend to on-chain spend without counting it as payments', async () => {
+            const session = await manager.createSession(masterKey, { ...config(), velocityLimits: [{ maxCount: 2, windowMs: 60_000 }] });
+            await manager.recordSpending(session, 10);
+            hub.records.get(session.keyHash)!.dailySpent = 60_000_000n;
+
+            const result = await manager.syncOnChain(session);
+
+            expect(result).toMatchObject({ registered: true, revoked: false, localDailySpentUSD: 10, onChainDailySpentUSD: 60 });
+            expect(result.adjustedUSD).toBeCloseTo(50);
+            expect(manager.getDailySpentUSD(session)).toBeCloseTo(60);
+            expect(session.metadata.transactionCount).toBe(1);
+            expect(manager.checkLimits(session, 1).allowed).toBe(true);
+
+            // Local spend the hub has not seen yet is kept
+            hub.records.get(session.keyHash)!.dailySpent = 5_000_000n;
+            expect((await manager.syncOnChain(session)).adjustedUSD).toBe(0);
+            expect(manager.getDailySpentUSD(session)).toBeCloseTo(60);
+        });
+
+        it('should revoke locally what the hub revoked, without another hub transaction', async () => {
+            const session = await manager.createSession(masterKey, config());
+            hub.records.get(session.keyHash)!.revoked = true;
+
+            const result = await manager.syncOnChain(session);
+
+            expect(result.revoked).toBe(true);
+            expect((await manager.getRevocation(session.keyHash))!.actor).toBe('chain-sync');
+            expect(hub.contract.revokeSession).not.toHaveBeenCalled();
+        });
+
+        it('should require a registry for explicit registration and sync', async () => {
+            const plain = new SessionKeyManager();
+            const session = await plain.createSession(masterKey, config());
+
+            await expect(plain.syncOnChain(session)).rejects.toMatchObject({ code: AgentPaymentErrorCode.SESSION_INVALID });
+            expect(session.onChain).toBeUndefined();
+
+            await manager.registerOnChain(session);
+            expect(hub.records.has(session.keyHash)).toBe(true);
+            expect(session.onChain).toBeDefined();
+        });
+    });
+
+    // Runs against a local EVM node (anvil, hardhat) with a Veridex hub deployed:
+    // LOCAL_EVM_RPC_URL, LOCAL_EVM_PRIVATE_KEY and SESSION_HUB_ADDRESS
+    describe.skipIf(!process.env.LOCAL_EVM_RPC_URL)('On-chain Registry (local node)', () => {
+        const masterKey = {
+            credentialId: 'test-credential-123',
+            publicKeyX: BigInt('0x' + '1'.repeat(64)),
+            publicKeyY: BigInt('0x' + '2'.repeat(64)),
+            keyHash: '0x' + 'a'.repeat(64),
+        };
+
+        it('should register, read back and revoke a session', async () => {
+            const provider = new ethers.JsonRpcProvider(process.env.LOCAL_EVM_RPC_URL);
+            const runner = new ethers.Wallet(process.env.LOCAL_EVM_PRIVATE_KEY!, provider);
+            const registry = new OnChainSessionRegistry({
+                hubAddress: process.env.SESSION_HUB_ADDRESS!,
+                runner,
+                // SESSION_HUB_ADDRESS must point at a test hub that accepts the deployer's ECDSA signature as authorization
+                authorize: async (hash) => runner.signingKey.sign(hash).serialized,
+            });
+            const local = new SessionKeyManager({ registry });
+
+            const session = await local.createSession(masterKey, {
+                dailyLimitUSD: 100,
+                perTransactionLimitUSD: 25,
+                expiryTimestamp: Date.now() + 3600000,
+                allowedChains: [10004],
+            });
+            const record = await registry.getSession(session.keyHash);
+            expect(record).toMatchObject({ dailyLimitUSD: 100, perTransactionLimitUSD: 25, revoked: false });
+
+            await local.revokeSession(session.keyHash);
+            expect((await registry.getSession(session.keyHash))!.revoked).toBe(true);
+        }, 60_000);
+    });
+
+    describe('External Signers', () => {
+        const masterKey = {
+            credentialId: 'test-credential-123',
+            publicKeyX: BigInt('0x' + '1'.repeat(64)),
+            publicKeyY: BigInt('0x' + '2'.repeat(64)),
+            keyHash: '0x' + 'a'.repeat(64),
+        };
+        const config = (): SessionKeyConfig => ({
+            dailyLimitUSD: 100,
+            perTransactionLimitUSD: 25,
+            expiryTimestamp: Date.now() + 3600000,
+            allowedChains: [30],
+        });
+
+        let storage: MemoryStorageAdapter;
+        let keyHolder: ethers.HDNodeWallet;
+
+        beforeEach(() => {
+            storage = new MemoryStorageAdapter();
+            keyHolder = ethers.Wallet.createRandom();
+            manager = new SessionKeyManager({
+                storage,
+                signerFactory: async () => new LocalSessionSigner(new ethers.Wallet(keyHolder.privateKey)),
+            });
+        });
+
+        it('should create sessions whose key stays with the signer', async () => {
+            const session = await manager.createSession(masterKey, config());
+
+            expect(session.externalSigner).toBe(true);
+            expect(session.encryptedPrivateKey).not.toContain(keyHolder.privateKey.slice(2));
+            expect(session.publicKey).toBe(keyHolder.signingKey.publicKey);
+            expect(session.keyHash).toBe(ethers.keccak256(keyHolder.signingKey.publicKey));
+
+            const signer = await manager.getSessionSigner(session);
+            expect(await signer.getAddress()).toBe(keyHolder.address);
+            const error = await manager.getSessionWallet(session, masterKey.credentialId).catch((e) => e);
+            expect(error.code).toBe(AgentPaymentErrorCode.SESSION_INVALID);
+        });
+
+        it('should require the signer to be reattached after loading the session', async () => {
+            const session = await manager.createSession(masterKey, config());
+            const restarted = new SessionKeyManager({ storage });
+            const loaded = (await restarted.loadSession(session.keyHash))!;
+
+            const missing = await restarted.getSessionSigner(loaded).catch((e) => e);
+            expect(missing.code).toBe(AgentPaymentErrorCode.SESSION_INVALID);
+
+            const wrong = await restarted
+                .attachSigner(loaded, new LocalSessionSigner(new ethers.Wallet(ethers.Wallet.createRandom().privateKey)))
+                .catch((e) => e);
+            expect(wrong.code).toBe(AgentPaymentErrorCode.SESSION_INVALID);
+
+            await restarted.attachSigner(loaded, new LocalSessionSigner(new ethers.Wallet(keyHolder.privateKey)));
+            const signature = await (await restarted.getSessionSigner(loaded)).signMessage('hello');
+            expect(ethers.verifyMessage('hello', signature)).toBe(keyHolder.address);
+        });
+
+        it('should wrap in-process keys in a local signer', async () => {
+            const local = new SessionKeyManager();
+            const session = await local.createSession(masterKey, config());
+
+            const signer = await local.getSessionSigner(session, masterKey.credentialId);
+            expect(signer).toBeInstanceOf(LocalSessionSigner);
+            expect(await signer.getAddress()).toBe(ethers.computeAddress(session.publicKey));
+        });
+
+        it('should reject native key families for external signers', async () => {
+            const error = await manager
+                .createSession(masterKey, { ...config(), keyFamilies: ['solana'] })
+                .catch((e) => e);
+            expect(error.code).toBe(AgentPaymentErrorCode.SESSION_INVALID);
+        });
+    });
+
+    describe('Deterministic Keys', () => {
+        const masterKey = {
+            credentialId: 'test-credential-123',
+            publicKeyX: BigInt('0x' + '1'.repeat(64)),
+            publicKeyY: BigInt('0x' + '2'.repeat(64)),
+            keyHash: '0x' + 'a'.repeat(64),
+        };
+        const config = (): SessionKeyConfig => ({
+            dailyLimitUSD: 100,
+            perTransactionLimitUSD: 25,
+            expiryTimestamp: Date.now() + 3600000,
+            allowedChains: [10004],
+        });
+        const entropy = ethers.getBytes(ethers.id('prf-output'));
+        const derivation = () => new SessionKeyDerivation(async () => entropy);
+
+        let storage: MemoryStorageAdapter;
+
+        beforeEach(() => {
+            storage = new MemoryStorageAdapter();
+            manager = new SessionKeyManager({ storage, derivation: derivation() });
+        });
+
+        it('should derive session keys along consecutive indexes', async () => {
+            const first = await manager.createSession(masterKey, config());
+            const second = await manager.createSession(masterKey, config());
+
+            expect([first.derivationIndex, second.derivationIndex]).toEqual([0, 1]);
+            const keys = await new SessionKeyManager({ derivation: derivation() }).deriveSessionKeys(masterKey, 2);
+            expect(keys.map((k) => k.keyHash)).toEqual([first.keyHash, second.keyHash]);
+            expect(keys[0].address).toBe(ethers.computeAddress(first.publicKey));
+
+            const wallet = await manager.getSessionWallet(first, masterKey.credentialId);
+            const signer = await manager.getDerivedSessionSigner(masterKey, 0);
+            expect(await signer.getAddress()).toBe(wallet.address);
+        });
+
+        it('should bind keys to the master credential and its entropy', async () => {
+            const [key] = await manager.deriveSessionKeys(masterKey, 1);
+            const [otherMaster] = await manager.deriveSessionKeys({ ...masterKey, keyHash: '0x' + 'b'.repeat(64) }, 1);
+            const otherEntropy = new SessionKeyManager({
+                derivation: new SessionKeyDerivation(async () => ethers.getBytes(ethers.id('other'))),
+            });
+            const [otherKey] = await otherEntropy.deriveSessionKeys(masterKey, 1);
+
+            expect(otherMaster.address).not.toBe(key.address);
+            expect(otherKey.address).not.toBe(key.address);
+
+            const weak = new SessionKeyManager({ derivation: new SessionKeyDerivation(async () => new Uint8Array(8)) });
+            await expect(weak.deriveSessionKeys(masterKey, 1)).rejects.toThrow('entropy');
+        });
+
+        it('should never re-derive a revoked index', async () => {
+            await manager.createSession(masterKey, config());
+            const revoked = await manager.createSession(masterKey, config());
+            await manager.revokeSession(revoked.keyHash);
+
+            const restarted = new SessionKeyManager({ storage, derivation: derivation() });
+            const next = await restarted.createSession(masterKey, config());
+            expect(next.derivationIndex).toBe(2);
+        });
+
+        it('should require a derivation for derived-key operations', async () => {
+            const error = await new SessionKeyManager().deriveSessionKeys(masterKey, 1).catch((e) => e);
+            expect(error.code).toBe(AgentPaymentErrorCode.SESSION_INVALID);
+            expect(() => new SessionKeyManager({
+                derivation: derivation(),
+                signerFactory: async () => new LocalSessionSigner(new ethers.Wallet(ethers.id('key'))),
+            })).toThrow();
+        });
+
+        it('should recover lost sessions and their balances', async () => {
+            const sessions = [];
+            for (let i = 0; i < 3; i++) {
+                sessions.push(await manager.createSession(masterKey, config()));
+            }
+            const addresses = sessions.map((session) => ethers.computeAddress(session.publicKey));
+            // Index 0 holds ETH, index 1 was never used, index 2 has sent a transaction
+            const provider = {
+                getBalance: vi.fn(async (address: string) => (address === addresses[0] ? 5n * 10n ** 15n : 0n)),
+                getTransactionCount: vi.fn(async (address: string) => (address === addresses[2] ? 4 : 0)),
+            } as unknown as ethers.Provider;
+
+            // Storage is lost
+            const fresh = new SessionKeyManager({ storage: new MemoryStorageAdapter(), derivation: derivation() });
+            const { sessions: recovered, nextIndex } = await new SessionRecovery({
+                manager: fresh,
+                providers: { 10004: provider },
+            }).recover(masterKey, { gapLimit: 3 });
+
+            expect(recovered.map((r) => [r.index, r.status])).toEqual([[0, 'restored'], [2, 'restored']]);
+            expect(recovered[0].balances).toEqual([{ chain: 10004, token: 'native', amount: (5n * 10n ** 15n).toString() }]);
+            expect(recovered[1].transactionCount).toBe(4);
+            expect(nextIndex).toBe(3);
+
+            // Rebuilt records use the stored key and default to an expired, zero-budget config
+            const restored = (await fresh.loadSession(sessions[0].keyHash))!;
+            expect(restored.config).toMatchObject({ dailyLimitUSD: 0, allowedChains: [10004] });
+            expect(fresh.isSessionValid(restored)).toBe(false);
+            expect((await fresh.getSessionWallet(restored, masterKey.credentialId)).address).toBe(addresses[0]);
+
+            const next = await fresh.createSession(masterKey, config());
+            expect(next.derivationIndex).toBe(3);
+        });
+    });
+
+    describe('Chain Family Keys', () => {
+        const masterKey = {
+            credentialId: 'test-credential-123',
+            publicKeyX: BigInt('0x' + '1'.repeat(64)),
+            publicKeyY: BigInt('0x' + '2'.repeat(64)),
+            keyHash: '0x' + 'a'.repeat(64),
+        };
+        const config = (keyFamilies?: SessionKeyConfig['keyFamilies']): SessionKeyConfig => ({
+            dailyLimitUSD: 100,
+            perTransactionLimitUSD: 25,
+            expiryTimestamp: Date.now() + 3600000,
+            allowedChains: [1, 21, 30],
+            keyFamilies,
+        });
+
+        it('should generate encrypted native keys and report an address per family', async () => {
+            const session = await manager.createSession(masterKey, config(['solana', 'sui', 'starknet']));
+
+            expect(session.chainKeys?.solana?.curve).toBe('ed25519');
+            expect(session.chainKeys?.starknet?.curve).toBe('stark');
+            expect(session.chainKeys?.starknet?.address).toBeUndefined();
+
+            const addresses = manager.getSessionAddresses(session);
+            expect(addresses.evm).toBe(ethers.computeAddress(session.publicKey));
+            expect(addresses.solana).toMatch(/^[1-9A-HJ-NP-Za-km-z]{32,44}$/);
+            expect(addresses.sui).toMatch(/^0x[0-9a-f]{64}$/);
+            expect(addresses.starknet).toBeUndefined();
+        });
+
+        it('should restore native signers matching the stored keys', async () => {
+            const session = await manager.createSession(masterKey, config(['solana', 'sui', 'starknet']));
+
+            const solana = await manager.getChainSigner(session, 'solana', masterKey.credentialId);
+            expect(solana.publicKey.toBase58()).toBe(session.chainKeys?.solana?.address);
+
+            const sui = await manager.getChainSigner(session, 'sui', masterKey.credentialId);
+            expect(sui.toSuiAddress()).toBe(session.chainKeys?.sui?.address);
+
+            const starknet = await manager.getChainSigner(session, 'starknet', masterKey.credentialId);
+            expect(starknet.publicKey).toBe(session.chainKeys?.starknet?.publicKey);
+        });
+
+        it('should derive Starknet addresses when an account class hash is configured', async () => {
+            const starknetManager = new SessionKeyManager({ starknetAccountClassHash: '0x1234' });
+            const session = await starknetManager.createSession(masterKey, config(['starknet']));
+
+            expect(starknetManager.getSessionAddresses(session).starknet).toMatch(/^0x[0-9a-f]+$/);
+        });
+
+        it('should reject signers for families the session has no key for', async () => {
+            const session = await manager.createSession(masterKey, config());
+
+            await expect(manager.getChainSigner(session, 'solana', masterKey.credentialId))
+                .rejects.toMatchObject({ code: AgentPaymentErrorCode.SESSION_INVALID });
+            await expect(manager.createSession(masterKey, config(['cosmos' as any])))
+                .rejects.toThrow('Unknown key family');
+        });
+    });
+
+    describe('Session Bundles', () => {
+        // P-256 master passkey, signing WebAuthn-style assertions
+        const passkey = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+        const jwk = passkey.publicKey.export({ format: 'jwk' });
+        const toBigInt = (b64: string) => BigInt('0x' + Buffer.from(b64, 'base64url').toString('hex'));
+        const masterKey = {
+            credentialId: 'test-credential-123',
+            publicKeyX: toBigInt(jwk.x!),
+            publicKeyY: toBigInt(jwk.y!),
+            keyHash: '0x' + 'a'.repeat(64),
+        };
+        const signWith = (privateKey: KeyObject) => async (challenge: Uint8Array) => {
+            const authenticatorData = Buffer.alloc(37, 1);
+            const clientDataJSON = Buffer.from(JSON.stringify({
+                type: 'webauthn.get',
+                challenge: Buffer.from(challenge).toString('base64url'),
+                origin: 'https://app.example.com',
+            }));
+            const clientDataHash = createHash('sha256').update(clientDataJSON).digest();
+            const signature = sign('sha256', Buffer.concat([authenticatorData, clientDataHash]), privateKey);
+            return {
+                authenticatorData: authenticatorData.toString('base64url'),
+                clientDataJSON: clientDataJSON.toString('base64url'),
+                signature: signature.toString('base64url'),
+            };
+        };
+        const config = (): SessionKeyConfig => ({
+            dailyLimitUSD: 100,
+            perTransactionLimitUSD: 25,
+            expiryTimestamp: Date.now() + 3600000,
+            allowedChains: [30],
+        });
+
+        it('should round-trip a signed, encrypted bundle', async () => {
+            const session = await manager.createSession(masterKey, config());
+            await manager.recordSpending(session, 10);
+
+            const bundle = await manager.exportSession(session, {
+                sign: signWith(passkey.privateKey),
+                passphrase: 'hunter2',
+                kdfIterations: 1000,
+            });
+            expect(bundle.payload.encoding).toBe('encrypted');
+            expect(JSON.stringify(bundle)).not.toContain(session.encryptedPrivateKey);
+
+            const backend = new SessionKeyManager();
+            const imported = await backend.importSessionBundle(JSON.stringify(bundle), {
+                masterCredential: masterKey,
+                passphrase: 'hunter2',
+            });
+
+            expect(imported.keyHash).toBe(session.keyHash);
+            expect(imported.config).toEqual(session.config);
+            expect(backend.getDailySpentUSD(imported)).toBe(10);
+            expect((await backend.loadSession(session.keyHash))?.keyHash).toBe(session.keyHash);
+        });
+
+        it('should detect tampered limits', async () => {
+            const session = await manager.createSession(masterKey, config());
+            const bundle = await manager.exportSession(session, { sign: signWith(passkey.privateKey) });
+
+            const tampered = JSON.parse(JSON.stringify(bundle));
+            tampered.payload.session.config.dailyLimitUSD = 10000;
+
+            await expect(new SessionKeyManager().importSessionBundle(tampered, { masterCredential: masterKey }))
+                .rejects.toThrow('tampered');
+        });
+
+        it('should reject signatures from another key', async () => {
+            const session = await manager.createSession(masterKey, config());
+            const other = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+            const bundle = await manager.exportSession(session, { sign: signWith(other.privateKey) });
+
+            await expect(new SessionKeyManager().importSessionBundle(bundle, { masterCredential: masterKey }))
+                .rejects.toThrow('not valid for the master credential');
+        });
+
+        it('should reject unsigned bundles unless explicitly allowed', async () => {
+            const session = await manager.createSession(masterKey, config());
+            const bundle = await manager.exportSession(session);
+
+            await expect(new SessionKeyManager().importSessionBundle(bundle, { masterCredential: masterKey }))
+                .rejects.toMatchObject({ code: AgentPaymentErrorCode.SESSION_INVALID });
+            const imported = await new SessionKeyManager().importSessionBundle(bundle, { allowUnsigned: true });
+            expect(imported.keyHash).toBe(session.keyHash);
+        });
+
+        it('should reject a wrong passphrase', async () => {
+            const session = await manager.createSession(masterKey, config());
+            const bundle = await manager.exportSession(session, { passphrase: 'right', kdfIterations: 1000 });
+
+            await expect(new SessionKeyManager().importSessionBundle(bundle, { passphrase: 'wrong', allowUnsigned: true }))
+                .rejects.toThrow('Could not decrypt');
+        });
+
+        it('should migrate bare sessions from older SDK versions', async () => {
+            const session = await manager.createSession(masterKey, config());
+            const { metadata: _metadata, ...legacy } = session;
+
+            const imported = await new SessionKeyManager().importSessionBundle(legacy, { allowUnsigned: true });
+
+            expect(imported.keyHash).toBe(session.keyHash);
+            expect(imported.metadata.totalSpentUSD).toBe(0);
+            expect(imported.walletAddress).toMatch(/^0x[0-9a-fA-F]{40}$/);
+        });
+
+        it('should reject bundles from newer versions and malformed sessions', async () => {
+            const session = await manager.createSession(masterKey, config());
+            const bundle = await manager.exportSession(session);
+
+            await expect(new SessionKeyManager().importSessionBundle({ ...bundle, version: 99 }, { allowUnsigned: true }))
+                .rejects.toThrow('Unsupported session bundle version');
+
+            const malformed = JSON.parse(JSON.stringify(bundle));
+            malformed.payload.session.config.dailyLimitUSD = 'lots';
+            await expect(new SessionKeyManager().importSessionBundle(malformed, { allowUnsigned: true }))
+                .rejects.toThrow('config.dailyLimitUSD');
+        });
+    });
+
+    describe('Velocity Limits', () => {
+        const start = Date.UTC(2026, 2, 10, 12, 0, 0);
+
+        beforeEach(() => {
+            vi.useFakeTimers();
+            vi.setSystemTime(start);
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it('should cap payments per window with a retry-after hint', async () => {
+            const session = createMockSession({ expiryTimestamp: start + 3600000 });
+            session.config.velocityLimits = [{ maxCount: 3, windowMs: 60_000 }];
+
+            for (let i = 0; i < 3; i++) {
+                await manager.recordSpending(session, 0.01, { recipient: '0xabc' });
+                vi.advanceTimersByTime(1000);
+            }
+
+            const blocked = manager.checkLimits(session, 0.01, { recipient: '0xdef' });
+            expect(blocked.allowed).toBe(false);
+            expect(blocked.code).toBe(AgentPaymentErrorCode.VELOCITY_LIMIT_EXCEEDED);
+            expect(blocked.resetsAt).toBe(start + 60_000);
+            expect(blocked.retryAfterMs).toBe(57_000);
+
+            const error = AgentPaymentError.fromLimitCheck(blocked);
+            expect(error.retryable).toBe(true);
+            expect(error.remediation).toContain('Wait 57s');
+
+            vi.setSystemTime(start + 60_000);
+            expect(manager.checkLimits(session, 0.01, { recipient: '0xdef' }).allowed).toBe(true);
+        });
+
+        it('should count per recipient when configured', async () => {
+            const session = createMockSession({ expiryTimestamp: start + 3600000 });
+            session.config.velocityLimits = [{ maxCount: 2, windowMs: 60_000, perRecipient: true }];
+
+            await manager.recordSpending(session, 1, { recipient: '0xABC' });
+            await manager.recordSpending(session, 1, { recipient: '0xabc' });
+
+            expect(manager.checkLimits(session, 1, { recipient: '0xAbc' }).code)
+                .toBe(AgentPaymentErrorCode.VELOCITY_LIMIT_EXCEEDED);
+            expect(manager.checkLimits(session, 1, { recipient: '0xdef' }).allowed).toBe(true);
+        });
+
+        it('should count pending reservations', async () => {
+            const session = createMockSession({ expiryTimestamp: start + 3600000 });
+            session.config.velocityLimits = [{ maxCount: 1, windowMs: 60_000 }];
+
+            const first = await manager.reserveSpending(session, 1, { recipient: '0xabc' });
+            expect(first.reservation).toBeDefined();
+
+            const second = await manager.reserveSpending(session, 1, { recipient: '0xabc' });
+            expect(second.code).toBe(AgentPaymentErrorCode.VELOCITY_LIMIT_EXCEEDED);
+        });
+    });
+
+    describe('Spending Policy', () => {
+        const policy: SpendingPolicy = {
+            rules: [
+                { id: 'blocked-vendor', action: 'deny', when: { recipients: ['0xdead*'] } },
+                { id: 'large', action: 'require_approval', when: { amountUSD: { gt: 20 } } },
+            ],
+        };
+
+        it('should deny payments with the policy explanation', () => {
+            const session = createMockSession();
+            session.config.policy = policy;
+
+            const result = manager.checkLimits(session, 5, { recipient: '0xdeadbeef' });
+
+            expect(result.allowed).toBe(false);
+            expect(result.code).toBe(AgentPaymentErrorCode.POLICY_DENIED);
+            expect(result.policy?.decidingRule).toBe('blocked-vendor');
+            const error = AgentPaymentError.fromLimitCheck(result);
+            expect(error.message).toContain("Denied by rule 'blocked-vendor'");
+            expect(error.context?.policy.matchedRules).toEqual(['blocked-vendor']);
+        });
+
+        it('should require approval until the payment is approved', () => {
+            const session = createMockSession();
+            session.config.policy = policy;
+
+            const pending = manager.checkLimits(session, 22, { recipient: '0xabc' });
+            expect(pending.code).toBe(AgentPaymentErrorCode.APPROVAL_REQUIRED);
+            expect(AgentPaymentError.fromLimitCheck(pending).retryable).toBe(true);
+
+            const approved = manager.checkLimits(session, 22, { recipient: '0xabc', approved: true });
+            expect(approved.allowed).toBe(true);
+            expect(approved.policy?.action).toBe('require_approval');
+        });
+
+        it('should run built-in limits before the policy', () => {
+            const session = createMockSession({ perTransactionLimitUSD: 10 });
+            session.config.policy = policy;
+
+            const result = manager.checkLimits(session, 22, { recipient: '0xabc', approved: true });
+            expect(result.code).toBe(AgentPaymentErrorCode.TRANSACTION_LIMIT_EXCEEDED);
+            expect(result.policy).toBeUndefined();
+        });
+
+        it('should reject sessions with invalid policies', async () => {
+            const masterKey = {
+                credentialId: 'test-credential-123',
+                publicKeyX: BigInt('0x' + '1'.repeat(64)),
+                publicKeyY: BigInt('0x' + '2'.repeat(64)),
+                keyHash: '0x' + 'a'.repeat(64),
+            };
+
+            await expect(manager.createSession(masterKey, {
+                dailyLimitUSD: 100,
+                perTransactionLimitUSD: 25,
+                expiryTimestamp: Date.now() + 3600000,
+                allowedChains: [30],
+                policy: { rules: [{ id: 'x', action: 'deny', when: { daysOfWeek: [7] } }] },
+            })).rejects.toThrow('Invalid spending policy');
+        });
+    });
+
     describe('Spending Recording', () => {
         it('should update spending after transaction', async () => {
             const session = createMockSession({
@@ -250,6 +1654,75 @@ describe('SessionKeyManager', () => {
     });
 });
 
+describe('Session Storage Adapters', () => {
+    const masterKey = {
+        credentialId: 'test-credential-123',
+        publicKeyX: BigInt(1),
+        publicKeyY: BigInt(2),
+        keyHash: '0x' + 'a'.repeat(64),
+    };
+
+    const config = (): SessionKeyConfig => ({
+        dailyLimitUSD: 100,
+        perTransactionLimitUSD: 25,
+        expiryTimestamp: Date.now() + 3600000,
+        allowedChains: [30],
+    });
+
+    it('should keep sessions in memory when localStorage is unavailable', async () => {
+        const manager = new SessionKeyManager();
+        const session = await manager.createSession(masterKey, config());
+
+        const loaded = await manager.loadSession(session.keyHash);
+        expect(loaded?.keyHash).toBe(session.keyHash);
+    });
+
+    it('should persist sessions and spending across manager instances with the file adapter', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'veridex-sessions-'));
+        const filePath = path.join(dir, 'sessions.json');
+
+        try {
+            const first = new SessionKeyManager({ storage: new FileStorageAdapter({ filePath }) });
+            const session = await first.createSession(masterKey, config());
+            await first.recordSpending(session, 10);
+
+            const second = new SessionKeyManager({ storage: new FileStorageAdapter({ filePath }) });
+            const loaded = await second.loadSession(session.keyHash);
+            expect(loaded?.metadata.dailySpentUSD).toBe(10);
+
+            const sessions = await second.getSessionsForMasterKey(masterKey.keyHash);
+            expect(sessions).toHaveLength(1);
+
+            await second.revokeSession(session.keyHash);
+            expect(await second.loadSession(session.keyHash)).toBeNull();
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('should namespace keys in a Redis-compatible client', async () => {
+        const store = new Map<string, string>();
+        const client: RedisLikeClient = {
+            get: async (key) => store.get(key) ?? null,
+            set: async (key, value) => { store.set(key, value); return 'OK'; },
+            del: async (key) => (store.delete(key) ? 1 : 0),
+            keys: async (pattern) => {
+                const prefix = pattern.replace(/\\/g, '').replace(/\*$/, '');
+                return Array.from(store.keys()).filter((k) => k.startsWith(prefix));
+            },
+        };
+
+        const manager = new SessionKeyManager({
+            storage: new RedisStorageAdapter({ client, namespace: 'agent-1:' }),
+        });
+        const session = await manager.createSession(masterKey, config());
+
+        expect(store.has(`agent-1:veridex_session_${session.keyHash}`)).toBe(true);
+        const sessions = await manager.getSessionsForMasterKey(masterKey.keyHash);
+        expect(sessions.map((s) => s.keyHash)).toEqual([session.keyHash]);
+    });
+});
+
 // Property-based tests
 describe('SessionKeyManager - Property Tests', () => {
     describe('Property 1: Session Key Spending Limits Are Never Exceeded', () => {
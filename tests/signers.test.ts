@@ -0,0 +1,194 @@
+/**
+ * Session Signer Tests
+ *
+ * Tests for the in-process, remote (Web3Signer-compatible) and child-process session signers.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { LocalSessionSigner, SessionSigner } from '../src/signers/SessionSigner';
+import { RemoteSessionSigner } from '../src/signers/RemoteSessionSigner';
+import { ChildProcessSessionSigner } from '../src/signers/ChildProcessSessionSigner';
+import { AgentPaymentErrorCode } from '../src/types/errors';
+
+const domain: ethers.TypedDataDomain = {
+    name: 'USD Coin',
+    version: '2',
+    chainId: 8453,
+    verifyingContract: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+};
+const types = {
+    TransferWithAuthorization: [
+        { name: 'from', type: 'address' },
+        { name: 'to', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'bytes32' },
+    ],
+};
+const transaction: ethers.TransactionRequest = {
+    to: '0x0000000000000000000000000000000000000001',
+    value: 1000n,
+    nonce: 3,
+    gasLimit: 21000n,
+    maxFeePerGas: 2_000_000_000n,
+    maxPriorityFeePerGas: 1_000_000n,
+    chainId: 8453n,
+    type: 2,
+};
+
+// Signs through every operation and checks each result against the expected address
+async function expectSignsAs(signer: SessionSigner, address: string): Promise<void> {
+    expect(await signer.getAddress()).toBe(address);
+
+    expect(ethers.verifyMessage('hello', await signer.signMessage('hello'))).toBe(address);
+    const bytes = ethers.getBytes(ethers.id('payload'));
+    expect(ethers.verifyMessage(bytes, await signer.signMessage(bytes))).toBe(address);
+
+    const value = { from: address, to: transaction.to, value: 1_000_000n, nonce: ethers.id('nonce') };
+    expect(ethers.verifyTypedData(domain, types, value, await signer.signTypedData(domain, types, value))).toBe(address);
+
+    const signed = ethers.Transaction.from(await signer.signTransaction(transaction));
+    expect(signed.from).toBe(address);
+    expect(signed.value).toBe(1000n);
+    expect(signed.nonce).toBe(3);
+}
+
+describe('LocalSessionSigner', () => {
+    it('should sign messages, typed data and transactions with the wallet key', async () => {
+        const wallet = ethers.Wallet.createRandom();
+        await expectSignsAs(LocalSessionSigner.fromPrivateKey(wallet.privateKey), wallet.address);
+    });
+});
+
+describe('RemoteSessionSigner', () => {
+    // Minimal Web3Signer eth1 JSON-RPC endpoint
+    const key = ethers.Wallet.createRandom();
+    const requests: { method: string; params: any[]; authorization?: string }[] = [];
+    let server: http.Server;
+    let url: string;
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk) => { body += chunk; });
+            req.on('end', async () => {
+                let { id, method, params } = JSON.parse(body);
+                requests.push({ method, params, authorization: req.headers.authorization });
+                let response: object;
+                const account = method === 'eth_signTransaction' ? params[0].from : params[0];
+                if (method !== 'eth_accounts' && ethers.getAddress(account) !== key.address) {
+                    method = 'unknown-account';
+                }
+                switch (method) {
+                    case 'eth_accounts':
+                        response = { result: [key.address.toLowerCase()] };
+                        break;
+                    case 'eth_sign':
+                        response = { result: await key.signMessage(ethers.getBytes(params[1])) };
+                        break;
+                    case 'eth_signTypedData': {
+                        const { EIP712Domain: _, ...messageTypes } = params[1].types;
+                        response = { result: await key.signTypedData(params[1].domain, messageTypes, params[1].message) };
+                        break;
+                    }
+                    case 'eth_signTransaction': {
+                        const { gas, from: _, ...tx } = params[0];
+                        response = { result: await key.signTransaction({ ...tx, gasLimit: gas }) };
+                        break;
+                    }
+                    default:
+                        response = { error: { code: -32000, message: 'Signer not found for identifier' } };
+                }
+                res.setHeader('Content-Type', 'application/json');
+                res.end(JSON.stringify({ jsonrpc: '2.0', id, ...response }));
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should sign through the Web3Signer API', async () => {
+        const signer = new RemoteSessionSigner({ url, headers: { Authorization: 'Bearer token' } });
+
+        await expectSignsAs(signer, key.address);
+
+        expect(requests.map((r) => r.method)).toContain('eth_accounts');
+        expect(requests.every((r) => r.authorization === 'Bearer token')).toBe(true);
+        const signTx = requests.find((r) => r.method === 'eth_signTransaction')!;
+        expect(signTx.params[0]).toMatchObject({ from: key.address, gas: '0x5208', nonce: '0x3', chainId: '0x2105' });
+    });
+
+    it('should surface signer rejections and unreachable signers', async () => {
+        const unknown = new RemoteSessionSigner({ url, address: ethers.Wallet.createRandom().address });
+        const rejected = await unknown.signMessage('hello').catch((e) => e);
+        expect(rejected.code).toBe(AgentPaymentErrorCode.SESSION_INVALID);
+        expect(rejected.message).toContain('Signer not found');
+
+        const offline = new RemoteSessionSigner({ url: 'http://127.0.0.1:1', address: key.address, timeoutMs: 2000 });
+        const error = await offline.signMessage('hello').catch((e) => e);
+        expect(error.code).toBe(AgentPaymentErrorCode.NETWORK_ERROR);
+        expect(error.retryable).toBe(true);
+    });
+});
+
+describe('ChildProcessSessionSigner', () => {
+    let dir: string;
+    let signer: ChildProcessSessionSigner | undefined;
+
+    beforeAll(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-signer-'));
+    });
+
+    afterEach(async () => {
+        await signer?.close();
+        signer = undefined;
+    });
+
+    afterAll(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should generate and use a key that only the worker reads', async () => {
+        const keyFile = path.join(dir, 'generated.key');
+        signer = new ChildProcessSessionSigner({ keyFile, generate: true });
+
+        const address = await signer.getAddress();
+        const stored = new ethers.Wallet(fs.readFileSync(keyFile, 'utf8').trim());
+        expect(address).toBe(stored.address);
+        expect(fs.statSync(keyFile).mode & 0o777).toBe(0o600);
+
+        await expectSignsAs(signer, address);
+    });
+
+    it('should refuse to generate a key without a key file', () => {
+        expect(() => new ChildProcessSessionSigner({ generate: true })).toThrow('generate requires a keyFile');
+    });
+
+    it('should sign with an existing key file after a restart', async () => {
+        const wallet = ethers.Wallet.createRandom();
+        const keyFile = path.join(dir, 'existing.key');
+        fs.writeFileSync(keyFile, wallet.privateKey, { mode: 0o600 });
+        signer = new ChildProcessSessionSigner({ keyFile });
+
+        expect(await signer.getAddress()).toBe(wallet.address);
+        await signer.close();
+        expect(ethers.verifyMessage('again', await signer.signMessage('again'))).toBe(wallet.address);
+    });
+
+    it('should fail requests when the worker cannot load a key', async () => {
+        signer = new ChildProcessSessionSigner({ keyFile: path.join(dir, 'missing.key') });
+
+        const error = await signer.getAddress().catch((e) => e);
+        expect(error.code).toBe(AgentPaymentErrorCode.SESSION_INVALID);
+        expect(error.message).toContain('exited');
+    });
+});
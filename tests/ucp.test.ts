@@ -226,8 +226,9 @@ describe('UCPCredentialProvider', () => {
         // UCPCredentialProvider requires a SessionKeyManager
         // For this test, we'll mock it
         const mockSessionManager = {
-            checkLimits: vi.fn().mockReturnValue({ allowed: true }),
-            recordSpending: vi.fn(),
+            reserveSpending: vi.fn().mockResolvedValue({ allowed: true, reservation: { id: 'res_1' } }),
+            commitReservation: vi.fn(),
+            releaseReservation: vi.fn(),
         } as any;
 
         const provider = new UCPCredentialProvider(mockSessionManager);
@@ -241,8 +242,9 @@ describe('UCPCredentialProvider', () => {
 
     it('should include expected capabilities in profile', () => {
         const mockSessionManager = {
-            checkLimits: vi.fn().mockReturnValue({ allowed: true }),
-            recordSpending: vi.fn(),
+            reserveSpending: vi.fn().mockResolvedValue({ allowed: true, reservation: { id: 'res_1' } }),
+            commitReservation: vi.fn(),
+            releaseReservation: vi.fn(),
         } as any;
 
         const provider = new UCPCredentialProvider(mockSessionManager);
@@ -4,12 +4,33 @@
  * Tests for x402 payment parsing, signing, and flow handling.
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
 import * as fc from 'fast-check';
+import * as http from 'http';
+import { AddressInfo } from 'net';
 import { PaymentParser } from '../src/x402/PaymentParser';
 import { PaymentSigner } from '../src/x402/PaymentSigner';
+import { X402Client } from '../src/x402/X402Client';
+import { createX402Middleware, X402HttpRequest } from '../src/x402/X402Middleware';
+import { FacilitatorAdapter, FacilitatorRegistry } from '../src/x402/adapters/FacilitatorAdapter';
+import { HttpFacilitatorClient } from '../src/x402/adapters/HttpFacilitatorClient';
+import { LocalFacilitator } from '../src/x402/LocalFacilitator';
+import { SessionKeyManager } from '../src/session/SessionKeyManager';
+import { MemoryStorageAdapter } from '../src/session/adapters/MemoryStorageAdapter';
+import { LocalSessionSigner } from '../src/signers/SessionSigner';
 import { StoredSession } from '../src/session/SessionStorage';
+import { AgentPaymentError, AgentPaymentErrorCode } from '../src/types/errors';
 import { ethers } from 'ethers';
+import { decrypt, deriveEncryptionKey } from '@veridex/sdk';
+
+vi.mock('@veridex/sdk', () => ({
+    generateSecp256k1KeyPair: vi.fn(),
+    computeSessionKeyHash: vi.fn(),
+    deriveEncryptionKey: vi.fn().mockResolvedValue({} as CryptoKey),
+    encrypt: vi.fn(),
+    decrypt: vi.fn(),
+    VeridexSDK: class { },
+}));
 
 describe('PaymentParser', () => {
     let parser: PaymentParser;
@@ -113,6 +134,56 @@ describe('PaymentParser', () => {
 
             expect(result!.chain).toBe(30); // Should map to Wormhole Base ID
         });
+
+        it('should map CAIP-2 EVM networks', () => {
+            const requirement = createPaymentRequirement('eip155:84532');
+            const encoded = Buffer.from(JSON.stringify(requirement)).toString('base64');
+            const result = parser.parseHeaders({ 'payment-required': encoded });
+
+            expect(result!.chain).toBe(10004); // Base Sepolia
+        });
+    });
+
+    describe('Body Parsing', () => {
+        it('should parse a v2 402 body with accepts and resource metadata', () => {
+            const result = parser.parseBody({
+                x402Version: 2,
+                resource: { url: 'https://api.example.com/data', mimeType: 'application/json' },
+                accepts: [{
+                    scheme: 'exact',
+                    network: 'eip155:8453',
+                    amount: '1000000',
+                    asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+                    payTo: '0x0000000000000000000000000000000000000001',
+                    description: 'Market data',
+                }],
+            });
+
+            expect(result!.amount).toBe('1000000');
+            expect(result!.chain).toBe(30);
+            expect(result!.version).toBe(2);
+            expect(result!.layout).toBe('body');
+            expect(result!.resource).toEqual({
+                url: 'https://api.example.com/data',
+                mimeType: 'application/json',
+                description: 'Market data',
+            });
+        });
+
+        it('should take the version from the server, defaulting by layout', () => {
+            const requirement = createPaymentRequirement('base');
+            expect(parser.parseBody({ x402Version: 1, accepts: requirement.paymentRequirements })!.version).toBe(1);
+            expect(parser.parseBody({ accepts: requirement.paymentRequirements })!.version).toBe(2);
+
+            const encoded = Buffer.from(JSON.stringify(requirement)).toString('base64');
+            expect(parser.parseHeaders({ 'payment-required': encoded })!.version).toBe(1);
+            expect(parser.parseHeaders({ 'payment-required': encoded })!.layout).toBe('header');
+        });
+
+        it('should return null for bodies without payment requirements', () => {
+            expect(parser.parseBody(undefined)).toBeNull();
+            expect(parser.parseBody({ error: 'nope' })).toBeNull();
+        });
     });
 
     describe('Amount Parsing', () => {
@@ -201,6 +272,46 @@ describe('PaymentSigner', () => {
             expect(result.paymentPayload).toBeDefined();
         });
 
+        it('should refuse to sign for a revoked session', async () => {
+            const sessionManager = new SessionKeyManager();
+            await sessionManager.revokeSession(testSession.keyHash, { reason: 'key leaked' });
+
+            const request = {
+                amount: '1000000',
+                token: 'USDC',
+                recipient: '0x0000000000000000000000000000000000000123',
+                chain: 30,
+                network: 'base',
+                scheme: 'exact' as const,
+                original: {} as any,
+            };
+
+            const error = await new PaymentSigner(sessionManager).sign(request, testSession).catch((e) => e);
+            expect(error).toBeInstanceOf(AgentPaymentError);
+            expect(error.code).toBe(AgentPaymentErrorCode.SESSION_REVOKED);
+            expect(error.message).toContain('key leaked');
+        });
+
+        it('should sign with the session manager\'s external signer', async () => {
+            const sessionManager = new SessionKeyManager();
+            const external = { ...testSession, encryptedPrivateKey: 'external', externalSigner: true };
+            await sessionManager.attachSigner(external, new LocalSessionSigner(testWallet));
+
+            const request = {
+                amount: '1000000',
+                token: 'USDC',
+                recipient: '0x0000000000000000000000000000000000000123',
+                chain: 30,
+                network: 'base',
+                scheme: 'exact' as const,
+                original: {} as any,
+            };
+
+            const result = await new PaymentSigner(sessionManager).sign(request, external);
+            const payload = JSON.parse(Buffer.from(result.paymentPayload, 'base64').toString());
+            expect(payload.payload.authorization.from).toBe(testWallet.address);
+        });
+
         it('should include correct deadline in signature', async () => {
             const now = Math.floor(Date.now() / 1000);
             const request = {
@@ -371,7 +482,682 @@ describe('x402 - Property Tests', () => {
     });
 });
 
+describe('X402Client', () => {
+    let client: X402Client;
+    let sessionManager: SessionKeyManager;
+    let session: StoredSession;
+    let fetchMock: ReturnType<typeof vi.fn>;
+
+    const paymentRequired = (payTo: string) => new Response(null, {
+        status: 402,
+        headers: {
+            'PAYMENT-REQUIRED': Buffer.from(JSON.stringify({
+                paymentRequirements: [{
+                    scheme: 'exact',
+                    network: 'base',
+                    maxAmountRequired: '2000000',
+                    asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+                    payTo,
+                }],
+            })).toString('base64'),
+        },
+    });
+
+    beforeEach(() => {
+        sessionManager = new SessionKeyManager();
+        client = new X402Client(sessionManager, null as any);
+        const wallet = ethers.Wallet.createRandom();
+        session = {
+            keyHash: '0x' + 'a'.repeat(64),
+            encryptedPrivateKey: wallet.privateKey,
+            publicKey: wallet.signingKey.publicKey,
+            config: {
+                dailyLimitUSD: 100,
+                perTransactionLimitUSD: 25,
+                expiryTimestamp: Date.now() + 3600000,
+                allowedChains: [30],
+            },
+            metadata: {
+                createdAt: Date.now(),
+                lastUsedAt: Date.now(),
+                totalSpentUSD: 0,
+                dailySpentUSD: 0,
+                dailyResetAt: Date.now() + 86400000,
+                transactionCount: 0,
+            },
+            masterKeyHash: '0x' + 'b'.repeat(64),
+        };
+        fetchMock = vi.fn();
+        vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should pay and retry with a PAYMENT-SIGNATURE header', async () => {
+        fetchMock
+            .mockResolvedValueOnce(paymentRequired('0x0000000000000000000000000000000000000001'))
+            .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+
+        const response = await client.handleFetch('https://api.example.com/data', {}, session);
+
+        expect(response.status).toBe(200);
+        const retryHeaders = new Headers(fetchMock.mock.calls[1][1].headers);
+        expect(retryHeaders.get('PAYMENT-SIGNATURE')).toBeTruthy();
+        expect(session.metadata.dailySpentUSD).toBe(2);
+    });
+
+    it('should sign with a session loaded by a second manager', async () => {
+        const storage = new MemoryStorageAdapter();
+        const wallet = ethers.Wallet.createRandom();
+        await new SessionKeyManager({ storage }).importSession({
+            ...session,
+            encryptedPrivateKey: Buffer.from('encrypted key').toString('base64'),
+            publicKey: wallet.signingKey.publicKey,
+        });
+        const second = new SessionKeyManager({ storage });
+        const loaded = (await second.loadSession(session.keyHash))!;
+        vi.mocked(decrypt).mockResolvedValueOnce(ethers.getBytes(wallet.privateKey));
+        fetchMock
+            .mockResolvedValueOnce(paymentRequired('0x0000000000000000000000000000000000000001'))
+            .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+
+        const response = await new X402Client(second, null as any, {}, 'master-credential')
+            .handleFetch('https://api.example.com/data', {}, loaded);
+
+        expect(response.status).toBe(200);
+        expect(deriveEncryptionKey).toHaveBeenCalledWith('master-credential');
+        const payload = JSON.parse(Buffer.from(
+            new Headers(fetchMock.mock.calls[1][1].headers).get('PAYMENT-SIGNATURE')!, 'base64'
+        ).toString());
+        expect(payload.payload.authorization.from).toBe(wallet.address);
+    });
+
+    it('should answer a v2 JSON 402 body with an X-PAYMENT header', async () => {
+        fetchMock
+            .mockResolvedValueOnce(new Response(JSON.stringify({
+                x402Version: 2,
+                accepts: [{
+                    scheme: 'exact',
+                    network: 'eip155:8453',
+                    maxAmountRequired: '2000000',
+                    asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+                    payTo: '0x0000000000000000000000000000000000000001',
+                }],
+            }), { status: 402, headers: { 'Content-Type': 'application/json' } }))
+            .mockResolvedValueOnce(new Response('ok', {
+                status: 200,
+                headers: {
+                    'X-PAYMENT-RESPONSE': Buffer.from(JSON.stringify({ success: false, network: 'base', amount: '0' })).toString('base64'),
+                },
+            }));
+
+        const response = await client.handleFetch('https://api.example.com/data', {}, session);
+
+        expect(response.status).toBe(200);
+        const retryHeaders = new Headers(fetchMock.mock.calls[1][1].headers);
+        expect(retryHeaders.get('PAYMENT-SIGNATURE')).toBeNull();
+        const payload = JSON.parse(Buffer.from(retryHeaders.get('X-PAYMENT')!, 'base64').toString());
+        expect(payload.x402Version).toBe(2);
+        expect(payload.network).toBe('eip155:8453');
+        // The settlement was read from X-PAYMENT-RESPONSE and reported a failure
+        expect(session.metadata.dailySpentUSD).toBe(0);
+    });
+
+    describe('upto scheme', () => {
+        const meteredRequired = (maxAmountRequired = '2000000') => new Response(null, {
+            status: 402,
+            headers: {
+                'PAYMENT-REQUIRED': Buffer.from(JSON.stringify({
+                    paymentRequirements: [{
+                        scheme: 'upto',
+                        network: 'base',
+                        maxAmountRequired,
+                        asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+                        payTo: '0x0000000000000000000000000000000000000001',
+                    }],
+                })).toString('base64'),
+            },
+        });
+        const settled = (amount: string) => new Response('ok', {
+            status: 200,
+            headers: {
+                'PAYMENT-RESPONSE': Buffer.from(JSON.stringify({ success: true, network: 'base', amount })).toString('base64'),
+            },
+        });
+
+        it('should authorize the cap and record only the settled amount', async () => {
+            fetchMock
+                .mockResolvedValueOnce(meteredRequired())
+                .mockResolvedValueOnce(settled('500000'));
+
+            const response = await client.handleFetch('https://api.example.com/llm', {}, session);
+
+            expect(response.status).toBe(200);
+            const payload = JSON.parse(Buffer.from(
+                new Headers(fetchMock.mock.calls[1][1].headers).get('PAYMENT-SIGNATURE')!, 'base64'
+            ).toString());
+            expect(payload.scheme).toBe('upto');
+            // The cap is signed in the same atomic units the budget was valued in
+            expect(payload.payload.authorization.value).toBe('2000000');
+            expect(sessionManager.getDailySpentUSD(session)).toBe(0.5);
+            expect(session.metadata.ledger![0].tokenAmount).toBe(0.5);
+            expect(session.metadata.reservations).toEqual([]);
+        });
+
+        it('should compare the settled amount with a formatted cap in atomic units', async () => {
+            fetchMock
+                .mockResolvedValueOnce(meteredRequired('1.5'))
+                .mockResolvedValueOnce(settled('750000'));
+
+            await client.handleFetch('https://api.example.com/llm', {}, session);
+
+            expect(sessionManager.getDailySpentUSD(session)).toBe(0.75);
+        });
+
+        it('should charge the cap when the settled amount is missing or above it', async () => {
+            fetchMock
+                .mockResolvedValueOnce(meteredRequired())
+                .mockResolvedValueOnce(new Response('ok', { status: 200 }))
+                .mockResolvedValueOnce(meteredRequired())
+                .mockResolvedValueOnce(settled('3000000'));
+
+            await client.handleFetch('https://api.example.com/llm', {}, session);
+            expect(sessionManager.getDailySpentUSD(session)).toBe(2);
+
+            await client.handleFetch('https://api.example.com/llm', {}, session);
+            expect(sessionManager.getDailySpentUSD(session)).toBe(4);
+        });
+    });
+
+    it('should release the reserved budget when the server rejects the payment', async () => {
+        fetchMock
+            .mockResolvedValueOnce(paymentRequired('0x0000000000000000000000000000000000000001'))
+            .mockResolvedValueOnce(paymentRequired('0x0000000000000000000000000000000000000001'));
+
+        const error = await client.handleFetch('https://api.example.com/data', {}, session).catch((e) => e);
+
+        expect(error.code).toBe(AgentPaymentErrorCode.PAYMENT_FAILED);
+        expect(session.metadata.dailySpentUSD).toBe(0);
+        expect(session.metadata.reservations).toEqual([]);
+        expect(sessionManager.checkLimits(session, 25).allowed).toBe(true);
+    });
+
+    it('should refuse to pay a payTo address outside the session allowlist', async () => {
+        session.config.recipients = { allow: ['0x0000000000000000000000000000000000000001'] };
+        fetchMock.mockResolvedValueOnce(paymentRequired('0x00000000000000000000000000000000000000ff'));
+
+        const error = await client.handleFetch('https://api.example.com/data', {}, session).catch((e) => e);
+
+        expect(error).toBeInstanceOf(AgentPaymentError);
+        expect(error.code).toBe(AgentPaymentErrorCode.RECIPIENT_NOT_ALLOWED);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(session.metadata.dailySpentUSD).toBe(0);
+    });
+
+    it('should refuse to pay resources on denied origins', async () => {
+        session.config.origins = { deny: ['https://evil.example.com'] };
+        fetchMock.mockResolvedValueOnce(paymentRequired('0x0000000000000000000000000000000000000001'));
+
+        const error = await client.handleFetch('https://evil.example.com/prompt', {}, session).catch((e) => e);
+
+        expect(error.code).toBe(AgentPaymentErrorCode.ORIGIN_NOT_ALLOWED);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    describe('Preflight', () => {
+        it('should report a payable 402 without reserving budget or signing', async () => {
+            fetchMock.mockResolvedValueOnce(paymentRequired('0x0000000000000000000000000000000000000001'));
+
+            const verdict = await client.preflight('https://api.example.com/data', {}, session);
+
+            expect(verdict.paymentRequired).toBe(true);
+            expect(verdict.wouldSucceed).toBe(true);
+            expect(verdict.payment?.amountUSD).toBe(2);
+            expect(verdict.payment?.fees?.paidBy).toBe('facilitator');
+            expect(verdict.checks.find((c) => c.name === 'limits')?.status).toBe('pass');
+            expect(verdict.checks.find((c) => c.name === 'balance')?.status).toBe('skip');
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+            expect(session.metadata.reservations ?? []).toEqual([]);
+            expect(session.metadata.dailySpentUSD).toBe(0);
+        });
+
+        it('should report the error the payment would fail with', async () => {
+            session.config.perTransactionLimitUSD = 1;
+            fetchMock.mockResolvedValueOnce(paymentRequired('0x0000000000000000000000000000000000000001'));
+
+            const verdict = await client.preflight('https://api.example.com/data', {}, session);
+
+            expect(verdict.wouldSucceed).toBe(false);
+            expect(verdict.error?.code).toBe(AgentPaymentErrorCode.TRANSACTION_LIMIT_EXCEEDED);
+            expect(verdict.checks.find((c) => c.name === 'limits')?.status).toBe('fail');
+            expect(verdict.checks.find((c) => c.name === 'policy')?.status).toBe('skip');
+        });
+
+        it('should report that no payment is required for other responses', async () => {
+            fetchMock.mockResolvedValueOnce(new Response('ok', { status: 200 }));
+
+            const verdict = await client.preflight('https://api.example.com/free', {}, session);
+
+            expect(verdict).toMatchObject({ status: 200, paymentRequired: false, wouldSucceed: true });
+        });
+    });
+});
+
 // Helper functions
+describe('X402 Middleware', () => {
+    const payTo = '0x0000000000000000000000000000000000000001';
+    const settle = vi.fn();
+    let server: http.Server;
+    let baseUrl: string;
+    let client: X402Client;
+    let session: StoredSession;
+
+    beforeAll(async () => {
+        const paywall = createX402Middleware({
+            payTo,
+            facilitator: { settle },
+            routes: {
+                'GET /reports/*': { amount: '2000000', asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', network: 'base' },
+            },
+        });
+        server = http.createServer((req: X402HttpRequest, res) => paywall(req, res, () => {
+            res.end(JSON.stringify({ payer: req.x402?.payer ?? null }));
+        }));
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        settle.mockReset();
+        settle.mockImplementation(async (request) => ({
+            success: true, network: request.network, amount: request.amount, transactionHash: '0x' + '1'.repeat(64),
+        }));
+        client = new X402Client(new SessionKeyManager(), null as any);
+        const wallet = ethers.Wallet.createRandom();
+        session = {
+            keyHash: '0x' + 'a'.repeat(64),
+            encryptedPrivateKey: wallet.privateKey,
+            publicKey: wallet.signingKey.publicKey,
+            config: { dailyLimitUSD: 100, perTransactionLimitUSD: 25, expiryTimestamp: Date.now() + 3600000, allowedChains: [30] },
+            metadata: {
+                createdAt: Date.now(),
+                lastUsedAt: Date.now(),
+                totalSpentUSD: 0,
+                dailySpentUSD: 0,
+                dailyResetAt: Date.now() + 86400000,
+                transactionCount: 0,
+            },
+            masterKeyHash: '0x' + 'b'.repeat(64),
+        };
+    });
+
+    // Signed PAYMENT-SIGNATURE header for the priced route
+    const signPayment = async (deadline?: number) => {
+        const request = new PaymentParser().requirementToRequest({
+            scheme: 'exact',
+            network: 'base',
+            maxAmountRequired: '2000000',
+            asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+            payTo,
+        });
+        return (await new PaymentSigner().sign({ ...request, deadline }, session)).paymentPayload;
+    };
+
+    it('should charge priced routes and settle payments from the client', async () => {
+        const unpaid = await fetch(`${baseUrl}/reports/daily`);
+        expect(unpaid.status).toBe(402);
+        const required = JSON.parse(Buffer.from(unpaid.headers.get('PAYMENT-REQUIRED')!, 'base64').toString());
+        expect(required.paymentRequirements[0]).toMatchObject({
+            payTo, network: 'base', maxAmountRequired: '2000000', resource: `${baseUrl}/reports/daily`,
+        });
+
+        const response = await client.handleFetch(`${baseUrl}/reports/daily`, {}, session);
+
+        expect(response.status).toBe(200);
+        const wallet = new ethers.Wallet(session.encryptedPrivateKey);
+        expect(await response.json()).toEqual({ payer: wallet.address });
+        expect(response.headers.get('PAYMENT-RESPONSE')).toBeTruthy();
+        expect(settle).toHaveBeenCalledTimes(1);
+        expect(session.metadata.dailySpentUSD).toBe(2);
+    });
+
+    it('should let unpriced routes through', async () => {
+        const response = await fetch(`${baseUrl}/health`);
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ payer: null });
+    });
+
+    it('should reject replayed and expired authorizations', async () => {
+        const payment = await signPayment();
+        const first = await fetch(`${baseUrl}/reports/daily`, { headers: { 'PAYMENT-SIGNATURE': payment } });
+        expect(first.status).toBe(200);
+
+        const replay = await fetch(`${baseUrl}/reports/daily`, { headers: { 'PAYMENT-SIGNATURE': payment } });
+        expect(replay.status).toBe(402);
+        expect((await replay.json()).error).toContain('already used');
+
+        const expired = await fetch(`${baseUrl}/reports/daily`, {
+            headers: { 'PAYMENT-SIGNATURE': await signPayment(Math.floor(Date.now() / 1000) - 1) },
+        });
+        expect(expired.status).toBe(402);
+        expect((await expired.json()).error).toContain('expired');
+        expect(settle).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject authorizations valid for longer than the route allows', async () => {
+        const response = await fetch(`${baseUrl}/reports/daily`, {
+            headers: { 'PAYMENT-SIGNATURE': await signPayment(Math.floor(Date.now() / 1000) + 365 * 24 * 3600) },
+        });
+
+        expect(response.status).toBe(402);
+        expect((await response.json()).error).toContain('more than 300 seconds');
+        expect(settle).not.toHaveBeenCalled();
+    });
+
+    it('should accept payments in the v2 X-PAYMENT header', async () => {
+        const response = await fetch(`${baseUrl}/reports/daily`, { headers: { 'X-PAYMENT': await signPayment() } });
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('X-PAYMENT-RESPONSE')).toBeTruthy();
+        expect(response.headers.get('PAYMENT-RESPONSE')).toBeNull();
+    });
+
+    it('should reject tampered payments and failed settlements', async () => {
+        const tamper = async (change: (authorization: any) => void) => {
+            const payload = JSON.parse(Buffer.from(await signPayment(), 'base64').toString());
+            change(payload.payload.authorization);
+            const response = await fetch(`${baseUrl}/reports/daily`, {
+                headers: { 'PAYMENT-SIGNATURE': Buffer.from(JSON.stringify(payload)).toString('base64') },
+            });
+            expect(response.status).toBe(402);
+            return (await response.json()).error;
+        };
+        expect(await tamper((a) => { a.value = '1'; })).toContain('authorizes 1');
+        expect(await tamper((a) => { a.to = '0x00000000000000000000000000000000000000ff'; })).toContain('addressed to');
+        expect(await tamper((a) => { a.validBefore -= 60; })).toBe('Invalid payment signature');
+
+        settle.mockRejectedValueOnce(new Error('insufficient balance'));
+        const failed = await fetch(`${baseUrl}/reports/daily`, { headers: { 'PAYMENT-SIGNATURE': await signPayment() } });
+        expect(failed.status).toBe(402);
+        const required = JSON.parse(Buffer.from(failed.headers.get('PAYMENT-REQUIRED')!, 'base64').toString());
+        expect(required.error).toBe('Settlement failed: insufficient balance');
+    });
+});
+
+describe('Facilitators', () => {
+    const requirement = {
+        scheme: 'exact' as const,
+        network: 'base',
+        maxAmountRequired: '2000000',
+        asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+        payTo: '0x0000000000000000000000000000000000000001',
+    };
+    const payload = { x402Version: 1, scheme: 'exact', network: 'base', payload: { signature: '0x01' } };
+    const payment = {
+        signature: '0x01',
+        nonce: '0x' + '2'.repeat(64),
+        deadline: 0,
+        paymentPayload: Buffer.from(JSON.stringify(payload)).toString('base64'),
+    };
+    let fetchMock: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        fetchMock = vi.fn();
+        vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    const json = (body: object, status = 200) => new Response(JSON.stringify(body), { status });
+
+    it('should call the standard REST endpoints', async () => {
+        const client = new HttpFacilitatorClient({ url: 'https://facilitator.example.com/', headers: { 'X-Api-Key': 'key' } });
+        const request = new PaymentParser().requirementToRequest(requirement);
+        fetchMock
+            .mockResolvedValueOnce(json({ isValid: true }))
+            .mockResolvedValueOnce(json({ success: true, transaction: '0xabc', network: 'base' }))
+            .mockResolvedValueOnce(json({ kinds: [{ x402Version: 1, scheme: 'exact', network: 'base' }] }));
+
+        expect(await client.verify(request, payment)).toBe(true);
+        expect(await client.settle(request, payment)).toMatchObject({
+            success: true, transactionHash: '0xabc', network: 'base', facilitator: 'https://facilitator.example.com',
+        });
+        expect(await client.supported()).toEqual([{ x402Version: 1, scheme: 'exact', network: 'base' }]);
+
+        expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+            'https://facilitator.example.com/verify',
+            'https://facilitator.example.com/settle',
+            'https://facilitator.example.com/supported',
+        ]);
+        const [, init] = fetchMock.mock.calls[0];
+        expect(init.headers['X-Api-Key']).toBe('key');
+        expect(JSON.parse(init.body)).toEqual({
+            x402Version: 1, paymentPayload: payload, paymentHeader: payment.paymentPayload, paymentRequirements: requirement,
+        });
+    });
+
+    it('should read Cronos-style settlements and surface facilitator errors', async () => {
+        const client = new HttpFacilitatorClient({ url: 'https://facilitator.example.com' });
+        const request = new PaymentParser().requirementToRequest(requirement);
+        fetchMock
+            .mockResolvedValueOnce(json({ event: 'payment.failed', error: 'insufficient balance', network: 'base' }))
+            .mockResolvedValueOnce(json({ error: 'boom' }, 503));
+
+        expect(await client.settle(request, payment)).toMatchObject({ success: false, error: 'insufficient balance' });
+        const error = await client.settle(request, payment).catch((e) => e);
+        expect(error.code).toBe(AgentPaymentErrorCode.NETWORK_ERROR);
+        expect(error.retryable).toBe(true);
+    });
+
+    it('should settle through the server-named facilitator, then the network adapter', async () => {
+        const adapter: FacilitatorAdapter = {
+            verify: vi.fn(),
+            settle: vi.fn().mockResolvedValue({ success: true, network: 'base', amount: '2000000' }),
+            supported: vi.fn().mockResolvedValue([{ x402Version: 1, scheme: 'exact', network: 'base' }]),
+        };
+        const facilitators = new FacilitatorRegistry().register('Base', adapter);
+        const client = new X402Client(new SessionKeyManager(), null as any, { facilitators });
+        const parser = new PaymentParser();
+        fetchMock.mockResolvedValueOnce(json({ success: true, transaction: '0xdef' }));
+
+        const named = await client.settleWithFacilitator(
+            parser.requirementToRequest({ ...requirement, facilitator: 'https://named.example.com' }),
+            payment
+        );
+        expect(named.transactionHash).toBe('0xdef');
+        expect(fetchMock.mock.calls[0][0]).toBe('https://named.example.com/settle');
+
+        await client.settleWithFacilitator(parser.requirementToRequest(requirement), payment);
+        expect(adapter.settle).toHaveBeenCalledTimes(1);
+        expect(await facilitators.supported()).toHaveLength(1);
+
+        const error = await client.settleWithFacilitator(
+            parser.requirementToRequest({ ...requirement, network: 'solana' }),
+            payment
+        ).catch((e) => e);
+        expect(error.code).toBe(AgentPaymentErrorCode.NETWORK_ERROR);
+    });
+});
+
+describe('LocalFacilitator', () => {
+    // Minimal EVM node with one ERC-3009 token, enough for reads and relayed transfers
+    const token = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+    const erc3009 = new ethers.Interface([
+        'function balanceOf(address owner) view returns (uint256)',
+        'function authorizationState(address authorizer, bytes32 nonce) view returns (bool)',
+        'function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)',
+    ]);
+    const balances = new Map<string, bigint>();
+    const usedNonces = new Set<string>();
+    const receipts = new Map<string, object>();
+    const relayer = ethers.Wallet.createRandom();
+    let node: http.Server;
+    let facilitator: LocalFacilitator;
+    let payer: ethers.HDNodeWallet;
+
+    const rpc = (method: string, params: any[]): unknown => {
+        switch (method) {
+            case 'eth_chainId': return '0x7a69';
+            case 'eth_blockNumber': return '0x10';
+            case 'eth_getTransactionCount': return '0x0';
+            case 'eth_estimateGas': return '0x186a0';
+            case 'eth_gasPrice':
+            case 'eth_maxPriorityFeePerGas': return '0x3b9aca00';
+            case 'eth_getBlockByNumber':
+                return {
+                    hash: ethers.id('block'), parentHash: ethers.ZeroHash, number: '0x10', timestamp: '0x1',
+                    gasLimit: '0x1c9c380', gasUsed: '0x0', baseFeePerGas: '0x3b9aca00', miner: ethers.ZeroAddress,
+                    extraData: '0x', difficulty: '0x0', nonce: '0x0000000000000000', transactions: [],
+                };
+            case 'eth_call': {
+                const call = erc3009.parseTransaction({ data: params[0].data })!;
+                if (call.name === 'balanceOf') {
+                    return erc3009.encodeFunctionResult('balanceOf', [balances.get(call.args[0].toLowerCase()) ?? 0n]);
+                }
+                return erc3009.encodeFunctionResult('authorizationState', [usedNonces.has(call.args[1])]);
+            }
+            case 'eth_sendRawTransaction': {
+                const tx = ethers.Transaction.from(params[0]);
+                const call = erc3009.parseTransaction({ data: tx.data })!;
+                const [from, to, value, , , nonce] = call.args;
+                usedNonces.add(nonce);
+                balances.set(from.toLowerCase(), (balances.get(from.toLowerCase()) ?? 0n) - value);
+                balances.set(to.toLowerCase(), (balances.get(to.toLowerCase()) ?? 0n) + value);
+                receipts.set(tx.hash!, {
+                    transactionHash: tx.hash, blockHash: ethers.id('block'), blockNumber: '0x10', transactionIndex: '0x0',
+                    from: tx.from, to: tx.to, gasUsed: '0x186a0', cumulativeGasUsed: '0x186a0', effectiveGasPrice: '0x3b9aca00',
+                    logs: [], logsBloom: '0x' + '0'.repeat(512), status: '0x1', type: '0x2', contractAddress: null,
+                });
+                return tx.hash;
+            }
+            case 'eth_getTransactionReceipt': return receipts.get(params[0]) ?? null;
+            default: throw new Error(`unsupported ${method}`);
+        }
+    };
+
+    beforeAll(async () => {
+        node = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk) => { body += chunk; });
+            req.on('end', () => {
+                const request = JSON.parse(body);
+                const answer = ({ id, method, params }: any) => {
+                    try {
+                        return { jsonrpc: '2.0', id, result: rpc(method, params) };
+                    } catch (error: any) {
+                        return { jsonrpc: '2.0', id, error: { code: -32601, message: error.message } };
+                    }
+                };
+                res.setHeader('Content-Type', 'application/json');
+                res.end(JSON.stringify(Array.isArray(request) ? request.map(answer) : answer(request)));
+            });
+        });
+        await new Promise<void>((resolve) => node.listen(0, '127.0.0.1', resolve));
+        facilitator = new LocalFacilitator({
+            networks: { 'eip155:31337': { rpcUrl: `http://127.0.0.1:${(node.address() as AddressInfo).port}` } },
+            relayerKey: relayer.privateKey,
+        });
+    });
+
+    afterAll(async () => {
+        await facilitator.close();
+        await new Promise((resolve) => node.close(resolve));
+    });
+
+    beforeEach(() => {
+        payer = ethers.Wallet.createRandom();
+        balances.set(payer.address.toLowerCase(), 5_000_000_000n);
+    });
+
+    const requirements = {
+        scheme: 'exact' as const,
+        network: 'eip155:31337',
+        maxAmountRequired: '2000000000',
+        asset: token,
+        payTo: '0x0000000000000000000000000000000000000001',
+    };
+
+    const signPayment = async (overrides: Partial<typeof requirements> = {}) => {
+        const session = { encryptedPrivateKey: payer.privateKey } as StoredSession;
+        const request = new PaymentParser().requirementToRequest({ ...requirements, ...overrides });
+        return (await new PaymentSigner().sign(request, session)).paymentPayload;
+    };
+
+    it('should verify authorizations against balance and nonce state', async () => {
+        const payment = await signPayment();
+        expect(await facilitator.verifyPayment(payment, requirements)).toEqual({
+            isValid: true, invalidReason: null, payer: payer.address,
+        });
+
+        balances.set(payer.address.toLowerCase(), 1n);
+        expect((await facilitator.verifyPayment(payment, requirements)).invalidReason).toContain('Insufficient balance');
+
+        const underpaid = await signPayment({ maxAmountRequired: '1000000000' });
+        expect((await facilitator.verifyPayment(underpaid, requirements)).invalidReason).toContain('authorizes');
+        expect((await facilitator.verifyPayment(payment, { ...requirements, network: 'base' })).isValid).toBe(false);
+    });
+
+    it('should settle over HTTP and reject the authorization afterwards', async () => {
+        const url = await facilitator.listen();
+        const client = new HttpFacilitatorClient({ url: `${url}/v2/x402` });
+        const request = new PaymentParser().requirementToRequest(requirements);
+        const payment = { signature: '', nonce: '', deadline: 0, paymentPayload: await signPayment() };
+
+        expect(await client.supported()).toEqual([{ x402Version: 1, scheme: 'exact', network: 'eip155:31337' }]);
+        expect(await client.verify(request, payment)).toBe(true);
+
+        const settlement = await client.settle(request, payment);
+        expect(settlement).toMatchObject({ success: true, amount: '2000000000', network: 'eip155:31337' });
+        expect(receipts.has(settlement.transactionHash!)).toBe(true);
+        expect(balances.get(requirements.payTo.toLowerCase())).toBe(2_000_000_000n);
+
+        const replay = await client.settle(request, payment);
+        expect(replay).toMatchObject({ success: false, error: 'Authorization nonce was already used' });
+
+        const missing = await fetch(`${url}/v2/x402/settle`, { method: 'POST', body: '{}' });
+        expect(missing.status).toBe(400);
+    });
+
+    it('should reject malformed requirements and oversized bodies over HTTP', async () => {
+        const server = new LocalFacilitator({
+            networks: { 'eip155:31337': { rpcUrl: 'http://127.0.0.1:1' } },
+            relayerKey: ethers.Wallet.createRandom().privateKey,
+            maxBodyBytes: 4096,
+        });
+        const url = await server.listen();
+        try {
+            const paymentHeader = await signPayment();
+            const malformed = await fetch(`${url}/v2/x402/verify`, {
+                method: 'POST',
+                body: JSON.stringify({ paymentHeader, paymentRequirements: { ...requirements, payTo: undefined } }),
+            });
+            expect(malformed.status).toBe(400);
+            expect(await malformed.json()).toMatchObject({
+                isValid: false, invalidReason: 'paymentRequirements.payTo must be an address',
+            });
+
+            const noAmount = await fetch(`${url}/v2/x402/settle`, {
+                method: 'POST',
+                body: JSON.stringify({ paymentHeader, paymentRequirements: { ...requirements, maxAmountRequired: 'lots' } }),
+            });
+            expect(noAmount.status).toBe(400);
+
+            const oversized = await fetch(`${url}/v2/x402/verify`, { method: 'POST', body: 'x'.repeat(5000) });
+            expect(oversized.status).toBe(413);
+        } finally {
+            await server.close();
+        }
+    });
+});
+
 function createPaymentRequirement(network: string) {
     return {
         paymentRequirements: [{